@@ -0,0 +1,210 @@
+// Generates a week without the GUI: reads a dispatcher list and an optional seed schedule,
+// runs the weekly solver and writes the result as schedule JSON, CSV or a filled workbook.
+//
+// Exit codes: 0 every open radio cell is filled, 2 the run left coverage gaps, 1 error.
+import fs from 'node:fs'
+import path from 'node:path'
+import process from 'node:process'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { Schedule, applyChannelDefinitions, applyTimeSlotGrid, days, getColumns, getTimeSlots } from '../src/constants'
+import {
+  createEmptySchedule,
+  normalizeSchedule,
+  parseChannelDefinitions,
+  parseRestRules,
+  parseShiftDefinitions,
+  parseTimeSlotGrid,
+} from '../src/appStorage'
+import { generateWeeklySchedule } from '../src/solver/weekScheduler'
+import type { ScheduleReport, SolverEngine, WeeklyScheduleResult } from '../src/solver/solverTypes'
+import { resolveWeekAvailability } from '../src/solver/utils/availabilityUtils'
+import { applyRestRules } from '../src/solver/utils/restRuleUtils'
+import { applyShiftDefinitions } from '../src/solver/utils/shiftUtils'
+import { computeSeniority, normalizeDispatcher, type LegacyDispatcher } from '../src/utils/dispatcherRecords'
+import { getWeekStart, isWeekStart } from '../src/utils/weekDates'
+import { fillWorkbookTemplate, workbookTemplateFileName } from '../electron/workbook'
+
+type OutputFormat = 'json' | 'csv' | 'xlsm'
+
+const engines: SolverEngine[] = ['greedy', 'glpk', 'glpk-week']
+const formats: OutputFormat[] = ['json', 'csv', 'xlsm']
+const EXIT_ERROR = 1
+const EXIT_GAPS = 2
+
+const usage = `Usage: radio-schedule --dispatchers <file.json> [options]
+
+Options:
+  -d, --dispatchers <file>  Dispatcher list, as saved by the app or dispatchers.example.json
+  -s, --seed <file>         Schedule JSON to start from; its entries are kept unless they break a rule
+  -c, --config <file>       Settings JSON with any of timeSlotGrid, shiftDefinitions, channelDefinitions
+                            and restRules, shaped as the app stores them (default: the built-in settings)
+  -w, --week <YYYY-MM-DD>   Monday of the week, for leave and overtime dates (default: this week)
+  -e, --engine <name>       ${engines.join(' | ')} (default: greedy)
+  -f, --format <name>       ${formats.join(' | ')} (default: from the --out extension, else json)
+  -o, --out <file>          Output file (default: stdout; required for xlsm)
+  -t, --title <text>        Workbook title (xlsm only)
+      --template <file>     Workbook template (default: the bundled ${workbookTemplateFileName})
+  -v, --verbose             Show solver progress on stderr
+  -h, --help                Show this help
+
+Exit codes: 0 every open radio cell is filled, 2 coverage gaps remain, 1 error.`
+
+class UsageError extends Error {}
+
+const defaultTemplatePath = () =>
+  fileURLToPath(new URL(`../electron/resources/${workbookTemplateFileName}`, import.meta.url))
+
+const readJson = (filePath: string, what: string): unknown => {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Could not read ${what} ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+// Applies the settings in a --config file the way the app does on start: the slot grid
+// first, since shift and channel slot labels are remapped onto it
+function applyConfig(filePath: string) {
+  const config = readJson(filePath, 'config')
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`${filePath} does not hold a settings object`)
+  }
+  const settings = config as Record<string, unknown>
+  const setting = <T>(key: string, parse: (value: unknown) => T | null, apply: (value: T) => void) => {
+    if (settings[key] === undefined) return
+    const parsed = parse(settings[key])
+    if (!parsed) throw new Error(`${filePath}: ${key} is not valid`)
+    apply(parsed)
+  }
+  setting('timeSlotGrid', parseTimeSlotGrid, applyTimeSlotGrid)
+  setting('channelDefinitions', parseChannelDefinitions, applyChannelDefinitions)
+  setting('shiftDefinitions', parseShiftDefinitions, applyShiftDefinitions)
+  setting('restRules', parseRestRules, applyRestRules)
+}
+
+const csvQuote = (val: string) => '"' + (val ?? '').replace(/"/g, '""') + '"'
+
+// One row per day and slot, one column per channel
+function scheduleToCsv(schedule: Schedule): string {
+  const columns = getColumns()
+  const rows = [['Day', 'Slot', ...columns]]
+  days.forEach((day) => {
+    getTimeSlots().forEach((slot) => {
+      rows.push([day, slot, ...columns.map((col) => schedule[day]?.[slot]?.[col] ?? '')])
+    })
+  })
+  return rows.map((r) => r.map(csvQuote).join(',')).join('\n') + '\n'
+}
+
+function describeReport(report: ScheduleReport): string[] {
+  const lines = [
+    report.emptyCells.length === 0
+      ? 'Every open radio cell is filled.'
+      : `${report.emptyCells.length} radio cell(s) left empty (${days
+          .map((day) => [day, report.emptyCells.filter((c) => c.day === day).length] as const)
+          .filter(([, count]) => count > 0)
+          .map(([day, count]) => `${day.slice(0, 3)} ${count}`)
+          .join(', ')})`,
+  ]
+  if (report.zeroSlotDays.length > 0) {
+    lines.push(`Available but without a slot: ${report.zeroSlotDays.map((z) => `${z.dispatcherId} ${z.day.slice(0, 3)}`).join(', ')}`)
+  }
+  if (report.missingUt.length > 0) lines.push(`Missing their weekly UT: ${report.missingUt.join(', ')}`)
+  if (report.clearedAssignments.length > 0) {
+    lines.push(`Seed entries ignored by the solver: ${report.clearedAssignments.length}`)
+  }
+  if (report.keptAssignments.length > 0) {
+    lines.push(`Locked entries kept despite a rule: ${report.keptAssignments.length}`)
+  }
+  return lines
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      dispatchers: { type: 'string', short: 'd' },
+      seed: { type: 'string', short: 's' },
+      config: { type: 'string', short: 'c' },
+      week: { type: 'string', short: 'w' },
+      engine: { type: 'string', short: 'e' },
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      title: { type: 'string', short: 't' },
+      template: { type: 'string' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.info(usage)
+    return 0
+  }
+  if (!values.dispatchers) throw new UsageError('--dispatchers is required')
+
+  const engine = (values.engine ?? 'greedy') as SolverEngine
+  if (!engines.includes(engine)) throw new UsageError(`Unknown engine: ${values.engine}`)
+
+  const extension = values.out ? path.extname(values.out).slice(1).toLowerCase() : ''
+  const format = (values.format ?? (formats.includes(extension as OutputFormat) ? extension : 'json')) as OutputFormat
+  if (!formats.includes(format)) throw new UsageError(`Unknown format: ${values.format}`)
+  if (format === 'xlsm' && !values.out) throw new UsageError('--out is required for xlsm output')
+
+  const weekStart = values.week ?? getWeekStart()
+  if (!isWeekStart(weekStart)) throw new UsageError(`--week must be a Monday as YYYY-MM-DD: ${weekStart}`)
+
+  // Settings go first: availability windows and the seed are read against the slot grid
+  if (values.config) applyConfig(values.config)
+
+  const rawDispatchers = readJson(values.dispatchers, 'dispatchers')
+  if (!Array.isArray(rawDispatchers)) throw new Error(`${values.dispatchers} does not hold a dispatcher list`)
+  const dispatchers = resolveWeekAvailability(
+    computeSeniority((rawDispatchers as LegacyDispatcher[]).map(normalizeDispatcher)),
+    weekStart
+  )
+  const seed = values.seed ? normalizeSchedule(readJson(values.seed, 'seed schedule') as Schedule) : createEmptySchedule()
+
+  // The solver reports progress on console.log; keep stdout for the output itself
+  const log = console.log
+  console.log = values.verbose ? console.error : () => {}
+  let result: WeeklyScheduleResult
+  try {
+    result = await generateWeeklySchedule(seed, dispatchers, { engine })
+  } finally {
+    console.log = log
+  }
+  const { schedule, report } = result
+
+  if (format === 'xlsm') {
+    const title = values.title ?? `Radio Schedule - Week of ${weekStart}`
+    const workbook = fillWorkbookTemplate(values.template ?? defaultTemplatePath(), {
+      title,
+      schedule,
+      columns: getColumns(),
+      timeSlots: getTimeSlots(),
+    })
+    fs.writeFileSync(values.out as string, workbook)
+  } else {
+    const output = format === 'csv' ? scheduleToCsv(schedule) : JSON.stringify(schedule, null, 2) + '\n'
+    if (values.out) fs.writeFileSync(values.out, output)
+    else process.stdout.write(output)
+  }
+
+  describeReport(report).forEach((line) => console.error(line))
+  return report.emptyCells.length > 0 ? EXIT_GAPS : 0
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error: unknown) => {
+    console.error(`radio-schedule: ${error instanceof Error ? error.message : String(error)}`)
+    if (error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error('Run with --help for usage.')
+    }
+    process.exitCode = EXIT_ERROR
+  }
+)
@@ -3,10 +3,12 @@ import { autoUpdater } from 'electron-updater'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import fs from 'node:fs'
-import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
 import type { Dispatcher } from '../src/appTypes'
-import type { Column, Day, Schedule, TimeSlot } from '../src/constants'
-import type { DailyDetailDoc } from '../src/appStorage'
+import type { Day, Schedule, ScheduleLocks } from '../src/constants'
+import type { DailyDetailDoc, ScheduleCheckpoint } from '../src/appStorage'
+import type { ScheduleProject } from '../src/projectFile'
+import type { ImportedWorkbook } from '../src/utils/workbookImport'
+import { exportDays, fillWorkbookTemplate, readWorkbookWeek, workbookTemplateFileName, type WorkbookExportPayload } from './workbook'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -26,66 +28,33 @@ let win: BrowserWindow | null
 let currentMenu: Menu | null = null
 let updateAvailable = false
 
-const workbookTemplateFileName = 'Radio Week View Example.xlsm'
-const exportDays: Day[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
-const exportTimeSlots: TimeSlot[] = [
-  '0330-0530',
-  '0530-0730',
-  '0730-0930',
-  '0930-1130',
-  '1130-1330',
-  '1330-1530',
-  '1530-1730',
-  '1730-1930',
-  '1930-2130',
-  '2130-2330',
-  '2330-0130',
-  '0130-0330',
-]
-const exportColumns: Column[] = ['SW', 'CE', 'SE', 'NE', 'NW', 'MT', 'UT', 'RELIEF']
-const workbookColumns: Record<Column, string> = {
-  SW: 'B',
-  CE: 'C',
-  SE: 'D',
-  NE: 'E',
-  NW: 'F',
-  MT: 'G',
-  UT: 'H',
-  RELIEF: 'I',
-}
-const dayStartRows: Record<Day, number> = {
-  Monday: 6,
-  Tuesday: 20,
-  Wednesday: 34,
-  Thursday: 48,
-  Friday: 71,
-  Saturday: 85,
-  Sunday: 99,
-}
-const detailSheetPaths: Record<Day, string> = {
-  Monday: 'xl/worksheets/sheet2.xml',
-  Tuesday: 'xl/worksheets/sheet6.xml',
-  Wednesday: 'xl/worksheets/sheet10.xml',
-  Thursday: 'xl/worksheets/sheet14.xml',
-  Friday: 'xl/worksheets/sheet18.xml',
-  Saturday: 'xl/worksheets/sheet22.xml',
-  Sunday: 'xl/worksheets/sheet26.xml',
+type WorkbookExportResult = {
+  success: boolean
+  canceled?: boolean
+  filePath?: string
+  error?: string
 }
-const detailColumns: Column[] = ['SW', 'CE', 'SE', 'NE', 'NW', 'MT', 'UT']
 
-type WorkbookExportPayload = {
-  title: string
-  schedule: Schedule
-  dailyDetails?: Partial<Record<Day, DailyDetailDoc>>
+type WorkbookImportResult = {
+  success: boolean
+  canceled?: boolean
+  filePath?: string
+  workbook?: ImportedWorkbook
+  error?: string
 }
 
-type WorkbookExportResult = {
+type ProjectOpenResult = {
   success: boolean
   canceled?: boolean
   filePath?: string
+  /** Parsed file contents; validated by the renderer, which knows the current format */
+  project?: unknown
   error?: string
 }
 
+const projectFileExtension = 'rsched'
+const projectFileFilters = [{ name: 'Radio Schedule Project', extensions: [projectFileExtension] }]
+
 function getWorkbookTemplatePath() {
   const devPath = process.env.APP_ROOT
     ? path.join(process.env.APP_ROOT, 'electron', 'resources', workbookTemplateFileName)
@@ -94,180 +63,14 @@ function getWorkbookTemplatePath() {
   return path.join(process.resourcesPath, workbookTemplateFileName)
 }
 
-function escapeXmlText(value: string) {
-  return value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-}
-
-function cellXml(ref: string, existingCell: string, value: string) {
-  const styleMatch = existingCell.match(/\ss="[^"]*"/)
-  const style = styleMatch ? styleMatch[0] : ''
-  if (!value) return `<c r="${ref}"${style}/>`
-
-  const preserveSpace = /^\s|\s$/.test(value) ? ' xml:space="preserve"' : ''
-  return `<c r="${ref}"${style} t="inlineStr"><is><t${preserveSpace}>${escapeXmlText(value)}</t></is></c>`
-}
-
-function columnNumber(column: string) {
-  return column.split('').reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0)
-}
-
-function createCellInExistingRow(sheetXml: string, ref: string, value: string) {
-  const match = ref.match(/^([A-Z]+)(\d+)$/)
-  if (!match) return sheetXml
-  const [, column, row] = match
-  const rowPattern = new RegExp(`<row\\b(?=[^>]*\\br="${row}")[^>]*>[\\s\\S]*?<\\/row>`)
-  const rowXml = sheetXml.match(rowPattern)?.[0]
-  if (!rowXml) return sheetXml
-
-  const fallbackCell = rowXml.match(/<c\b[^>]*\/>|<c\b[^>]*>[\s\S]*?<\/c>/)?.[0] ?? `<c r="${ref}"/>`
-  const newCell = cellXml(ref, fallbackCell.replace(/\br="[^"]*"/, `r="${ref}"`), value)
-  const targetColumn = columnNumber(column)
-  const cells = [...rowXml.matchAll(/<c\b(?=[^>]*\br="([A-Z]+)\d+")[^>]*\/>|<c\b(?=[^>]*\br="([A-Z]+)\d+")[^>]*>[\s\S]*?<\/c>/g)]
-  const insertBefore = cells.find((cell) => columnNumber(cell[1] || cell[2]) > targetColumn)
-  const nextRowXml = insertBefore
-    ? rowXml.replace(insertBefore[0], `${newCell}${insertBefore[0]}`)
-    : rowXml.replace('</row>', `${newCell}</row>`)
-
-  return sheetXml.replace(rowPattern, nextRowXml)
-}
-
-function replaceCell(sheetXml: string, ref: string, value: string) {
-  const pattern = new RegExp(
-    `<c\\b(?=[^>]*\\br="${ref}")[^>]*\\/>|<c\\b(?=[^>]*\\br="${ref}")[^>]*>[\\s\\S]*?<\\/c>`
-  )
-  const existing = sheetXml.match(pattern)?.[0]
-  if (!existing) {
-    return createCellInExistingRow(sheetXml, ref, value)
-  }
-  return sheetXml.replace(pattern, cellXml(ref, existing, value))
-}
-
-function fillRange(
-  sheetXml: string,
-  startColumnCode: number,
-  startRow: number,
-  rowCount: number,
-  columnCount: number,
-  getValue: (rowIndex: number, columnIndex: number) => string
-) {
-  let nextXml = sheetXml
-  for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
-    for (let columnIndex = 0; columnIndex < columnCount; columnIndex += 1) {
-      const ref = `${String.fromCharCode(startColumnCode + columnIndex)}${startRow + rowIndex}`
-      nextXml = replaceCell(nextXml, ref, getValue(rowIndex, columnIndex) ?? '')
-    }
-  }
-  return nextXml
-}
-
-function scheduleDetailDoc(day: Day, schedule: Schedule): DailyDetailDoc {
-  return {
-    grid: {
-      headers: [day, ...detailColumns],
-      rows: exportTimeSlots.map((slot) => [
-        slot,
-        ...detailColumns.map((column) => schedule?.[day]?.[slot]?.[column] ?? ''),
-      ]),
-    },
-    rosters: { headers: ['A SHIFT', 'B SHIFT', 'C SHIFT', 'E SHIFT', 'F SHIFT'], rows: [] },
-    stabilizer: {
-      headers: ['STABILIZER', '', ''],
-      rows: ['0730', '0930', '1130', '1330', '1530', '1730', '1930', '2130', '2330', '0130'].map((time) => [time, '', '']),
-    },
-    relief: {
-      headers: ['RELIEF', ''],
-      rows: ['1530', '1730', '1930', '2130', '2330', '0130'].map((time) => [time, '']),
-    },
-    teletype: {
-      headers: ['TELETYPE', ''],
-      rows: ['0130-0330', '0330-0530', '0530-0730'].map((time) => [time, '']),
-    },
-  }
-}
-
-function fillDetailSheet(sheetXml: string, day: Day, detail: DailyDetailDoc) {
-  const gridHeaders = detail.grid?.headers?.length ? detail.grid.headers : [day, ...detailColumns]
-  let nextXml = fillRange(sheetXml, 65, 1, 1, 8, (_row, columnIndex) => gridHeaders[columnIndex] ?? '')
-  nextXml = fillRange(nextXml, 65, 2, 12, 8, (rowIndex, columnIndex) => {
-    if (columnIndex === 0) return detail.grid?.rows?.[rowIndex]?.[0] ?? exportTimeSlots[rowIndex] ?? ''
-    return detail.grid?.rows?.[rowIndex]?.[columnIndex] ?? ''
-  })
-
-  nextXml = fillRange(nextXml, 65, 14, 1, 5, (_row, columnIndex) => detail.rosters?.headers?.[columnIndex] ?? '')
-  nextXml = fillRange(nextXml, 65, 15, 39, 5, (rowIndex, columnIndex) => (
-    detail.rosters?.rows?.[rowIndex]?.[columnIndex] ?? ''
-  ))
-
-  nextXml = replaceCell(nextXml, 'G18', detail.stabilizer?.headers?.[0] || 'STABILIZER')
-  nextXml = replaceCell(nextXml, 'H18', '')
-  nextXml = fillRange(nextXml, 70, 19, 10, 3, (rowIndex, columnIndex) => (
-    detail.stabilizer?.rows?.[rowIndex]?.[columnIndex] ?? ''
-  ))
-
-  nextXml = replaceCell(nextXml, 'G29', detail.relief?.headers?.[0] || 'RELIEF')
-  nextXml = replaceCell(nextXml, 'H29', '')
-  nextXml = fillRange(nextXml, 71, 30, 6, 2, (rowIndex, columnIndex) => (
-    detail.relief?.rows?.[rowIndex]?.[columnIndex] ?? ''
-  ))
-
-  nextXml = replaceCell(nextXml, 'G37', detail.teletype?.headers?.[0] || 'TELETYPE')
-  nextXml = replaceCell(nextXml, 'H37', '')
-  nextXml = fillRange(nextXml, 71, 38, 3, 2, (rowIndex, columnIndex) => (
-    detail.teletype?.rows?.[rowIndex]?.[columnIndex] ?? ''
-  ))
-
-  return nextXml
-}
-
-function fillWorkbookTemplate(templatePath: string, payload: WorkbookExportPayload) {
-  const workbookBytes = fs.readFileSync(templatePath)
-  const workbook = unzipSync(new Uint8Array(workbookBytes))
-  const masterSheetPath = 'xl/worksheets/sheet1.xml'
-  const masterSheet = workbook[masterSheetPath]
-  if (!masterSheet) {
-    throw new Error(`Template is missing ${masterSheetPath}`)
-  }
-  if (!workbook['xl/vbaProject.bin']) {
-    throw new Error('Template is missing xl/vbaProject.bin')
-  }
-
-  let sheetXml = strFromU8(masterSheet)
-  sheetXml = replaceCell(sheetXml, 'D4', payload.title.trim())
-
-  exportDays.forEach((day) => {
-    const startRow = dayStartRows[day]
-    exportTimeSlots.forEach((slot, slotIndex) => {
-      const rowNumber = startRow + slotIndex
-      exportColumns.forEach((column) => {
-        const ref = `${workbookColumns[column]}${rowNumber}`
-        const value = payload.schedule?.[day]?.[slot]?.[column] ?? ''
-        sheetXml = replaceCell(sheetXml, ref, value)
-      })
-    })
-  })
-
-  workbook[masterSheetPath] = strToU8(sheetXml)
-
-  exportDays.forEach((day) => {
-    const sheetPath = detailSheetPaths[day]
-    const detailSheet = workbook[sheetPath]
-    if (!detailSheet) {
-      throw new Error(`Template is missing ${sheetPath}`)
-    }
-    const detail = payload.dailyDetails?.[day] ?? scheduleDetailDoc(day, payload.schedule)
-    workbook[sheetPath] = strToU8(fillDetailSheet(strFromU8(detailSheet), day, detail))
-  })
-
-  return zipSync(workbook, { level: 6 })
+function safeFileName(title: string, extension: string) {
+  const normalizedTitle = title.trim() || 'Radio Schedule'
+  const cleaned = normalizedTitle.replace(/[<>:"/\\|?*\x00-\x1F]/g, '').replace(/\s+/g, '-')
+  return `${cleaned || 'Radio-Schedule'}.${extension}`
 }
 
 function safeWorkbookFileName(title: string) {
-  const normalizedTitle = title.trim() || 'Radio Schedule'
-  const cleaned = normalizedTitle.replace(/[<>:"/\\|?*\x00-\x1F]/g, '').replace(/\s+/g, '-')
-  return `${cleaned || 'Radio-Schedule'}.xlsm`
+  return safeFileName(title, 'xlsm')
 }
 
 function updateMenu() {
@@ -329,6 +132,35 @@ function createMenu() {
     {
       label: 'File',
       submenu: [
+        {
+          label: 'Open...',
+          accelerator: 'CmdOrCtrl+O',
+          click: () => {
+            win?.webContents.send('menu:open-project')
+          }
+        },
+        {
+          label: 'Save',
+          accelerator: 'CmdOrCtrl+S',
+          click: () => {
+            win?.webContents.send('menu:save-project')
+          }
+        },
+        {
+          label: 'Save As...',
+          accelerator: 'Shift+CmdOrCtrl+S',
+          click: () => {
+            win?.webContents.send('menu:save-project-as')
+          }
+        },
+        { type: 'separator' },
+        {
+          label: 'Import Workbook...',
+          accelerator: 'CmdOrCtrl+I',
+          click: () => {
+            win?.webContents.send('menu:import-workbook')
+          }
+        },
         {
           label: 'Export',
           accelerator: 'Command+E',
@@ -341,8 +173,21 @@ function createMenu() {
     {
       label: 'Edit',
       submenu: [
-        { label: 'Undo', accelerator: 'CmdOrCtrl+Z', role: 'undo' },
-        { label: 'Redo', accelerator: 'Shift+CmdOrCtrl+Z', role: 'redo' },
+        // The renderer undoes text edits in a focused field and schedule edits otherwise
+        {
+          label: 'Undo',
+          accelerator: 'CmdOrCtrl+Z',
+          click: () => {
+            win?.webContents.send('menu:undo')
+          }
+        },
+        {
+          label: 'Redo',
+          accelerator: 'Shift+CmdOrCtrl+Z',
+          click: () => {
+            win?.webContents.send('menu:redo')
+          }
+        },
         { type: 'separator' },
         { label: 'Cut', accelerator: 'CmdOrCtrl+X', role: 'cut' },
         { label: 'Copy', accelerator: 'CmdOrCtrl+C', role: 'copy' },
@@ -524,6 +369,25 @@ function ensureDispatchersFileExists() {
   }
 }
 
+// Write to a sibling temp file and rename over the target so a crash mid-write
+// never leaves a truncated file behind
+function writeFileAtomic(filePath: string, content: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  try {
+    fs.writeFileSync(tempPath, content)
+    fs.renameSync(tempPath, filePath)
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true })
+    throw error
+  }
+}
+
+function readJsonFile<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) return null
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T
+}
+
 ipcMain.handle('get-dispatchers', async () => {
   try {
     ensureDispatchersFileExists()
@@ -558,7 +422,7 @@ ipcMain.handle('save-dispatchers', async (_: unknown, dispatchers: Dispatcher[])
     
     const jsonContent = JSON.stringify(dispatchers, null, 2)
     // console.log('Writing content:', jsonContent) // Removed to avoid console spam
-    fs.writeFileSync(filePath, jsonContent)
+    writeFileAtomic(filePath, jsonContent)
     
     // Verify the file was written
     if (fs.existsSync(filePath)) {
@@ -573,6 +437,249 @@ ipcMain.handle('save-dispatchers', async (_: unknown, dispatchers: Dispatcher[])
   }
 })
 
+// IPC handlers for schedule file operations
+// Layout under userData:
+//   schedules/<week start>.json                 weekly schedule
+//   daily-detail/<week start>/<Day>.json        daily detail sheet
+//   schedule-locks/<week start>.json            locked cells of the week
+//   schedule-checkpoints/<week start>.json      named checkpoints of the week
+const weekStartPattern = /^\d{4}-\d{2}-\d{2}$/
+
+// Week starts and days come from the renderer and end up in file paths, so only accept known shapes
+function assertWeekStart(weekStart: unknown): asserts weekStart is string {
+  if (typeof weekStart !== 'string' || !weekStartPattern.test(weekStart)) {
+    throw new Error(`Invalid week start: ${String(weekStart)}`)
+  }
+}
+
+function assertDay(day: unknown): asserts day is Day {
+  if (!exportDays.includes(day as Day)) {
+    throw new Error(`Invalid day: ${String(day)}`)
+  }
+}
+
+const getSchedulesDirPath = () => path.join(app.getPath('userData'), 'schedules')
+const getScheduleFilePath = (weekStart: string) => path.join(getSchedulesDirPath(), `${weekStart}.json`)
+const getDailyDetailFilePath = (weekStart: string, day: Day) =>
+  path.join(app.getPath('userData'), 'daily-detail', weekStart, `${day}.json`)
+const getScheduleLocksFilePath = (weekStart: string) =>
+  path.join(app.getPath('userData'), 'schedule-locks', `${weekStart}.json`)
+const getScheduleCheckpointsFilePath = (weekStart: string) =>
+  path.join(app.getPath('userData'), 'schedule-checkpoints', `${weekStart}.json`)
+
+ipcMain.handle('list-schedule-weeks', async (): Promise<string[]> => {
+  try {
+    const dirPath = getSchedulesDirPath()
+    if (!fs.existsSync(dirPath)) return []
+    return fs.readdirSync(dirPath)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => name.slice(0, -'.json'.length))
+      .filter((weekStart) => weekStartPattern.test(weekStart))
+      .sort()
+  } catch (error) {
+    console.error('Error listing schedule weeks:', error)
+    return []
+  }
+})
+
+ipcMain.handle('get-schedule', async (_: unknown, weekStart: string): Promise<Schedule | null> => {
+  try {
+    assertWeekStart(weekStart)
+    return readJsonFile<Schedule>(getScheduleFilePath(weekStart))
+  } catch (error) {
+    console.error('Error loading schedule:', error)
+    return null
+  }
+})
+
+// A null schedule removes the week's file
+ipcMain.handle('save-schedule', async (_: unknown, weekStart: string, schedule: Schedule | null) => {
+  try {
+    assertWeekStart(weekStart)
+    const filePath = getScheduleFilePath(weekStart)
+    if (schedule === null) {
+      fs.rmSync(filePath, { force: true })
+      return true
+    }
+    writeFileAtomic(filePath, JSON.stringify(schedule, null, 2))
+    return true
+  } catch (error) {
+    console.error('Error saving schedule:', error)
+    return false
+  }
+})
+
+ipcMain.handle('get-daily-detail', async (_: unknown, weekStart: string, day: Day): Promise<DailyDetailDoc | null> => {
+  try {
+    assertWeekStart(weekStart)
+    assertDay(day)
+    return readJsonFile<DailyDetailDoc>(getDailyDetailFilePath(weekStart, day))
+  } catch (error) {
+    console.error('Error loading daily detail:', error)
+    return null
+  }
+})
+
+ipcMain.handle('save-daily-detail', async (_: unknown, weekStart: string, day: Day, doc: DailyDetailDoc) => {
+  try {
+    assertWeekStart(weekStart)
+    assertDay(day)
+    writeFileAtomic(getDailyDetailFilePath(weekStart, day), JSON.stringify(doc, null, 2))
+    return true
+  } catch (error) {
+    console.error('Error saving daily detail:', error)
+    return false
+  }
+})
+
+ipcMain.handle('get-schedule-locks', async (_: unknown, weekStart: string): Promise<ScheduleLocks | null> => {
+  try {
+    assertWeekStart(weekStart)
+    return readJsonFile<ScheduleLocks>(getScheduleLocksFilePath(weekStart))
+  } catch (error) {
+    console.error('Error loading schedule locks:', error)
+    return null
+  }
+})
+
+// Null locks remove the week's file
+ipcMain.handle('save-schedule-locks', async (_: unknown, weekStart: string, locks: ScheduleLocks | null) => {
+  try {
+    assertWeekStart(weekStart)
+    const filePath = getScheduleLocksFilePath(weekStart)
+    if (locks === null) {
+      fs.rmSync(filePath, { force: true })
+      return true
+    }
+    writeFileAtomic(filePath, JSON.stringify(locks, null, 2))
+    return true
+  } catch (error) {
+    console.error('Error saving schedule locks:', error)
+    return false
+  }
+})
+
+ipcMain.handle('get-schedule-checkpoints', async (_: unknown, weekStart: string): Promise<ScheduleCheckpoint[] | null> => {
+  try {
+    assertWeekStart(weekStart)
+    return readJsonFile<ScheduleCheckpoint[]>(getScheduleCheckpointsFilePath(weekStart))
+  } catch (error) {
+    console.error('Error loading schedule checkpoints:', error)
+    return null
+  }
+})
+
+// Null checkpoints remove the week's file
+ipcMain.handle('save-schedule-checkpoints', async (_: unknown, weekStart: string, checkpoints: ScheduleCheckpoint[] | null) => {
+  try {
+    assertWeekStart(weekStart)
+    const filePath = getScheduleCheckpointsFilePath(weekStart)
+    if (checkpoints === null) {
+      fs.rmSync(filePath, { force: true })
+      return true
+    }
+    writeFileAtomic(filePath, JSON.stringify(checkpoints, null, 2))
+    return true
+  } catch (error) {
+    console.error('Error saving schedule checkpoints:', error)
+    return false
+  }
+})
+
+// IPC handlers for schedule project files (.rsched)
+ipcMain.handle('open-project', async (): Promise<ProjectOpenResult> => {
+  try {
+    const openDialogOptions: Electron.OpenDialogOptions = {
+      title: 'Open Schedule Project',
+      defaultPath: app.getPath('documents'),
+      filters: projectFileFilters,
+      properties: ['openFile'],
+    }
+    const result = win
+      ? await dialog.showOpenDialog(win, openDialogOptions)
+      : await dialog.showOpenDialog(openDialogOptions)
+
+    const [filePath] = result.filePaths
+    if (result.canceled || !filePath) {
+      return { success: false, canceled: true }
+    }
+
+    const project: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    app.addRecentDocument(filePath)
+    return { success: true, filePath, project }
+  } catch (error) {
+    console.error('Error opening project:', error)
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+// Writes to filePath when given; otherwise asks where to save (Save As)
+ipcMain.handle('save-project', async (_: unknown, project: ScheduleProject, filePath?: string): Promise<WorkbookExportResult> => {
+  try {
+    if (!project?.schedule) {
+      throw new Error('No schedule was provided to save')
+    }
+
+    let outputPath = filePath
+    if (!outputPath) {
+      const saveDialogOptions = {
+        title: 'Save Schedule Project',
+        defaultPath: path.join(app.getPath('documents'), safeFileName(project.metadata?.title ?? '', projectFileExtension)),
+        filters: projectFileFilters,
+      }
+      const result = win
+        ? await dialog.showSaveDialog(win, saveDialogOptions)
+        : await dialog.showSaveDialog(saveDialogOptions)
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true }
+      }
+      outputPath = result.filePath.toLowerCase().endsWith(`.${projectFileExtension}`)
+        ? result.filePath
+        : `${result.filePath}.${projectFileExtension}`
+    }
+
+    const stamped: ScheduleProject = {
+      ...project,
+      metadata: { ...project.metadata, appVersion: app.getVersion(), savedAt: new Date().toISOString() },
+    }
+    writeFileAtomic(outputPath, JSON.stringify(stamped, null, 2))
+    app.addRecentDocument(outputPath)
+
+    return { success: true, filePath: outputPath }
+  } catch (error) {
+    console.error('Error saving project:', error)
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+ipcMain.handle('import-week-workbook', async (): Promise<WorkbookImportResult> => {
+  try {
+    const openDialogOptions: Electron.OpenDialogOptions = {
+      title: 'Import Radio Schedule',
+      defaultPath: app.getPath('documents'),
+      filters: [
+        { name: 'Excel Macro-Enabled Workbook', extensions: ['xlsm'] },
+      ],
+      properties: ['openFile'],
+    }
+    const result = win
+      ? await dialog.showOpenDialog(win, openDialogOptions)
+      : await dialog.showOpenDialog(openDialogOptions)
+
+    const [filePath] = result.filePaths
+    if (result.canceled || !filePath) {
+      return { success: false, canceled: true }
+    }
+
+    const workbook = readWorkbookWeek(new Uint8Array(fs.readFileSync(filePath)))
+    return { success: true, filePath, workbook }
+  } catch (error) {
+    console.error('Error importing week workbook:', error)
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
 ipcMain.handle('export-week-workbook', async (_: unknown, payload: WorkbookExportPayload): Promise<WorkbookExportResult> => {
   try {
     if (!payload?.schedule) {
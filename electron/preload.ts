@@ -8,8 +8,10 @@ type IpcListener = (event: IpcRendererEvent, ...args: unknown[]) => void;
 
 // Import types for proper typing
 import type { Dispatcher } from '../src/appTypes';
-import type { Day, Schedule } from '../src/constants';
-import type { DailyDetailDoc } from '../src/appStorage';
+import type { Day, Schedule, ScheduleLocks } from '../src/constants';
+import type { DailyDetailDoc, ScheduleCheckpoint } from '../src/appStorage';
+import type { ScheduleProject } from '../src/projectFile';
+import type { ImportedWorkbook } from '../src/utils/workbookImport';
 
 
 
@@ -38,9 +40,39 @@ contextBridge.exposeInMainWorld('dispatcherAPI', {
   saveDispatchers: (data: Dispatcher[]): Promise<boolean> => ipcRenderer.invoke('save-dispatchers', data),
 })
 
+// Expose schedule file operations (one file per week, plus per-day detail sheets)
+contextBridge.exposeInMainWorld('scheduleAPI', {
+  listScheduleWeeks: (): Promise<string[]> => ipcRenderer.invoke('list-schedule-weeks'),
+  getSchedule: (weekStart: string): Promise<Schedule | null> => ipcRenderer.invoke('get-schedule', weekStart),
+  saveSchedule: (weekStart: string, schedule: Schedule | null): Promise<boolean> =>
+    ipcRenderer.invoke('save-schedule', weekStart, schedule),
+  getDailyDetail: (weekStart: string, day: Day): Promise<DailyDetailDoc | null> =>
+    ipcRenderer.invoke('get-daily-detail', weekStart, day),
+  saveDailyDetail: (weekStart: string, day: Day, doc: DailyDetailDoc): Promise<boolean> =>
+    ipcRenderer.invoke('save-daily-detail', weekStart, day, doc),
+  getScheduleLocks: (weekStart: string): Promise<ScheduleLocks | null> =>
+    ipcRenderer.invoke('get-schedule-locks', weekStart),
+  saveScheduleLocks: (weekStart: string, locks: ScheduleLocks | null): Promise<boolean> =>
+    ipcRenderer.invoke('save-schedule-locks', weekStart, locks),
+  getScheduleCheckpoints: (weekStart: string): Promise<ScheduleCheckpoint[] | null> =>
+    ipcRenderer.invoke('get-schedule-checkpoints', weekStart),
+  saveScheduleCheckpoints: (weekStart: string, checkpoints: ScheduleCheckpoint[] | null): Promise<boolean> =>
+    ipcRenderer.invoke('save-schedule-checkpoints', weekStart, checkpoints),
+})
+
 contextBridge.exposeInMainWorld('scheduleExportAPI', {
-  exportWeekWorkbook: (payload: { title: string; schedule: Schedule; dailyDetails?: Partial<Record<Day, DailyDetailDoc>> }): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }> =>
+  exportWeekWorkbook: (payload: { title: string; schedule: Schedule; columns?: string[]; timeSlots?: string[]; dailyDetails?: Partial<Record<Day, DailyDetailDoc>> }): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }> =>
     ipcRenderer.invoke('export-week-workbook', payload),
+  importWeekWorkbook: (): Promise<{ success: boolean; canceled?: boolean; filePath?: string; workbook?: ImportedWorkbook; error?: string }> =>
+    ipcRenderer.invoke('import-week-workbook'),
+})
+
+// Expose schedule project (.rsched) file operations
+contextBridge.exposeInMainWorld('projectAPI', {
+  openProject: (): Promise<{ success: boolean; canceled?: boolean; filePath?: string; project?: unknown; error?: string }> =>
+    ipcRenderer.invoke('open-project'),
+  saveProject: (project: ScheduleProject, filePath?: string): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }> =>
+    ipcRenderer.invoke('save-project', project, filePath),
 })
 
 // Keep maps of wrapped listeners so we can remove the exact same fn reference later
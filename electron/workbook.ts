@@ -0,0 +1,464 @@
+// Filling and reading the Radio Week View workbook (.xlsm). Plain Node so the desktop app
+// and the command-line tool share it.
+import fs from 'node:fs'
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import type { Column, Day, Schedule, TimeSlot } from '../src/constants'
+import type { DailyDetailDoc } from '../src/appStorage'
+import type { ImportedWorkbook } from '../src/utils/workbookImport'
+
+export const workbookTemplateFileName = 'Radio Week View Example.xlsm'
+export const exportDays: Day[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+const exportTimeSlots: TimeSlot[] = [
+  '0330-0530',
+  '0530-0730',
+  '0730-0930',
+  '0930-1130',
+  '1130-1330',
+  '1330-1530',
+  '1530-1730',
+  '1730-1930',
+  '1930-2130',
+  '2130-2330',
+  '2330-0130',
+  '0130-0330',
+]
+const exportColumns: Column[] = ['SW', 'CE', 'SE', 'NE', 'NW', 'MT', 'UT', 'RELIEF']
+// Channels fill the week view left to right starting at column B; the template has room for B..I
+const workbookFirstColumnCode = 66
+const workbookMaxChannels = 8
+const workbookMaxDetailChannels = 7
+// Each day block in the template holds twelve slot rows under a header row; a longer grid
+// pushes every later block (and on the detail sheets everything below the grid) down
+const workbookTemplateTimeSlots = 12
+const detailPanelCapacity = { stabilizer: 10, relief: 6, teletype: 3 }
+const dayStartRows: Record<Day, number> = {
+  Monday: 6,
+  Tuesday: 20,
+  Wednesday: 34,
+  Thursday: 48,
+  Friday: 71,
+  Saturday: 85,
+  Sunday: 99,
+}
+const detailSheetPaths: Record<Day, string> = {
+  Monday: 'xl/worksheets/sheet2.xml',
+  Tuesday: 'xl/worksheets/sheet6.xml',
+  Wednesday: 'xl/worksheets/sheet10.xml',
+  Thursday: 'xl/worksheets/sheet14.xml',
+  Friday: 'xl/worksheets/sheet18.xml',
+  Saturday: 'xl/worksheets/sheet22.xml',
+  Sunday: 'xl/worksheets/sheet26.xml',
+}
+const detailColumns: Column[] = ['SW', 'CE', 'SE', 'NE', 'NW', 'MT', 'UT']
+const slotLabelPattern = /^\d{4}-\d{4}$/
+
+// Slot rows beyond the template's twelve
+const extraRows = (slotCount: number) => Math.max(0, slotCount - workbookTemplateTimeSlots)
+
+// First slot row of each week view day block for a grid of the given length
+function weekViewStartRows(slotCount: number): Record<Day, number> {
+  const extra = extraRows(slotCount)
+  return Object.fromEntries(exportDays.map((day, index) => [day, dayStartRows[day] + index * extra])) as Record<Day, number>
+}
+
+// Number of slot-labelled rows in column A from the given row on
+function countSlotLabels(cells: Map<string, string>, startRow: number) {
+  let count = 0
+  while (slotLabelPattern.test((cells.get(`A${startRow + count}`) ?? '').trim())) count += 1
+  return count
+}
+
+export type WorkbookExportPayload = {
+  title: string
+  schedule: Schedule
+  /** Configured channel order; defaults to the built-in channel set */
+  columns?: Column[]
+  /** Rows of the configured slot grid; defaults to the built-in twelve two-hour slots */
+  timeSlots?: TimeSlot[]
+  dailyDetails?: Partial<Record<Day, DailyDetailDoc>>
+}
+
+function escapeXmlText(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function cellXml(ref: string, existingCell: string, value: string) {
+  const styleMatch = existingCell.match(/\ss="[^"]*"/)
+  const style = styleMatch ? styleMatch[0] : ''
+  if (!value) return `<c r="${ref}"${style}/>`
+
+  const preserveSpace = /^\s|\s$/.test(value) ? ' xml:space="preserve"' : ''
+  return `<c r="${ref}"${style} t="inlineStr"><is><t${preserveSpace}>${escapeXmlText(value)}</t></is></c>`
+}
+
+function columnNumber(column: string) {
+  return column.split('').reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0)
+}
+
+function createCellInExistingRow(sheetXml: string, ref: string, value: string) {
+  const match = ref.match(/^([A-Z]+)(\d+)$/)
+  if (!match) return sheetXml
+  const [, column, row] = match
+  const rowPattern = new RegExp(`<row\\b(?=[^>]*\\br="${row}")[^>]*>[\\s\\S]*?<\\/row>`)
+  const rowXml = sheetXml.match(rowPattern)?.[0]
+  if (!rowXml) return sheetXml
+
+  const fallbackCell = rowXml.match(/<c\b[^>]*\/>|<c\b[^>]*>[\s\S]*?<\/c>/)?.[0] ?? `<c r="${ref}"/>`
+  const newCell = cellXml(ref, fallbackCell.replace(/\br="[^"]*"/, `r="${ref}"`), value)
+  const targetColumn = columnNumber(column)
+  const cells = [...rowXml.matchAll(/<c\b(?=[^>]*\br="([A-Z]+)\d+")[^>]*\/>|<c\b(?=[^>]*\br="([A-Z]+)\d+")[^>]*>[\s\S]*?<\/c>/g)]
+  const insertBefore = cells.find((cell) => columnNumber(cell[1] || cell[2]) > targetColumn)
+  const nextRowXml = insertBefore
+    ? rowXml.replace(insertBefore[0], `${newCell}${insertBefore[0]}`)
+    : rowXml.replace('</row>', `${newCell}</row>`)
+
+  return sheetXml.replace(rowPattern, nextRowXml)
+}
+
+function replaceCell(sheetXml: string, ref: string, value: string) {
+  const pattern = new RegExp(
+    `<c\\b(?=[^>]*\\br="${ref}")[^>]*\\/>|<c\\b(?=[^>]*\\br="${ref}")[^>]*>[\\s\\S]*?<\\/c>`
+  )
+  const existing = sheetXml.match(pattern)?.[0]
+  if (!existing) {
+    return createCellInExistingRow(sheetXml, ref, value)
+  }
+  return sheetXml.replace(pattern, cellXml(ref, existing, value))
+}
+
+function fillRange(
+  sheetXml: string,
+  startColumnCode: number,
+  startRow: number,
+  rowCount: number,
+  columnCount: number,
+  getValue: (rowIndex: number, columnIndex: number) => string
+) {
+  let nextXml = sheetXml
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+    for (let columnIndex = 0; columnIndex < columnCount; columnIndex += 1) {
+      const ref = `${String.fromCharCode(startColumnCode + columnIndex)}${startRow + rowIndex}`
+      nextXml = replaceCell(nextXml, ref, getValue(rowIndex, columnIndex) ?? '')
+    }
+  }
+  return nextXml
+}
+
+function scheduleDetailDoc(day: Day, schedule: Schedule, timeSlots: TimeSlot[]): DailyDetailDoc {
+  return {
+    grid: {
+      headers: [day, ...detailColumns],
+      rows: timeSlots.map((slot) => [
+        slot,
+        ...detailColumns.map((column) => schedule?.[day]?.[slot]?.[column] ?? ''),
+      ]),
+    },
+    rosters: { headers: ['A SHIFT', 'B SHIFT', 'C SHIFT', 'E SHIFT', 'F SHIFT'], rows: [] },
+    stabilizer: {
+      headers: ['STABILIZER', '', ''],
+      rows: ['0730', '0930', '1130', '1330', '1530', '1730', '1930', '2130', '2330', '0130'].map((time) => [time, '', '']),
+    },
+    relief: {
+      headers: ['RELIEF', ''],
+      rows: ['1530', '1730', '1930', '2130', '2330', '0130'].map((time) => [time, '']),
+    },
+    teletype: {
+      headers: ['TELETYPE', ''],
+      rows: ['0130-0330', '0330-0530', '0530-0730'].map((time) => [time, '']),
+    },
+  }
+}
+
+// Moves merged ranges at or below a row down with the content under the grid
+function shiftMergedCells(sheetXml: string, fromRow: number, by: number) {
+  if (by === 0) return sheetXml
+  return sheetXml.replace(/<mergeCell ref="([A-Z]+)(\d+):([A-Z]+)(\d+)"\/>/g, (match, c1: string, r1: string, c2: string, r2: string) => (
+    Number(r1) >= fromRow ? `<mergeCell ref="${c1}${Number(r1) + by}:${c2}${Number(r2) + by}"/>` : match
+  ))
+}
+
+function fillDetailSheet(sheetXml: string, day: Day, detail: DailyDetailDoc) {
+  const gridHeaders = detail.grid?.headers?.length ? detail.grid.headers : [day, ...detailColumns]
+  const gridRows = Math.max(workbookTemplateTimeSlots, detail.grid?.rows?.length ?? 0)
+  const extra = extraRows(gridRows)
+  let nextXml = fillRange(sheetXml, 65, 1, 1, 8, (_row, columnIndex) => gridHeaders[columnIndex] ?? '')
+  if (extra > 0) {
+    // Clear the template's rosters and panels before they are written lower down
+    nextXml = fillRange(nextXml, 65, 14, 39, 8, () => '')
+    nextXml = shiftMergedCells(nextXml, 14, extra)
+  }
+  nextXml = fillRange(nextXml, 65, 2, gridRows, 8, (rowIndex, columnIndex) => {
+    if (columnIndex === 0) return detail.grid?.rows?.[rowIndex]?.[0] ?? ''
+    return detail.grid?.rows?.[rowIndex]?.[columnIndex] ?? ''
+  })
+
+  nextXml = fillRange(nextXml, 65, 14 + extra, 1, 5, (_row, columnIndex) => detail.rosters?.headers?.[columnIndex] ?? '')
+  nextXml = fillRange(nextXml, 65, 15 + extra, 39, 5, (rowIndex, columnIndex) => (
+    detail.rosters?.rows?.[rowIndex]?.[columnIndex] ?? ''
+  ))
+
+  nextXml = replaceCell(nextXml, `G${18 + extra}`, detail.stabilizer?.headers?.[0] || 'STABILIZER')
+  nextXml = replaceCell(nextXml, `H${18 + extra}`, '')
+  nextXml = fillRange(nextXml, 70, 19 + extra, 10, 3, (rowIndex, columnIndex) => (
+    detail.stabilizer?.rows?.[rowIndex]?.[columnIndex] ?? ''
+  ))
+
+  nextXml = replaceCell(nextXml, `G${29 + extra}`, detail.relief?.headers?.[0] || 'RELIEF')
+  nextXml = replaceCell(nextXml, `H${29 + extra}`, '')
+  nextXml = fillRange(nextXml, 71, 30 + extra, 6, 2, (rowIndex, columnIndex) => (
+    detail.relief?.rows?.[rowIndex]?.[columnIndex] ?? ''
+  ))
+
+  nextXml = replaceCell(nextXml, `G${37 + extra}`, detail.teletype?.headers?.[0] || 'TELETYPE')
+  nextXml = replaceCell(nextXml, `H${37 + extra}`, '')
+  nextXml = fillRange(nextXml, 71, 38 + extra, 3, 2, (rowIndex, columnIndex) => (
+    detail.teletype?.rows?.[rowIndex]?.[columnIndex] ?? ''
+  ))
+
+  return nextXml
+}
+
+export function fillWorkbookTemplate(templatePath: string, payload: WorkbookExportPayload) {
+  const workbookBytes = fs.readFileSync(templatePath)
+  const workbook = unzipSync(new Uint8Array(workbookBytes))
+  const masterSheetPath = 'xl/worksheets/sheet1.xml'
+  const masterSheet = workbook[masterSheetPath]
+  if (!masterSheet) {
+    throw new Error(`Template is missing ${masterSheetPath}`)
+  }
+  if (!workbook['xl/vbaProject.bin']) {
+    throw new Error('Template is missing xl/vbaProject.bin')
+  }
+
+  const columns = payload.columns?.length ? payload.columns : exportColumns
+  if (columns.length > workbookMaxChannels) {
+    throw new Error(
+      `The workbook template has room for ${workbookMaxChannels} channels, but ${columns.length} are configured.`
+    )
+  }
+  const timeSlots = payload.timeSlots?.length ? payload.timeSlots : exportTimeSlots
+  exportDays.forEach((day) => {
+    const detail = payload.dailyDetails?.[day]
+    const detailChannels = (detail?.grid?.headers?.length ?? 1) - 1
+    if (detailChannels > workbookMaxDetailChannels) {
+      throw new Error(
+        `The ${day} detail sheet has room for ${workbookMaxDetailChannels} channels, but ${detailChannels} are configured.`
+      )
+    }
+    for (const [panel, capacity] of Object.entries(detailPanelCapacity)) {
+      const rows = detail?.[panel as keyof typeof detailPanelCapacity]?.rows?.length ?? 0
+      if (rows > capacity) {
+        throw new Error(`The ${day} detail sheet has room for ${capacity} ${panel} rows, but ${rows} are needed.`)
+      }
+    }
+  })
+
+  let sheetXml = strFromU8(masterSheet)
+  sheetXml = replaceCell(sheetXml, 'D4', payload.title.trim())
+
+  const rowsPerDay = Math.max(workbookTemplateTimeSlots, timeSlots.length)
+  const startRows = weekViewStartRows(rowsPerDay)
+  if (rowsPerDay > workbookTemplateTimeSlots) {
+    // The blocks no longer line up with the template's, so clear its example week first
+    const firstRow = dayStartRows.Monday - 1
+    const lastRow = Math.max(dayStartRows.Sunday, startRows.Sunday) + rowsPerDay - 1
+    sheetXml = fillRange(sheetXml, 65, firstRow, lastRow - firstRow + 1, workbookMaxChannels + 1, () => '')
+  }
+
+  exportDays.forEach((day) => {
+    const startRow = startRows[day]
+    // Header row: day name in A, then the channel names
+    sheetXml = fillRange(sheetXml, 65, startRow - 1, 1, workbookMaxChannels + 1, (_row, columnIndex) => (
+      columnIndex === 0 ? day : columns[columnIndex - 1] ?? ''
+    ))
+    for (let slotIndex = 0; slotIndex < rowsPerDay; slotIndex += 1) {
+      const slot = timeSlots[slotIndex]
+      const rowNumber = startRow + slotIndex
+      sheetXml = replaceCell(sheetXml, `A${rowNumber}`, slot ?? '')
+      columns.forEach((column, columnIndex) => {
+        const ref = `${String.fromCharCode(workbookFirstColumnCode + columnIndex)}${rowNumber}`
+        const value = slot ? payload.schedule?.[day]?.[slot]?.[column] ?? '' : ''
+        sheetXml = replaceCell(sheetXml, ref, value)
+      })
+    }
+  })
+
+  workbook[masterSheetPath] = strToU8(sheetXml)
+
+  exportDays.forEach((day) => {
+    const sheetPath = detailSheetPaths[day]
+    const detailSheet = workbook[sheetPath]
+    if (!detailSheet) {
+      throw new Error(`Template is missing ${sheetPath}`)
+    }
+    const detail = payload.dailyDetails?.[day] ?? scheduleDetailDoc(day, payload.schedule, timeSlots)
+    workbook[sheetPath] = strToU8(fillDetailSheet(strFromU8(detailSheet), day, detail))
+  })
+
+  return zipSync(workbook, { level: 6 })
+}
+
+function unescapeXmlText(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-fA-F]+);/g, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+// Concatenated text runs of a shared string item or inline string
+function xmlTextRuns(xml: string) {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((match) => unescapeXmlText(match[1])).join('')
+}
+
+function readSharedStrings(workbook: Record<string, Uint8Array>) {
+  const sharedStrings = workbook['xl/sharedStrings.xml']
+  if (!sharedStrings) return []
+  return [...strFromU8(sharedStrings).matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => xmlTextRuns(match[1]))
+}
+
+// Displayed value of every cell in a sheet, keyed by reference. Excel saves typed text as
+// shared strings, our export writes inline strings, and formulas keep their cached value.
+function readSheetCells(sheetXml: string, sharedStrings: string[]) {
+  const cells = new Map<string, string>()
+  for (const match of sheetXml.matchAll(/<c\b([^>]*?)\/>|<c\b([^>]*)>([\s\S]*?)<\/c>/g)) {
+    const attributes = match[1] ?? match[2] ?? ''
+    const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1]
+    if (!ref || match[1] !== undefined) continue
+    const type = attributes.match(/\bt="([^"]*)"/)?.[1]
+    const body = match[3] ?? ''
+    const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+    if (type === 'inlineStr') {
+      cells.set(ref, xmlTextRuns(body))
+    } else if (type === 's') {
+      cells.set(ref, sharedStrings[Number(raw)] ?? '')
+    } else if (raw !== undefined) {
+      cells.set(ref, unescapeXmlText(raw))
+    }
+  }
+  return cells
+}
+
+// Reads a rectangular range as trimmed strings, the reverse of fillRange
+function readRange(
+  cells: Map<string, string>,
+  startColumnCode: number,
+  startRow: number,
+  rowCount: number,
+  columnCount: number
+) {
+  const rows: string[][] = []
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+    const row: string[] = []
+    for (let columnIndex = 0; columnIndex < columnCount; columnIndex += 1) {
+      const ref = `${String.fromCharCode(startColumnCode + columnIndex)}${startRow + rowIndex}`
+      row.push((cells.get(ref) ?? '').trim())
+    }
+    rows.push(row)
+  }
+  return rows
+}
+
+// Panel times are typed as numbers in the template (730 for 0730)
+const padPanelTime = (value: string) => (/^\d{1,4}$/.test(value) ? value.padStart(4, '0') : value)
+
+const dropTrailingEmptyRows = (rows: string[][]) => {
+  const lastFilled = rows.map((row) => row.some(Boolean)).lastIndexOf(true)
+  return rows.slice(0, lastFilled + 1)
+}
+
+// The reverse of fillDetailSheet
+function readDetailSheet(cells: Map<string, string>, day: Day): DailyDetailDoc {
+  const [gridHeaders] = readRange(cells, 65, 1, 1, 8)
+  const headers = [gridHeaders[0] || day, ...gridHeaders.slice(1).filter(Boolean)]
+  const gridRowCount = Math.max(workbookTemplateTimeSlots, countSlotLabels(cells, 2))
+  const extra = extraRows(gridRowCount)
+  const gridRows = readRange(cells, 65, 2, gridRowCount, headers.length)
+  const [rosterHeaders] = readRange(cells, 65, 14 + extra, 1, 5)
+  const panelRows = (rows: string[][]) => rows.filter((row) => row.some(Boolean)).map((row) => [padPanelTime(row[0]), ...row.slice(1)])
+
+  return {
+    grid: { headers, rows: dropTrailingEmptyRows(gridRows) },
+    rosters: { headers: rosterHeaders, rows: dropTrailingEmptyRows(readRange(cells, 65, 15 + extra, 39, 5)) },
+    stabilizer: {
+      headers: [(cells.get(`G${18 + extra}`) ?? '').trim() || 'STABILIZER', '', ''],
+      rows: panelRows(readRange(cells, 70, 19 + extra, 10, 3)),
+    },
+    relief: {
+      headers: [(cells.get(`G${29 + extra}`) ?? '').trim() || 'RELIEF', ''],
+      rows: panelRows(readRange(cells, 71, 30 + extra, 6, 2)),
+    },
+    teletype: {
+      headers: [(cells.get(`G${37 + extra}`) ?? '').trim() || 'TELETYPE', ''],
+      rows: panelRows(readRange(cells, 71, 38 + extra, 3, 2)),
+    },
+  }
+}
+
+// The reverse of fillWorkbookTemplate: reads the week view and detail sheets of a filled workbook
+export function readWorkbookWeek(workbookBytes: Uint8Array): ImportedWorkbook {
+  const workbook = unzipSync(workbookBytes)
+  const masterSheetPath = 'xl/worksheets/sheet1.xml'
+  const masterSheet = workbook[masterSheetPath]
+  if (!masterSheet) {
+    throw new Error(`The workbook has no week view sheet (${masterSheetPath})`)
+  }
+
+  const sharedStrings = readSharedStrings(workbook)
+  const cells = readSheetCells(strFromU8(masterSheet), sharedStrings)
+  const warnings: string[] = []
+  const columns: Column[] = []
+  const timeSlots: TimeSlot[] = []
+  const schedule = {} as Schedule
+  // Longer grids than the template's are written with the later day blocks pushed down
+  const rowsPerDay = Math.max(workbookTemplateTimeSlots, countSlotLabels(cells, dayStartRows.Monday))
+  const startRows = weekViewStartRows(rowsPerDay)
+
+  exportDays.forEach((day) => {
+    const startRow = startRows[day]
+    const [header] = readRange(cells, workbookFirstColumnCode, startRow - 1, 1, workbookMaxChannels)
+    const dayColumns = header.filter(Boolean)
+    dayColumns.forEach((column) => {
+      if (!columns.includes(column)) columns.push(column)
+    })
+
+    const dayRows: Schedule[Day] = {}
+    readRange(cells, 65, startRow, rowsPerDay, workbookMaxChannels + 1).forEach((row, slotIndex) => {
+      const [label, ...values] = row
+      if (!label && !values.some(Boolean)) return
+      let slot = label
+      if (!slotLabelPattern.test(slot)) {
+        slot = exportTimeSlots[slotIndex]
+        if (!slot) {
+          warnings.push(`${day} row ${startRow + slotIndex} has no slot label and was skipped.`)
+          return
+        }
+        warnings.push(`${day} row ${startRow + slotIndex} has no slot label; read as ${slot}.`)
+      }
+      if (!timeSlots.includes(slot)) timeSlots.push(slot)
+      dayRows[slot] = Object.fromEntries(
+        header.map((column, columnIndex) => [column, values[columnIndex] ?? '']).filter(([column]) => column)
+      )
+    })
+    schedule[day] = dayRows
+  })
+
+  const dailyDetails: Partial<Record<Day, DailyDetailDoc>> = {}
+  exportDays.forEach((day) => {
+    const detailSheet = workbook[detailSheetPaths[day]]
+    if (!detailSheet) {
+      warnings.push(`The workbook has no ${day} detail sheet.`)
+      return
+    }
+    dailyDetails[day] = readDetailSheet(readSheetCells(strFromU8(detailSheet), sharedStrings), day)
+  })
+
+  const title = (cells.get('D4') ?? '').trim()
+  return { title, schedule, columns, timeSlots, dailyDetails, warnings }
+}
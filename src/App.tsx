@@ -1,30 +1,76 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import './styles/App.css';
 import './styles/layout.css';
 import './styles/manage-dispatchers.css';
-import { days, Day, Schedule, TimeSlot, Column } from './constants';
+import {
+  days,
+  Day,
+  Schedule,
+  ScheduleLocks,
+  ScheduleScope,
+  TimeSlot,
+  Column,
+  getColumns,
+  getTimeSlots,
+  getChannelDefinitions,
+  applyChannelDefinitions,
+  applyTimeSlotGrid,
+  remapTimeSlotSet,
+} from './constants';
 
-import { ExtendedDispatcher } from './appTypes';
+import { ChannelDefinition, ExtendedDispatcher, FairnessLedger, FairnessSettings, RadioRestRules, ShiftDefinition, TimeSlotGrid } from './appTypes';
 import ManageDispatchers from './components/ManageDispatchers';
+import ManageSettings from './components/ManageSettings';
 import ScheduleTable from './components/ScheduleTable';
+import WeekPicker from './components/WeekPicker';
+import WorkbookImportDialog from './components/WorkbookImportDialog';
+import ScheduleReportDialog from './components/ScheduleReportDialog';
+import CallOffDialog from './components/CallOffDialog';
+import CompareDialog from './components/CompareDialog';
+import ComparePanel from './components/ComparePanel';
+import HistoryPanel from './components/HistoryPanel';
+import ScorecardPanel from './components/ScorecardPanel';
+import CandidatesDialog from './components/CandidatesDialog';
 import DailyDetailSheet from './components/DailyDetailSheet';
-import { loadSchedule, saveSchedule, loadDispatchers, saveDispatchers, createEmptySchedule, loadDailyDetail, type DailyDetailDoc } from './appStorage';
+import { buildScheduleProject, parseScheduleProject } from './projectFile';
+import { loadSchedule, saveSchedule, saveDailyDetail, listScheduleWeeks, migrateSchedules, loadDispatchers, saveDispatchers, createEmptySchedule, loadDailyDetail, loadShiftDefinitions, saveShiftDefinitions, loadChannelDefinitions, saveChannelDefinitions, loadTimeSlotGrid, saveTimeSlotGrid, loadFairnessLedger, saveFairnessLedger, loadFairnessSettings, saveFairnessSettings, loadRestRules, saveRestRules, loadScheduleLocks, saveScheduleLocks, loadScheduleCheckpoints, saveScheduleCheckpoints, normalizeSchedule, normalizeScheduleLocks, type DailyDetailDoc, type ScheduleCheckpoint } from './appStorage';
+import { applyShiftDefinitions, getShiftDefinitions, remapShiftDefinitions } from './solver/utils/shiftUtils';
+import { applyRestRules } from './solver/utils/restRuleUtils';
+import { resolveWeekAvailability } from './solver/utils/availabilityUtils';
+import { recordWeek, tallyWeek } from './solver/utils/fairnessUtils';
 import { buildDailyDetailDoc } from './utils/dailyDetail';
-import { generateWeeklySchedule } from './solver/weekScheduler';
-import { countSlotsPerDispatcher } from './solver/utils/scheduleOps';
+import { buildImportedWeek, type WorkbookImportReport } from './utils/workbookImport';
+import { addWeeks, formatDayDate, formatWeekLabel, getWeekStart, parseWeekStart, type WeekStart } from './utils/weekDates';
+import { startSolveJob, type SolveJob } from './solver/solverClient';
+import type { SolveRun } from './solver/workerProtocol';
+import type { AssignmentTraceLog, ScheduleReport, SolveProgress, SolverEngine } from './solver/solverTypes';
+import { countSlotsPerDispatcher, diffSchedules } from './solver/utils/scheduleOps';
+import { countLockedCells, toggleCellLock } from './utils/scheduleLocks';
+import { computeSeniority, normalizeDispatcher } from './utils/dispatcherRecords';
+import { EMPTY_HISTORY, describeCellEdit, describeScope, pushHistory, travelHistory, type ScheduleHistory } from './utils/scheduleHistory';
 
-const MAX_HISTORY = 50;
-type AppView = 'scheduler' | 'detail' | 'dispatchers';
+type AppView = 'scheduler' | 'detail' | 'dispatchers' | 'settings';
 
 // =============================
 // Utilities
 // =============================
-const defaultWorkbookTitle = () => {
-  const now = new Date();
-  const month = now.toLocaleString('en-US', { month: 'long' }).toUpperCase();
-  return `RADIO SCHEDULE ${month} ${now.getFullYear()}`;
+const defaultWorkbookTitle = (weekStart: WeekStart) => {
+  const date = parseWeekStart(weekStart) ?? new Date();
+  const month = date.toLocaleString('en-US', { month: 'long' }).toUpperCase();
+  return `RADIO SCHEDULE ${month} ${date.getFullYear()}`;
 };
 
+// Auto Schedule time budgets offered, in seconds
+const SOLVE_TIME_BUDGETS = [30, 60, 120, 300];
+
+// Alternative weeks one Auto Schedule run can produce
+const CANDIDATE_COUNTS = [1, 3, 5];
+
+const formatTimeBudget = (seconds: number) => (seconds < 60 ? `${seconds} s` : `${seconds / 60} min`);
+
+const describeSolveProgress = (progress: SolveProgress | null) =>
+  progress ? `Solving ${progress.step}... (${progress.completed}/${progress.total})` : 'Starting...';
+
 const isDailyDetailDoc = (value: unknown): value is DailyDetailDoc => {
   if (!value || typeof value !== 'object') return false;
   const candidate = value as Partial<DailyDetailDoc>;
@@ -67,42 +113,176 @@ function App() {
   // =============================
   // State
   // =============================
-  const [schedule, setSchedule] = useState<Schedule>(() => loadSchedule());
+  // The slot grid and channel rules must be active before slot-keyed settings and the
+  // saved schedule are loaded and normalized
+  const [timeSlotGrid, setTimeSlotGrid] = useState<TimeSlotGrid>(() => {
+    const loaded = loadTimeSlotGrid();
+    applyTimeSlotGrid(loaded);
+    return loaded;
+  });
+  const [channelDefinitions, setChannelDefinitions] = useState<ChannelDefinition[]>(() => {
+    const loaded = loadChannelDefinitions();
+    applyChannelDefinitions(loaded);
+    return loaded;
+  });
+  const [shiftDefinitions, setShiftDefinitions] = useState<ShiftDefinition[]>(() => {
+    const loaded = loadShiftDefinitions();
+    applyShiftDefinitions(loaded);
+    return loaded;
+  });
+  const [restRules, setRestRules] = useState<RadioRestRules>(() => {
+    const loaded = loadRestRules();
+    applyRestRules(loaded);
+    return loaded;
+  });
+  const [weekStart, setWeekStart] = useState<WeekStart>(() => getWeekStart());
+  const [savedWeeks, setSavedWeeks] = useState<WeekStart[]>([]);
+  const [schedule, setSchedule] = useState<Schedule>(() => createEmptySchedule());
+  const [locks, setLocks] = useState<ScheduleLocks>({});
+  const [scheduleLoaded, setScheduleLoaded] = useState(false);
   const [selectedDay, setSelectedDay] = useState<Day>('Monday');
   const [dispatchers, setDispatchers] = useState<ExtendedDispatcher[]>([]);
   const [appView, setAppView] = useState<AppView>('scheduler');
   const [solving, setSolving] = useState(false);
+  const [solveScope, setSolveScope] = useState<'week' | 'day'>('week');
+  const [solverEngine, setSolverEngine] = useState<SolverEngine>('greedy');
+  // Seconds an Auto Schedule run may take before it is stopped
+  const [solveTimeBudget, setSolveTimeBudget] = useState(120);
+  const [solveProgress, setSolveProgress] = useState<SolveProgress | null>(null);
+  const solveJobRef = useRef<SolveJob | null>(null);
+  // Alternative weeks Auto Schedule produces per run (1 applies the result directly)
+  const [candidateCount, setCandidateCount] = useState(1);
+  // Candidates waiting to be adopted, with the schedule and scope of the run that made them
+  const [candidates, setCandidates] = useState<{ start: Schedule; scope?: ScheduleScope; runs: SolveRun[] } | null>(null);
+  const [candidatesOpen, setCandidatesOpen] = useState(false);
+  // Explanations for the cells filled by the last Auto Schedule run of this week
+  const [traces, setTraces] = useState<AssignmentTraceLog>(() => new Map());
+  const [fairnessSettings, setFairnessSettings] = useState<FairnessSettings>(() => loadFairnessSettings());
+  const [fairnessLedger, setFairnessLedger] = useState<FairnessLedger>(() => loadFairnessLedger());
   const [workbookPromptOpen, setWorkbookPromptOpen] = useState(false);
-  const [workbookTitle, setWorkbookTitle] = useState(() => defaultWorkbookTitle());
+  const [workbookTitle, setWorkbookTitle] = useState(() => defaultWorkbookTitle(weekStart));
   const [workbookExporting, setWorkbookExporting] = useState(false);
   const [workbookExportError, setWorkbookExportError] = useState<string | null>(null);
+  const [workbookImport, setWorkbookImport] = useState<{ fileName: string; report: WorkbookImportReport } | null>(null);
+  const [scheduleReport, setScheduleReport] = useState<ScheduleReport | null>(null);
+  const [callOffOpen, setCallOffOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  // Schedule the current one is compared against, with a label for where it came from
+  const [comparison, setComparison] = useState<{ label: string; schedule: Schedule } | null>(null);
   const [dispatchersLoaded, setDispatchersLoaded] = useState(false);
+  // Project file the current week was opened from or last saved to
+  const [projectFile, setProjectFile] = useState<{ filePath: string; title: string } | null>(null);
   const [slotCounts, setSlotCounts] = useState<Record<Day, Record<string, number>>>(
     () => Object.fromEntries(days.map((d) => [d, {}])) as Record<Day, Record<string, number>>
   );
-  const [history, setHistory] = useState<Schedule[]>([]);
+  const [history, setHistory] = useState<ScheduleHistory>(EMPTY_HISTORY);
+  const [checkpoints, setCheckpoints] = useState<ScheduleCheckpoint[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [scorecardOpen, setScorecardOpen] = useState(false);
   const scheduleRef = useRef(schedule);
 
+  // Dispatchers with their leave, partial-day and overtime exceptions applied to the shown week
+  const weekDispatchers = useMemo(() => resolveWeekAvailability(dispatchers, weekStart), [dispatchers, weekStart]);
+
   // =============================
   // Schedule state helpers
   // =============================
-  const applyScheduleUpdate = (producer: (prev: Schedule) => Schedule) => {
+  // Every edit goes through here so it can be undone under its label
+  const applyScheduleUpdate = (producer: (prev: Schedule) => Schedule, label: string) => {
     setSchedule((prev) => {
-      setHistory((h) => [prev, ...h].slice(0, MAX_HISTORY));
+      setHistory((h) => pushHistory(h, prev, label));
       return producer(prev);
     });
   };
 
+  const handleShiftDefinitionsChange = useCallback((definitions: ShiftDefinition[]) => {
+    applyShiftDefinitions(definitions);
+    saveShiftDefinitions(definitions);
+    setShiftDefinitions(definitions);
+  }, []);
+
+  const handleChannelDefinitionsChange = useCallback((definitions: ChannelDefinition[]) => {
+    applyChannelDefinitions(definitions);
+    saveChannelDefinitions(definitions);
+    setChannelDefinitions(definitions);
+    setSchedule((prev) => normalizeSchedule(prev));
+  }, []);
+
+  const handleRestRulesChange = useCallback((rules: RadioRestRules) => {
+    applyRestRules(rules);
+    saveRestRules(rules);
+    setRestRules(rules);
+  }, []);
+
+  const handleFairnessSettingsChange = useCallback((settings: FairnessSettings) => {
+    saveFairnessSettings(settings);
+    setFairnessSettings(settings);
+  }, []);
+
+  const updateFairnessLedger = useCallback((ledger: FairnessLedger) => {
+    saveFairnessLedger(ledger);
+    setFairnessLedger(ledger);
+  }, []);
+
+  const handleTimeSlotGridChange = useCallback((grid: TimeSlotGrid) => {
+    applyTimeSlotGrid(grid);
+    saveTimeSlotGrid(grid);
+    setTimeSlotGrid(grid);
+
+    // Move everything keyed by slot labels onto the new rows
+    handleShiftDefinitionsChange(remapShiftDefinitions(getShiftDefinitions()));
+    handleChannelDefinitionsChange(getChannelDefinitions().map((channel) => ({
+      ...channel,
+      closures: channel.closures.map((closure) => ({ ...closure, slots: remapTimeSlotSet(closure.slots) })),
+    })));
+    setDispatchers((prev) => prev.map((d) => {
+      if (!d.preferredTimeBlocks?.length) return d;
+      const remapped = d.preferredTimeBlocks.flatMap((block) => remapTimeSlotSet([block]));
+      return { ...d, preferredTimeBlocks: [...new Set(remapped)] };
+    }));
+    // Locks move with their rows so pinned cells stay pinned
+    setLocks((prev) => normalizeScheduleLocks(prev));
+    // Undo entries are keyed by the old rows
+    setHistory(EMPTY_HISTORY);
+  }, [handleShiftDefinitionsChange, handleChannelDefinitionsChange]);
+
+  const handleWeekChange = useCallback(async (next: WeekStart) => {
+    if (next === weekStart) return;
+    const [loaded, loadedLocks, loadedCheckpoints] = await Promise.all([
+      loadSchedule(next),
+      loadScheduleLocks(next),
+      loadScheduleCheckpoints(next),
+    ]);
+    // Switch week and schedule together so the save effect never pairs them up wrongly
+    setWeekStart(next);
+    setSchedule(loaded);
+    setLocks(loadedLocks);
+    setCheckpoints(loadedCheckpoints);
+    // Undo entries belong to the week they were made in
+    setHistory(EMPTY_HISTORY);
+    setTraces(new Map());
+    setComparison(null);
+    setProjectFile(null);
+  }, [weekStart]);
+
+  const handleCopyForward = useCallback(async () => {
+    const previous = await loadSchedule(addWeeks(weekStart, -1));
+    const hasAssignments = days.some((d) => Object.values(scheduleRef.current[d]).some((row) => Object.values(row).some(Boolean)));
+    if (hasAssignments && !window.confirm('Replace this week\'s assignments with last week\'s schedule?')) return;
+    applyScheduleUpdate(() => previous, 'Copy Last Week');
+  }, [weekStart]);
+
   const handleExportWeekWorkbook = useCallback(() => {
-    setWorkbookTitle(defaultWorkbookTitle());
+    setWorkbookTitle(projectFile?.title || defaultWorkbookTitle(weekStart));
     setWorkbookExportError(null);
     setWorkbookPromptOpen(true);
-  }, []);
+  }, [weekStart, projectFile]);
 
-  const buildWorkbookDetailPayload = useCallback(() => {
-    return days.reduce((details, day) => {
+  const buildWorkbookDetailPayload = useCallback(async () => {
+    const savedDetails = await Promise.all(days.map((day) => loadDailyDetail(weekStart, day)));
+    return days.reduce((details, day, index) => {
       const freshFromSchedule = buildDailyDetailDoc(day, scheduleRef.current, dispatchers);
-      const saved = loadDailyDetail(day);
+      const saved = savedDetails[index];
 
       if (isDailyDetailDoc(saved)) {
         details[day] = normalizeDailyDetailDoc({
@@ -118,10 +298,10 @@ function App() {
       details[day] = freshFromSchedule;
       return details;
     }, {} as Partial<Record<Day, DailyDetailDoc>>);
-  }, [dispatchers]);
+  }, [dispatchers, weekStart]);
 
   const confirmExportWeekWorkbook = useCallback(async () => {
-    const trimmedTitle = workbookTitle.trim() || defaultWorkbookTitle();
+    const trimmedTitle = workbookTitle.trim() || defaultWorkbookTitle(weekStart);
     if (!window.scheduleExportAPI?.exportWeekWorkbook) {
       setWorkbookExportError('Excel export is not available in this build.');
       return;
@@ -133,7 +313,9 @@ function App() {
       const result = await window.scheduleExportAPI.exportWeekWorkbook({
         title: trimmedTitle,
         schedule: scheduleRef.current,
-        dailyDetails: buildWorkbookDetailPayload(),
+        columns: getColumns(),
+        timeSlots: getTimeSlots(),
+        dailyDetails: await buildWorkbookDetailPayload(),
       });
 
       if (result.canceled) return;
@@ -148,124 +330,260 @@ function App() {
     } finally {
       setWorkbookExporting(false);
     }
-  }, [buildWorkbookDetailPayload, workbookTitle]);
+  }, [buildWorkbookDetailPayload, workbookTitle, weekStart]);
 
-  // =============================
-  // Undo
-  // =============================
-  const undoLast = useCallback(() => {
-    setHistory((h) => {
-      if (h.length === 0) return h;
-      const [prev, ...rest] = h;
-      setSchedule(prev);
-      return rest;
-    });
+  // Finalizing (again) replaces the week's entry, so the ledger always reflects the last finalized version
+  const handleFinalizeWeek = useCallback(() => {
+    const label = formatWeekLabel(weekStart);
+    if (fairnessLedger.weeks[weekStart] && !window.confirm(`The week of ${label} is already finalized. Replace its ledger entry?`)) {
+      return;
+    }
+    updateFairnessLedger(recordWeek(fairnessLedger, weekStart, tallyWeek(scheduleRef.current, weekDispatchers)));
+  }, [fairnessLedger, weekStart, weekDispatchers, updateFairnessLedger]);
+
+  // Applies one run of Auto Schedule as a single undoable step
+  const applySolveRun = useCallback((start: Schedule, run: SolveRun, label: string, scope?: ScheduleScope) => {
+    // The grid stays editable while the solver runs
+    if (scheduleRef.current !== start && !window.confirm('The schedule was edited while Auto Schedule ran. Replace it with the result?')) {
+      return false;
+    }
+    applyScheduleUpdate(() => run.result.schedule, label);
+    setTraces((prev) => (scope ? new Map([...prev, ...run.trace]) : run.trace));
+    setScheduleReport(run.result.report);
+    return true;
   }, []);
 
-  // =============================
-  // Dispatchers: normalization and seniority
-  // =============================
-  // Normalize loaded dispatchers (badge string -> number, wantsExtraRadio -> minimumRadioOnly, defaults)
-  type LegacyDispatcher = Omit<ExtendedDispatcher, 'badgeNumber' | 'minimumRadioOnly'> & {
-    badgeNumber?: number | string;
-    wantsExtraRadio?: boolean;
-    minimumRadioOnly?: boolean;
-  };
+  // Without a scope the whole week is solved; a scoped run keeps every trace outside the scope.
+  // The run happens in a worker; canceling or running out of time leaves the schedule as it is.
+  // With several candidates the runs differ in tie-breaking and wait in the chooser.
+  const handleAutoSchedule = useCallback(async (scope?: ScheduleScope) => {
+    const start = scheduleRef.current;
+    setSolving(true);
+    setSolveProgress(null);
+    setCandidates(null);
+    const job = startSolveJob(
+      start,
+      weekDispatchers,
+      {
+        engine: solverEngine,
+        fairness: { ledger: fairnessLedger, weekStart, ...fairnessSettings },
+        locks,
+        scope,
+      },
+      {
+        timeBudgetMs: solveTimeBudget * 1000,
+        seeds: Array.from({ length: candidateCount }, (_, i) => i),
+        onProgress: setSolveProgress,
+      }
+    );
+    solveJobRef.current = job;
+    const outcome = await job.outcome;
+    solveJobRef.current = null;
+    setSolving(false);
+    setSolveProgress(null);
 
-  const normalizeDispatcher = useCallback((d: LegacyDispatcher): ExtendedDispatcher => {
-    const copy: LegacyDispatcher = { ...d };
-    // Normalize badgeNumber from strings like "D3045" or numeric strings
-    if (typeof copy.badgeNumber === 'string') {
-      const m = copy.badgeNumber.match(/\d+/);
-      copy.badgeNumber = m ? parseInt(m[0], 10) : undefined;
+    if (!outcome.success) {
+      if (outcome.timedOut) {
+        window.alert(`Auto Schedule stopped after ${formatTimeBudget(solveTimeBudget)} without a result. The schedule was not changed.`);
+      } else if (outcome.error) {
+        window.alert(`Auto Schedule failed: ${outcome.error}`);
+      }
+      return;
+    }
+    if (outcome.runs.length > 1) {
+      setCandidates({ start, scope, runs: outcome.runs });
+      setCandidatesOpen(true);
+      return;
     }
-    // Map legacy wantsExtraRadio to minimumRadioOnly (default extra radio)
-    if (typeof copy.wantsExtraRadio === 'boolean') {
-      if (copy.wantsExtraRadio === false) copy.minimumRadioOnly = true;
-      if (copy.wantsExtraRadio === true && typeof copy.minimumRadioOnly !== 'boolean') copy.minimumRadioOnly = false;
-      delete copy.wantsExtraRadio;
+    applySolveRun(start, outcome.runs[0], scope ? describeScope(scope) : 'Auto Schedule', scope);
+  }, [weekDispatchers, solverEngine, fairnessLedger, weekStart, fairnessSettings, locks, solveTimeBudget, candidateCount, applySolveRun]);
+
+  const handleAdoptCandidate = (index: number) => {
+    if (!candidates) return;
+    const { start, scope, runs } = candidates;
+    const label = `${scope ? describeScope(scope) : 'Auto Schedule'} (candidate ${index + 1})`;
+    if (!applySolveRun(start, runs[index], label, scope)) return;
+    setCandidates(null);
+    setCandidatesOpen(false);
+  };
+
+  const handleCompareCandidate = (index: number) => {
+    if (!candidates) return;
+    setComparison({ label: `candidate ${index + 1}`, schedule: candidates.runs[index].result.schedule });
+    setCandidatesOpen(false);
+  };
+
+  // A run and its candidates belong to the week they started in
+  useEffect(() => () => {
+    solveJobRef.current?.cancel();
+    setCandidates(null);
+  }, [weekStart]);
+
+  const handleImportWeekWorkbook = useCallback(async () => {
+    if (!window.scheduleExportAPI?.importWeekWorkbook) return;
+    const result = await window.scheduleExportAPI.importWeekWorkbook();
+    if (result.canceled) return;
+    if (!result.success || !result.workbook || !result.filePath) {
+      window.alert(`Excel import failed: ${result.error || 'Unknown error'}`);
+      return;
     }
-    if (typeof copy.minimumRadioOnly !== 'boolean') copy.minimumRadioOnly = false;
-    // Defensive: if not a trainee, ensure trainee linkage fields are cleared
-    if (copy.isTrainee !== true) {
-      copy.traineeOf = undefined;
-      copy.followTrainerSchedule = false;
+
+    const hasAssignments = days.some((d) => Object.values(scheduleRef.current[d]).some((row) => Object.values(row).some(Boolean)));
+    if (
+      hasAssignments &&
+      !window.confirm(`Replace the schedule for the week of ${formatWeekLabel(weekStart)} with the imported workbook?`)
+    ) {
+      return;
     }
-    return copy as ExtendedDispatcher;
+
+    const { schedule: imported, dailyDetails, report } = buildImportedWeek(result.workbook, dispatchers);
+    await Promise.all(
+      days.map((day) => {
+        const detail = dailyDetails[day];
+        return detail ? saveDailyDetail(weekStart, day, normalizeDailyDetailDoc(detail)) : undefined;
+      })
+    );
+    const fileName = result.filePath.split(/[\\/]/).pop() || result.filePath;
+    applyScheduleUpdate(() => imported, `Import ${fileName}`);
+    setWorkbookImport({ fileName, report });
+  }, [weekStart, dispatchers]);
+
+  // =============================
+  // Compare
+  // =============================
+  const handleCompareHistory = useCallback((stepsBack: number) => {
+    const earlier = history.past[stepsBack - 1];
+    if (!earlier) return;
+    setComparison({ label: `before "${earlier.label}"`, schedule: earlier.schedule });
+    setCompareOpen(false);
+  }, [history]);
+
+  const handleCompareWeek = useCallback(async (week: WeekStart) => {
+    setComparison({ label: `week of ${formatWeekLabel(week)}`, schedule: await loadSchedule(week) });
+    setCompareOpen(false);
   }, []);
 
-  // Compute and normalize seniority ranks (1 = most senior).
-  // - Preserves CSV/manual seniority values when unique
-  // - Resolves duplicates deterministically by bumping to next available number
-  // - Assigns missing seniority sequentially after the max used value
-  // Does not reorder the returned list; only updates the `seniority` field where needed.
-  const computeSeniority = useCallback((list: ExtendedDispatcher[]): ExtendedDispatcher[] => {
-    if (!Array.isArray(list) || list.length === 0) return list;
-
-    const numBadge = (d: ExtendedDispatcher): number => {
-      const raw = d.badgeNumber;
-      if (typeof raw === 'number' && !Number.isNaN(raw)) return raw;
-      // Fallback: extract digits from ID if present
-      const idm = String(d.id || '').match(/\d+/);
-      return idm ? parseInt(idm[0], 10) : Number.POSITIVE_INFINITY;
-    };
+  const handleCompareWorkbook = useCallback(async () => {
+    if (!window.scheduleExportAPI?.importWeekWorkbook) return;
+    const result = await window.scheduleExportAPI.importWeekWorkbook();
+    if (result.canceled) return;
+    if (!result.success || !result.workbook || !result.filePath) {
+      window.alert(`Excel import failed: ${result.error || 'Unknown error'}`);
+      return;
+    }
+    const { schedule: imported } = buildImportedWeek(result.workbook, dispatchers);
+    setComparison({ label: result.filePath.split(/[\\/]/).pop() || result.filePath, schedule: imported });
+    setCompareOpen(false);
+  }, [dispatchers]);
 
-    const senVal = (d: ExtendedDispatcher): number => {
-      const s = d.seniority;
-      return typeof s === 'number' && !Number.isNaN(s) ? s : Number.POSITIVE_INFINITY;
-    };
+  const comparisonChanges = useMemo(
+    () => (comparison ? diffSchedules(comparison.schedule, schedule) : []),
+    [comparison, schedule]
+  );
 
-    // Stable order for dedupe: by existing seniority asc, then badge asc, then id
-    const ordered = [...list].sort((a, b) => {
-      const sa = senVal(a), sb = senVal(b);
-      if (sa !== sb) return sa - sb;
-      const ba = numBadge(a), bb = numBadge(b);
-      if (ba !== bb) return ba - bb;
-      return String(a.id || '').localeCompare(String(b.id || ''));
+  // =============================
+  // Undo, redo and checkpoints
+  // =============================
+  // Positive steps undo, negative steps redo
+  const travel = useCallback((steps: number) => {
+    setHistory((h) => {
+      const result = travelHistory(h, scheduleRef.current, steps);
+      setSchedule(result.schedule);
+      return result.history;
     });
+  }, []);
+
+  // Text fields keep their own undo; everything else undoes schedule edits
+  const undoOrRedo = useCallback((steps: number) => {
+    const el = document.activeElement;
+    const editingText =
+      el instanceof HTMLTextAreaElement ||
+      (el instanceof HTMLInputElement && ['text', 'search', 'number', ''].includes(el.type)) ||
+      (el instanceof HTMLElement && el.isContentEditable);
+    if (editingText) document.execCommand(steps > 0 ? 'undo' : 'redo');
+    else travel(steps);
+  }, [travel]);
+
+  const handleSaveCheckpoint = useCallback((name: string) => {
+    setCheckpoints((prev) => [...prev, { name, savedAt: new Date().toISOString(), schedule: scheduleRef.current }]);
+  }, []);
 
-    // Determine starting point for filling in new numbers
-    let maxSeen = 0;
-    for (const d of ordered) {
-      const s = d.seniority;
-      if (typeof s === 'number' && !Number.isNaN(s) && s > maxSeen) maxSeen = s;
+  const handleRestoreCheckpoint = useCallback((checkpoint: ScheduleCheckpoint) => {
+    applyScheduleUpdate(() => normalizeSchedule(checkpoint.schedule), `Restore "${checkpoint.name}"`);
+  }, []);
+
+  const handleDeleteCheckpoint = useCallback((checkpoint: ScheduleCheckpoint) => {
+    if (!window.confirm(`Delete the checkpoint "${checkpoint.name}"?`)) return;
+    setCheckpoints((prev) => prev.filter((c) => c !== checkpoint));
+  }, []);
+
+  // =============================
+  // Project files (.rsched)
+  // =============================
+  const handleSaveProject = useCallback(async (saveAs: boolean) => {
+    if (!window.projectAPI?.saveProject) return;
+    const title = projectFile?.title || defaultWorkbookTitle(weekStart);
+    const project = buildScheduleProject(
+      { title, weekStart },
+      scheduleRef.current,
+      locks,
+      await buildWorkbookDetailPayload(),
+      dispatchers
+    );
+    const result = await window.projectAPI.saveProject(project, saveAs ? undefined : projectFile?.filePath);
+    if (result.canceled) return;
+    if (!result.success || !result.filePath) {
+      window.alert(`Saving the project failed: ${result.error || 'Unknown error'}`);
+      return;
     }
-    const used = new Set<number>();
-    let next = maxSeen + 1;
-
-    // Compute new seniority assignments without mutating original list
-    const newSenById = new Map<string, number>();
-    for (const d of ordered) {
-      const s = d.seniority;
-      if (typeof s === 'number' && !Number.isNaN(s)) {
-        // Keep if unique; otherwise bump to next available
-        let target = s;
-        while (used.has(target)) target++;
-        used.add(target);
-        if (target !== s) newSenById.set(d.id, target);
-      } else {
-        // Missing seniority: assign sequentially after max
-        while (used.has(next)) next++;
-        newSenById.set(d.id, next);
-        used.add(next);
-        next++;
-      }
+    setProjectFile({ filePath: result.filePath, title });
+  }, [projectFile, weekStart, locks, buildWorkbookDetailPayload, dispatchers]);
+
+  const handleOpenProject = useCallback(async () => {
+    if (!window.projectAPI?.openProject) return;
+    const result = await window.projectAPI.openProject();
+    if (result.canceled) return;
+
+    let project;
+    try {
+      if (!result.success || !result.filePath) throw new Error(result.error || 'Unknown error');
+      project = parseScheduleProject(result.project);
+    } catch (error) {
+      window.alert(`Opening the project failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
     }
 
-    // Apply changes in original order only where needed
-    let changed = false;
-    const result = list.map((d) => {
-      const assigned = newSenById.get(d.id);
-      if (assigned == null) return d;
-      const current = d.seniority;
-      if (current !== assigned) {
-        changed = true;
-        return { ...d, seniority: assigned } as ExtendedDispatcher;
-      }
-      return d;
-    });
-    return changed ? result : list;
-  }, []);
+    const { metadata } = project;
+    if (
+      savedWeeks.includes(metadata.weekStart) &&
+      !window.confirm(`Opening this project replaces the saved schedule for the week of ${formatWeekLabel(metadata.weekStart)}. Continue?`)
+    ) {
+      return;
+    }
+    if (
+      project.dispatchers.length > 0 &&
+      window.confirm(`Also replace the dispatcher list with the ${project.dispatchers.length} dispatchers saved in the project?`)
+    ) {
+      setDispatchers(computeSeniority(project.dispatchers.map(normalizeDispatcher)));
+    }
+
+    const [loadedCheckpoints] = await Promise.all([
+      loadScheduleCheckpoints(metadata.weekStart),
+      ...days.map((day) => {
+        const detail = project.dailyDetails[day];
+        return detail ? saveDailyDetail(metadata.weekStart, day, normalizeDailyDetailDoc(detail)) : undefined;
+      }),
+    ]);
+    // Switch week, schedule, locks and checkpoints together so no save effect pairs them up wrongly
+    setWeekStart(metadata.weekStart);
+    setSchedule(normalizeSchedule(project.schedule));
+    setLocks(normalizeScheduleLocks(project.locks));
+    setCheckpoints(loadedCheckpoints);
+    setHistory(EMPTY_HISTORY);
+    setTraces(new Map());
+    setComparison(null);
+    setProjectFile({ filePath: result.filePath, title: metadata.title || defaultWorkbookTitle(metadata.weekStart) });
+  }, [savedWeeks]);
 
   // =============================
   // Effects: load/save, refs, derived counts
@@ -280,12 +598,50 @@ function App() {
       setDispatchersLoaded(true);
     };
     loadDispatchersAsync();
-  }, [normalizeDispatcher, computeSeniority]);
+  }, []);
 
-  // Save schedule 
+  // Load the current week on mount, after moving schedules saved by earlier versions
   useEffect(() => {
-    saveSchedule(schedule);
-  }, [schedule]);
+    if (scheduleLoaded) return;
+    const loadScheduleAsync = async () => {
+      await migrateSchedules();
+      const [loaded, loadedLocks, loadedCheckpoints, weeks] = await Promise.all([
+        loadSchedule(weekStart),
+        loadScheduleLocks(weekStart),
+        loadScheduleCheckpoints(weekStart),
+        listScheduleWeeks(),
+      ]);
+      setSchedule(loaded);
+      setLocks(loadedLocks);
+      setCheckpoints(loadedCheckpoints);
+      setSavedWeeks(weeks);
+      setScheduleLoaded(true);
+    };
+    loadScheduleAsync();
+  }, [weekStart, scheduleLoaded]);
+
+  // Save schedule under its week (only after initial load) and keep the week list in step
+  useEffect(() => {
+    if (!scheduleLoaded) return;
+    const saveScheduleAsync = async () => {
+      await saveSchedule(weekStart, schedule);
+      const weeks = await listScheduleWeeks();
+      setSavedWeeks((prev) => (prev.join() === weeks.join() ? prev : weeks));
+    };
+    saveScheduleAsync();
+  }, [weekStart, schedule, scheduleLoaded]);
+
+  // Locks are saved the same way, next to the schedule
+  useEffect(() => {
+    if (!scheduleLoaded) return;
+    saveScheduleLocks(weekStart, locks);
+  }, [weekStart, locks, scheduleLoaded]);
+
+  // And checkpoints
+  useEffect(() => {
+    if (!scheduleLoaded) return;
+    saveScheduleCheckpoints(weekStart, checkpoints);
+  }, [weekStart, checkpoints, scheduleLoaded]);
 
   // Keep a ref of the latest schedule for stable export callbacks
   useEffect(() => {
@@ -307,7 +663,7 @@ function App() {
     if (ranked !== dispatchers) {
       setDispatchers(ranked);
     }
-  }, [dispatchers, dispatchersLoaded, computeSeniority]);
+  }, [dispatchers, dispatchersLoaded]);
 
   // Calculate slot counts when schedule or dispatchers change
   useEffect(() => {
@@ -337,13 +693,39 @@ function App() {
     const onExportWorkbook = () => {
       void handleExportWeekWorkbook();
     };
+    const onImportWorkbook = () => {
+      void handleImportWeekWorkbook();
+    };
+    const onOpenProject = () => {
+      void handleOpenProject();
+    };
+    const onSaveProject = () => {
+      void handleSaveProject(false);
+    };
+    const onSaveProjectAs = () => {
+      void handleSaveProject(true);
+    };
+    const onUndo = () => undoOrRedo(1);
+    const onRedo = () => undoOrRedo(-1);
     
     window.ipcRenderer?.on('menu:export-workbook', onExportWorkbook);
+    window.ipcRenderer?.on('menu:import-workbook', onImportWorkbook);
+    window.ipcRenderer?.on('menu:open-project', onOpenProject);
+    window.ipcRenderer?.on('menu:save-project', onSaveProject);
+    window.ipcRenderer?.on('menu:save-project-as', onSaveProjectAs);
+    window.ipcRenderer?.on('menu:undo', onUndo);
+    window.ipcRenderer?.on('menu:redo', onRedo);
     
     return () => {
       window.ipcRenderer?.off('menu:export-workbook', onExportWorkbook);
+      window.ipcRenderer?.off('menu:import-workbook', onImportWorkbook);
+      window.ipcRenderer?.off('menu:open-project', onOpenProject);
+      window.ipcRenderer?.off('menu:save-project', onSaveProject);
+      window.ipcRenderer?.off('menu:save-project-as', onSaveProjectAs);
+      window.ipcRenderer?.off('menu:undo', onUndo);
+      window.ipcRenderer?.off('menu:redo', onRedo);
     };
-  }, [handleExportWeekWorkbook]);
+  }, [handleExportWeekWorkbook, handleImportWeekWorkbook, handleOpenProject, handleSaveProject, undoOrRedo]);
 
   // =============================
   // Handlers
@@ -355,6 +737,7 @@ function App() {
     value: string,
   ) => {
     // Always apply the change. Validation is visual (red/yellow) in ScheduleTable.getCellStatus().
+    const before = scheduleRef.current[day]?.[time]?.[column] ?? '';
     applyScheduleUpdate((prev) => ({
       ...prev,
       [day]: {
@@ -364,7 +747,11 @@ function App() {
           [column]: value,
         },
       },
-    }));
+    }), describeCellEdit(day, time, column, before, value));
+  }, []);
+
+  const handleToggleLock = useCallback((day: Day, time: TimeSlot, column: Column) => {
+    setLocks((prev) => toggleCellLock(prev, day, time, column));
   }, []);
 
   return (
@@ -392,11 +779,27 @@ function App() {
           >
             Dispatchers
           </button>
+          <button
+            type="button"
+            className={appView === 'settings' ? 'active' : ''}
+            onClick={() => setAppView('settings')}
+          >
+            Settings
+          </button>
         </nav>
 
         <div className="header-spacer" />
 
         <div className="header-toolbar">
+          {(appView === 'scheduler' || appView === 'detail') && (
+            <WeekPicker
+              weekStart={weekStart}
+              savedWeeks={savedWeeks}
+              disabled={solving || !scheduleLoaded}
+              onChange={(next) => void handleWeekChange(next)}
+              onCopyForward={() => void handleCopyForward()}
+            />
+          )}
           {appView === 'scheduler' && (
             <>
               <div className="toolbar-group" aria-label="Editing actions">
@@ -405,36 +808,150 @@ function App() {
                   <button
                     className="btn-ghost"
                     type="button"
-                    disabled={history.length === 0}
-                    onClick={undoLast}
+                    title={history.past[0] ? `Undo ${history.past[0].label}` : undefined}
+                    disabled={history.past.length === 0}
+                    onClick={() => travel(1)}
                   >
                     Undo
                   </button>
                   <button
                     className="btn-ghost"
                     type="button"
-                    onClick={() => applyScheduleUpdate(() => createEmptySchedule())}
+                    title={history.future[0] ? `Redo ${history.future[0].label}` : undefined}
+                    disabled={history.future.length === 0}
+                    onClick={() => travel(-1)}
+                  >
+                    Redo
+                  </button>
+                  <button
+                    className="btn-ghost"
+                    type="button"
+                    aria-pressed={historyOpen}
+                    onClick={() => setHistoryOpen((open) => !open)}
+                  >
+                    History{checkpoints.length > 0 ? ` (${checkpoints.length})` : ''}
+                  </button>
+                  <button
+                    className="btn-ghost"
+                    type="button"
+                    aria-pressed={scorecardOpen}
+                    onClick={() => setScorecardOpen((open) => !open)}
+                  >
+                    Scorecard
+                  </button>
+                  <button
+                    className="btn-ghost"
+                    type="button"
+                    onClick={() => applyScheduleUpdate(() => createEmptySchedule(), 'Reset')}
                   >
                     Reset
                   </button>
+                  <button
+                    className="btn-ghost"
+                    type="button"
+                    title={`Take a dispatcher off ${selectedDay} (or part of it) and propose replacements`}
+                    disabled={solving}
+                    onClick={() => setCallOffOpen(true)}
+                  >
+                    Mark Unavailable
+                  </button>
                 </div>
               </div>
 
               <div className="toolbar-group" aria-label="Automation actions">
                 <span className="toolbar-group-label">Automation</span>
                 <div className="toolbar-buttons">
+                  <select
+                    className="toolbar-select"
+                    aria-label="Solver engine"
+                    disabled={solving}
+                    value={solverEngine}
+                    onChange={(event) => setSolverEngine(event.target.value as SolverEngine)}
+                  >
+                    <option value="greedy">Greedy</option>
+                    <option value="glpk">GLPK (ILP)</option>
+                    <option value="glpk-week">GLPK (whole week)</option>
+                  </select>
+                  <select
+                    className="toolbar-select"
+                    aria-label="Candidate weeks"
+                    title="Produce several alternative weeks and pick one"
+                    disabled={solving}
+                    value={candidateCount}
+                    onChange={(event) => setCandidateCount(Number(event.target.value))}
+                  >
+                    {CANDIDATE_COUNTS.map((count) => (
+                      <option key={count} value={count}>
+                        {count === 1 ? '1 week' : `${count} candidates`}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="toolbar-select"
+                    aria-label="Auto Schedule time budget"
+                    title="Stop Auto Schedule if it runs longer than this"
+                    disabled={solving}
+                    value={solveTimeBudget}
+                    onChange={(event) => setSolveTimeBudget(Number(event.target.value))}
+                  >
+                    {SOLVE_TIME_BUDGETS.map((seconds) => (
+                      <option key={seconds} value={seconds}>
+                        {formatTimeBudget(seconds)}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="toolbar-select"
+                    aria-label="Auto Schedule scope"
+                    disabled={solving}
+                    value={solveScope}
+                    onChange={(event) => setSolveScope(event.target.value as 'week' | 'day')}
+                  >
+                    <option value="week">Whole week</option>
+                    <option value="day">{selectedDay} only</option>
+                  </select>
                   <button
                     className="btn-primary"
                     type="button"
                     disabled={solving}
-                    onClick={async () => {
-                      setSolving(true);
-                      const newSched = await generateWeeklySchedule(schedule, dispatchers);
-                      applyScheduleUpdate(() => newSched);
-                      setSolving(false);
-                    }}
+                    onClick={() => void handleAutoSchedule(solveScope === 'day' ? { days: [selectedDay] } : undefined)}
+                  >
+                    {solving ? describeSolveProgress(solveProgress) : 'Auto Schedule'}
+                  </button>
+                  {solving && (
+                    <button
+                      className="btn-ghost"
+                      type="button"
+                      title="Stop the run and keep the schedule as it is"
+                      onClick={() => solveJobRef.current?.cancel()}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  {candidates && !solving && (
+                    <button className="btn-ghost" type="button" onClick={() => setCandidatesOpen(true)}>
+                      Candidates ({candidates.runs.length})
+                    </button>
+                  )}
+                  {countLockedCells(locks) > 0 && (
+                    <button
+                      className="btn-ghost"
+                      type="button"
+                      title="Let Auto Schedule re-solve every cell of this week"
+                      disabled={solving}
+                      onClick={() => setLocks({})}
+                    >
+                      Unlock All ({countLockedCells(locks)})
+                    </button>
+                  )}
+                  <button
+                    className="btn-ghost"
+                    type="button"
+                    title="Record this week's assignments in the fairness ledger"
+                    disabled={solving || !scheduleLoaded}
+                    onClick={handleFinalizeWeek}
                   >
-                    {solving ? 'Generating...' : 'Auto Schedule'}
+                    {fairnessLedger.weeks[weekStart] ? 'Finalize Again' : 'Finalize Week'}
                   </button>
                 </div>
               </div>
@@ -442,6 +959,12 @@ function App() {
               <div className="toolbar-group" aria-label="Output actions">
                 <span className="toolbar-group-label">Output</span>
                 <div className="toolbar-buttons">
+                  <button className="btn-ghost" type="button" onClick={() => void handleImportWeekWorkbook()}>
+                    Import
+                  </button>
+                  <button className="btn-ghost" type="button" onClick={() => setCompareOpen(true)}>
+                    Compare
+                  </button>
                   <button className="btn-primary" type="button" onClick={() => void handleExportWeekWorkbook()}>
                     Export
                   </button>
@@ -516,6 +1039,52 @@ function App() {
         </div>
       )}
 
+      {workbookImport && (
+        <WorkbookImportDialog
+          fileName={workbookImport.fileName}
+          report={workbookImport.report}
+          onClose={() => setWorkbookImport(null)}
+        />
+      )}
+
+      {candidates && candidatesOpen && (
+        <CandidatesDialog
+          runs={candidates.runs}
+          dispatchers={weekDispatchers}
+          onAdopt={handleAdoptCandidate}
+          onCompare={handleCompareCandidate}
+          onClose={() => setCandidatesOpen(false)}
+        />
+      )}
+
+      {scheduleReport && <ScheduleReportDialog report={scheduleReport} onClose={() => setScheduleReport(null)} />}
+
+      {compareOpen && (
+        <CompareDialog
+          historyLabels={history.past.map((entry) => entry.label)}
+          weeks={savedWeeks.filter((w) => w !== weekStart)}
+          onCompareHistory={handleCompareHistory}
+          onCompareWeek={(week) => void handleCompareWeek(week)}
+          onCompareWorkbook={window.scheduleExportAPI?.importWeekWorkbook ? () => void handleCompareWorkbook() : undefined}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
+
+      {callOffOpen && (
+        <CallOffDialog
+          day={selectedDay}
+          weekStart={weekStart}
+          schedule={schedule}
+          dispatchers={weekDispatchers}
+          onAccept={(repaired, label, dispatcherId, exceptions) => {
+            applyScheduleUpdate(() => repaired, label);
+            setDispatchers((prev) => prev.map((d) => (d.id === dispatcherId ? { ...d, availabilityExceptions: exceptions } : d)));
+            setCallOffOpen(false);
+          }}
+          onClose={() => setCallOffOpen(false)}
+        />
+      )}
+
       {appView === 'scheduler' || appView === 'detail' ? (
         <div className="day-tabs">
           {days.map((d) => (
@@ -525,23 +1094,63 @@ function App() {
               onClick={() => setSelectedDay(d)}
             >
               {d}
+              <span className="day-tab-date">{formatDayDate(weekStart, d)}</span>
             </button>
           ))}
         </div>
       ) : null}
 
+      {appView === 'scheduler' && historyOpen && (
+        <HistoryPanel
+          history={history}
+          checkpoints={checkpoints}
+          onTravel={travel}
+          onSaveCheckpoint={handleSaveCheckpoint}
+          onRestoreCheckpoint={handleRestoreCheckpoint}
+          onDeleteCheckpoint={handleDeleteCheckpoint}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {appView === 'scheduler' && scorecardOpen && (
+        <ScorecardPanel
+          schedule={schedule}
+          dispatchers={weekDispatchers}
+          onSelectDay={setSelectedDay}
+          onClose={() => setScorecardOpen(false)}
+        />
+      )}
+
+      {appView === 'scheduler' && comparison && (
+        <ComparePanel
+          label={comparison.label}
+          changes={comparisonChanges}
+          dispatchers={weekDispatchers}
+          selectedDay={selectedDay}
+          onSelectDay={setSelectedDay}
+          onEnd={() => setComparison(null)}
+        />
+      )}
+
       {appView === 'scheduler' && (
         <ScheduleTable
           day={selectedDay}
           schedule={schedule}
-          dispatchers={dispatchers}
+          dispatchers={weekDispatchers}
           onChange={handleChange}
           slotCounts={slotCounts[selectedDay] || {}}
+          traces={traces}
+          locks={locks}
+          onToggleLock={handleToggleLock}
+          onResolveScope={(scope) => void handleAutoSchedule(scope)}
+          resolving={solving}
+          changes={comparison ? comparisonChanges : undefined}
         />
       )}
 
       {appView === 'detail' && (
         <DailyDetailSheet
+          weekStart={weekStart}
           day={selectedDay}
           schedule={schedule}
           dispatchers={dispatchers}
@@ -554,6 +1163,25 @@ function App() {
           onChange={setDispatchers}
         />
       )}
+
+      {appView === 'settings' && (
+        <ManageSettings
+          dispatchers={dispatchers}
+          timeSlotGrid={timeSlotGrid}
+          onTimeSlotGridChange={handleTimeSlotGridChange}
+          shiftDefinitions={shiftDefinitions}
+          onShiftDefinitionsChange={handleShiftDefinitionsChange}
+          channelDefinitions={channelDefinitions}
+          onChannelDefinitionsChange={handleChannelDefinitionsChange}
+          fairnessSettings={fairnessSettings}
+          onFairnessSettingsChange={handleFairnessSettingsChange}
+          restRules={restRules}
+          onRestRulesChange={handleRestRulesChange}
+          fairnessLedger={fairnessLedger}
+          onClearFairnessLedger={() => updateFairnessLedger({ weeks: {} })}
+          weekStart={weekStart}
+        />
+      )}
     </div>
   );
 }
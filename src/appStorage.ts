@@ -1,13 +1,32 @@
-import { days, timeSlots, columns, Schedule, TimeSlot, Column, Day } from './constants';
-import { Dispatcher } from './appTypes';
+import {
+  days,
+  getTimeSlots,
+  getColumns,
+  Schedule,
+  ScheduleLocks,
+  TimeSlot,
+  Column,
+  Day,
+  createDefaultChannelDefinitions,
+  DEFAULT_TIME_SLOT_GRID,
+  isValidTimeSlotGrid,
+  remapTimeSlotSet,
+  slotContainsMinute,
+  slotStartMinutes,
+} from './constants';
+import { ChannelDefinition, Dispatcher, FairnessLedger, FairnessSettings, FairnessTally, RadioRestRules, ShiftDefinition, TimeSlotGrid } from './appTypes';
+import { DEFAULT_SHIFT_DEFINITIONS, remapShiftDefinitions } from './solver/utils/shiftUtils';
+import { DEFAULT_FAIRNESS_SETTINGS } from './solver/utils/fairnessUtils';
+import { DEFAULT_REST_RULES } from './solver/utils/restRuleUtils';
+import { getWeekStart, isWeekStart, type WeekStart } from './utils/weekDates';
 
 export const createEmptySchedule = (): Schedule => {
   const schedule = {} as Schedule;
   days.forEach((d) => {
     const dayObj = {} as { [T in TimeSlot]: { [C in Column]: string } };
-    timeSlots.forEach((t) => {
+    getTimeSlots().forEach((t) => {
       const slotObj = {} as { [C in Column]: string };
-      columns.forEach((c) => {
+      getColumns().forEach((c) => {
         slotObj[c] = '';
       });
       dayObj[t] = slotObj;
@@ -17,19 +36,238 @@ export const createEmptySchedule = (): Schedule => {
   return schedule;
 };
 
+const SLOT_LABEL = /^\d{4}-\d{4}$/;
+
+/**
+ * Brings a saved schedule onto the active slot grid and channel set.
+ * - Rows saved under another grid are carried into every new row whose start time they cover.
+ * - Every configured channel gets a cell; cells of channels that are no longer configured are
+ *   kept so that restoring the channel restores its assignments.
+ */
+export const normalizeSchedule = (schedule: Schedule): Schedule => {
+  const normalized = {} as Schedule;
+  days.forEach((d) => {
+    const savedDay = schedule[d] ?? {};
+    const savedSlots = Object.keys(savedDay).filter((t) => SLOT_LABEL.test(t));
+    const dayObj = {} as { [T in TimeSlot]: { [C in Column]: string } };
+    getTimeSlots().forEach((t) => {
+      const covering = savedSlots.find((old) => slotContainsMinute(old, slotStartMinutes(t)));
+      const source = savedDay[t] ?? (covering ? savedDay[covering] : undefined);
+      const slotObj: { [C in Column]: string } = { ...source };
+      getColumns().forEach((c) => {
+        slotObj[c] = slotObj[c] ?? '';
+      });
+      dayObj[t] = slotObj;
+    });
+    normalized[d] = dayObj;
+  });
+  return normalized;
+};
+
 // SCHEDULE --------------------------------------------------
-export const loadSchedule = (): Schedule => {
+// One schedule per week, keyed by week start. The desktop app keeps them as files through
+// `scheduleAPI`; the web version uses `schedule:<week start>` keys in localStorage.
+// Weeks without any assignment are not stored.
+const LEGACY_SCHEDULE_KEY = 'schedule';
+const SCHEDULE_KEY_PREFIX = 'schedule:';
+const scheduleKey = (weekStart: WeekStart) => `${SCHEDULE_KEY_PREFIX}${weekStart}`;
+
+const isScheduleEmpty = (schedule: Schedule): boolean =>
+  days.every((d) => Object.values(schedule[d] ?? {}).every((row) => Object.values(row).every((v) => !v)));
+
+export const loadSchedule = async (weekStart: WeekStart): Promise<Schedule> => {
   try {
-    const str = localStorage.getItem('schedule');
-    if (str) return JSON.parse(str);
-  } catch {
-    // ignore
+    if (window.scheduleAPI?.getSchedule) {
+      const saved = await window.scheduleAPI.getSchedule(weekStart);
+      return saved ? normalizeSchedule(saved) : createEmptySchedule();
+    }
+    // Fallback to localStorage for web version
+    const str = localStorage.getItem(scheduleKey(weekStart));
+    if (str) return normalizeSchedule(JSON.parse(str));
+  } catch (error) {
+    console.error('Error loading schedule:', error);
   }
   return createEmptySchedule();
 };
 
-export const saveSchedule = (schedule: Schedule) => {
-  localStorage.setItem('schedule', JSON.stringify(schedule));
+export const saveSchedule = async (weekStart: WeekStart, schedule: Schedule) => {
+  const empty = isScheduleEmpty(schedule);
+  try {
+    if (window.scheduleAPI?.saveSchedule) {
+      await window.scheduleAPI.saveSchedule(weekStart, empty ? null : schedule);
+      return;
+    }
+    // Fallback to localStorage for web version
+    if (empty) localStorage.removeItem(scheduleKey(weekStart));
+    else localStorage.setItem(scheduleKey(weekStart), JSON.stringify(schedule));
+  } catch (error) {
+    console.error('Error saving schedule:', error);
+  }
+};
+
+// Locked cells live next to the week's schedule: `schedule-locks/<week start>.json` on the
+// desktop, `scheduleLocks:<week start>` in localStorage. Weeks without locks are not stored.
+const locksKey = (weekStart: WeekStart) => `scheduleLocks:${weekStart}`;
+
+/**
+ * Brings saved locks onto the active slot grid and channel set: a lock on a row of another grid
+ * moves to every new row whose start time it covers, and locks on channels that are no longer
+ * configured are dropped.
+ */
+export const normalizeScheduleLocks = (locks: ScheduleLocks): ScheduleLocks => {
+  const columns = getColumns();
+  const normalized: ScheduleLocks = {};
+  days.forEach((d) => {
+    const dayLocks: { [T in TimeSlot]?: Column[] } = {};
+    Object.entries(locks[d] ?? {}).forEach(([slot, cols]) => {
+      if (!SLOT_LABEL.test(slot)) return;
+      const kept = (cols ?? []).filter((c) => columns.includes(c));
+      if (kept.length === 0) return;
+      remapTimeSlotSet([slot]).forEach((t) => {
+        dayLocks[t] = [...new Set([...(dayLocks[t] ?? []), ...kept])];
+      });
+    });
+    if (Object.keys(dayLocks).length > 0) normalized[d] = dayLocks;
+  });
+  return normalized;
+};
+
+export const loadScheduleLocks = async (weekStart: WeekStart): Promise<ScheduleLocks> => {
+  try {
+    if (window.scheduleAPI?.getScheduleLocks) {
+      return normalizeScheduleLocks((await window.scheduleAPI.getScheduleLocks(weekStart)) ?? {});
+    }
+    const str = localStorage.getItem(locksKey(weekStart));
+    if (str) return normalizeScheduleLocks(JSON.parse(str) as ScheduleLocks);
+  } catch (error) {
+    console.error('Error loading schedule locks:', error);
+  }
+  return {};
+};
+
+export const saveScheduleLocks = async (weekStart: WeekStart, locks: ScheduleLocks) => {
+  const empty = Object.keys(locks).length === 0;
+  try {
+    if (window.scheduleAPI?.saveScheduleLocks) {
+      await window.scheduleAPI.saveScheduleLocks(weekStart, empty ? null : locks);
+      return;
+    }
+    if (empty) localStorage.removeItem(locksKey(weekStart));
+    else localStorage.setItem(locksKey(weekStart), JSON.stringify(locks));
+  } catch (error) {
+    console.error('Error saving schedule locks:', error);
+  }
+};
+
+// Named checkpoints a user saved for the week, oldest first: `schedule-checkpoints/<week start>.json`
+// on the desktop, `scheduleCheckpoints:<week start>` in localStorage
+export type ScheduleCheckpoint = {
+  name: string;
+  savedAt: string; // ISO timestamp
+  schedule: Schedule;
+};
+
+const checkpointsKey = (weekStart: WeekStart) => `scheduleCheckpoints:${weekStart}`;
+
+export const loadScheduleCheckpoints = async (weekStart: WeekStart): Promise<ScheduleCheckpoint[]> => {
+  try {
+    if (window.scheduleAPI?.getScheduleCheckpoints) {
+      return (await window.scheduleAPI.getScheduleCheckpoints(weekStart)) ?? [];
+    }
+    const str = localStorage.getItem(checkpointsKey(weekStart));
+    if (str) return JSON.parse(str) as ScheduleCheckpoint[];
+  } catch (error) {
+    console.error('Error loading schedule checkpoints:', error);
+  }
+  return [];
+};
+
+export const saveScheduleCheckpoints = async (weekStart: WeekStart, checkpoints: ScheduleCheckpoint[]) => {
+  const empty = checkpoints.length === 0;
+  try {
+    if (window.scheduleAPI?.saveScheduleCheckpoints) {
+      await window.scheduleAPI.saveScheduleCheckpoints(weekStart, empty ? null : checkpoints);
+      return;
+    }
+    if (empty) localStorage.removeItem(checkpointsKey(weekStart));
+    else localStorage.setItem(checkpointsKey(weekStart), JSON.stringify(checkpoints));
+  } catch (error) {
+    console.error('Error saving schedule checkpoints:', error);
+  }
+};
+
+const localScheduleWeeks = (): WeekStart[] => {
+  const weeks: WeekStart[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const weekStart = key?.startsWith(SCHEDULE_KEY_PREFIX) ? key.slice(SCHEDULE_KEY_PREFIX.length) : '';
+    if (isWeekStart(weekStart)) weeks.push(weekStart);
+  }
+  return weeks.sort();
+};
+
+// Week starts that have a saved schedule, oldest first
+export const listScheduleWeeks = async (): Promise<WeekStart[]> => {
+  try {
+    if (window.scheduleAPI?.listScheduleWeeks) {
+      return (await window.scheduleAPI.listScheduleWeeks()).filter(isWeekStart);
+    }
+    return localScheduleWeeks();
+  } catch (error) {
+    console.error('Error listing schedule weeks:', error);
+    return [];
+  }
+};
+
+/**
+ * One-time moves of schedules saved by earlier versions:
+ * - the undated `schedule` and `dailyDetail:<day>` keys become the current week;
+ * - in the desktop app, weeks kept in localStorage are written to files. A week that
+ *   already has a file keeps it. Keys are removed only once their file is written.
+ */
+export const migrateSchedules = async () => {
+  try {
+    const legacy = localStorage.getItem(LEGACY_SCHEDULE_KEY);
+    if (legacy !== null) {
+      const weekStart = getWeekStart();
+      if (localStorage.getItem(scheduleKey(weekStart)) === null) {
+        localStorage.setItem(scheduleKey(weekStart), legacy);
+      }
+      localStorage.removeItem(LEGACY_SCHEDULE_KEY);
+      days.forEach((d) => {
+        const detail = localStorage.getItem(`dailyDetail:${d}`);
+        if (detail === null) return;
+        if (localStorage.getItem(detailKey(weekStart, d)) === null) {
+          localStorage.setItem(detailKey(weekStart, d), detail);
+        }
+        localStorage.removeItem(`dailyDetail:${d}`);
+      });
+    }
+
+    const api = window.scheduleAPI;
+    if (!api) return;
+    for (const weekStart of localScheduleWeeks()) {
+      const str = localStorage.getItem(scheduleKey(weekStart));
+      if (!str) continue;
+      const existing = await api.getSchedule(weekStart);
+      if (existing || (await api.saveSchedule(weekStart, JSON.parse(str)))) {
+        localStorage.removeItem(scheduleKey(weekStart));
+      }
+    }
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i) ?? '';
+      const [prefix, weekStart, day] = key.split(':');
+      if (prefix !== 'dailyDetail' || !isWeekStart(weekStart) || !days.includes(day as Day)) continue;
+      const str = localStorage.getItem(key);
+      if (!str) continue;
+      const existing = await api.getDailyDetail(weekStart, day as Day);
+      if (existing || (await api.saveDailyDetail(weekStart, day as Day, JSON.parse(str)))) {
+        localStorage.removeItem(key);
+      }
+    }
+  } catch (error) {
+    console.error('Error migrating saved schedules:', error);
+  }
 };
 
 // DISPATCHERS --------------------------------------------------
@@ -73,6 +311,177 @@ export const saveDispatchers = async (dispatchers: Dispatcher[]) => {
   }
 };
 
+// TIME SLOT GRID --------------------------------------------------
+// The parse* helpers below take a saved setting as parsed from JSON and return it cleaned up,
+// or null when it is not usable; the command-line tool reads its --config file with them too.
+export const parseTimeSlotGrid = (value: unknown): TimeSlotGrid | null =>
+  value && typeof value === 'object' && isValidTimeSlotGrid(value as TimeSlotGrid) ? (value as TimeSlotGrid) : null;
+
+export const loadTimeSlotGrid = (): TimeSlotGrid => {
+  try {
+    const str = localStorage.getItem('timeSlotGrid');
+    const parsed = str ? parseTimeSlotGrid(JSON.parse(str)) : null;
+    if (parsed) return parsed;
+  } catch {
+    // ignore
+  }
+  return { ...DEFAULT_TIME_SLOT_GRID };
+};
+
+export const saveTimeSlotGrid = (grid: TimeSlotGrid) => {
+  localStorage.setItem('timeSlotGrid', JSON.stringify(grid));
+};
+
+// SHIFT DEFINITIONS --------------------------------------------------
+const isShiftDefinition = (value: unknown): value is ShiftDefinition => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<ShiftDefinition>;
+  return (
+    typeof candidate.letter === 'string' &&
+    candidate.letter.trim().length > 0 &&
+    SLOT_LABEL.test(candidate.startSlot ?? '') &&
+    SLOT_LABEL.test(candidate.endSlot ?? '')
+  );
+};
+
+// Slot labels are remapped onto the active grid, so apply the grid first
+export const parseShiftDefinitions = (value: unknown): ShiftDefinition[] | null =>
+  Array.isArray(value) && value.length > 0 && value.every(isShiftDefinition)
+    ? remapShiftDefinitions(value.map((d) => ({ ...d, spillover: !!d.spillover, showInRoster: !!d.showInRoster })))
+    : null;
+
+export const loadShiftDefinitions = (): ShiftDefinition[] => {
+  try {
+    const str = localStorage.getItem('shiftDefinitions');
+    const parsed = str ? parseShiftDefinitions(JSON.parse(str)) : null;
+    if (parsed) return parsed;
+  } catch {
+    // ignore
+  }
+  return remapShiftDefinitions([...DEFAULT_SHIFT_DEFINITIONS]);
+};
+
+export const saveShiftDefinitions = (definitions: ShiftDefinition[]) => {
+  localStorage.setItem('shiftDefinitions', JSON.stringify(definitions));
+};
+
+// CHANNEL DEFINITIONS --------------------------------------------------
+const isChannelDefinition = (value: unknown): value is ChannelDefinition => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<ChannelDefinition>;
+  return (
+    typeof candidate.name === 'string' &&
+    candidate.name.trim().length > 0 &&
+    (candidate.kind === 'radio' || candidate.kind === 'utility' || candidate.kind === 'relief')
+  );
+};
+
+// Closure slots are remapped onto the active grid, so apply the grid first
+export const parseChannelDefinitions = (value: unknown): ChannelDefinition[] | null =>
+  Array.isArray(value) && value.length > 0 && value.every(isChannelDefinition)
+    ? value.map((c) => ({
+        ...c,
+        assignable: !!c.assignable,
+        closures: Array.isArray(c.closures)
+          ? c.closures.map((closure) => ({
+              days: (closure.days || []).filter((d) => days.includes(d)),
+              slots: remapTimeSlotSet((closure.slots || []).filter((t) => SLOT_LABEL.test(t))),
+            }))
+          : [],
+      }))
+    : null;
+
+export const loadChannelDefinitions = (): ChannelDefinition[] => {
+  try {
+    const str = localStorage.getItem('channelDefinitions');
+    const parsed = str ? parseChannelDefinitions(JSON.parse(str)) : null;
+    if (parsed) return parsed;
+  } catch {
+    // ignore
+  }
+  return createDefaultChannelDefinitions();
+};
+
+export const saveChannelDefinitions = (definitions: ChannelDefinition[]) => {
+  localStorage.setItem('channelDefinitions', JSON.stringify(definitions));
+};
+
+// FAIRNESS --------------------------------------------------
+const isFairnessTally = (value: unknown): value is FairnessTally => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<FairnessTally>;
+  return (['radio', 'utility', 'preferenceHits', 'undesirable'] as const).every(
+    (field) => typeof candidate[field] === 'number'
+  );
+};
+
+export const loadFairnessLedger = (): FairnessLedger => {
+  const ledger: FairnessLedger = { weeks: {} };
+  try {
+    const str = localStorage.getItem('fairnessLedger');
+    const parsed = str ? (JSON.parse(str) as Partial<FairnessLedger>) : null;
+    Object.entries(parsed?.weeks ?? {}).forEach(([week, tallies]) => {
+      if (!isWeekStart(week) || !tallies || typeof tallies !== 'object') return;
+      ledger.weeks[week] = Object.fromEntries(Object.entries(tallies).filter(([, t]) => isFairnessTally(t)));
+    });
+  } catch {
+    // ignore
+  }
+  return ledger;
+};
+
+export const saveFairnessLedger = (ledger: FairnessLedger) => {
+  localStorage.setItem('fairnessLedger', JSON.stringify(ledger));
+};
+
+export const loadFairnessSettings = (): FairnessSettings => {
+  try {
+    const str = localStorage.getItem('fairnessSettings');
+    if (str) {
+      const parsed = JSON.parse(str) as Partial<FairnessSettings>;
+      if (typeof parsed.weight === 'number' && typeof parsed.windowWeeks === 'number') {
+        return {
+          weight: Math.min(1, Math.max(0, parsed.weight)),
+          windowWeeks: Math.max(1, Math.round(parsed.windowWeeks)),
+        };
+      }
+    }
+  } catch {
+    // ignore
+  }
+  return { ...DEFAULT_FAIRNESS_SETTINGS };
+};
+
+export const saveFairnessSettings = (settings: FairnessSettings) => {
+  localStorage.setItem('fairnessSettings', JSON.stringify(settings));
+};
+
+// REST RULES --------------------------------------------------
+export const parseRestRules = (value: unknown): RadioRestRules | null => {
+  const candidate = (value && typeof value === 'object' ? value : {}) as Partial<RadioRestRules>;
+  if (typeof candidate.maxConsecutive !== 'number' || typeof candidate.minGap !== 'number') return null;
+  return {
+    maxConsecutive: Math.max(0, Math.round(candidate.maxConsecutive)),
+    minGap: Math.max(0, Math.round(candidate.minGap)),
+    avoidShiftEdges: !!candidate.avoidShiftEdges,
+  };
+};
+
+export const loadRestRules = (): RadioRestRules => {
+  try {
+    const str = localStorage.getItem('restRules');
+    const parsed = str ? parseRestRules(JSON.parse(str)) : null;
+    if (parsed) return parsed;
+  } catch {
+    // ignore
+  }
+  return { ...DEFAULT_REST_RULES };
+};
+
+export const saveRestRules = (rules: RadioRestRules) => {
+  localStorage.setItem('restRules', JSON.stringify(rules));
+};
+
 // DAILY DETAIL --------------------------------------------------
 export type DailyDetailGrid = {
   headers: string[];
@@ -92,18 +501,31 @@ export type DailyDetailDoc = {
   teletype: { headers: [string, string]; rows: string[][] };           // [time, name]
 };
 
-const detailKey = (day: Day) => `dailyDetail:${day}`;
+const detailKey = (weekStart: WeekStart, day: Day) => `dailyDetail:${weekStart}:${day}`;
 
-export const loadDailyDetail = (day: Day): DailyDetailDoc | DailyDetailGrid | null => {
+export const loadDailyDetail = async (weekStart: WeekStart, day: Day): Promise<DailyDetailDoc | DailyDetailGrid | null> => {
   try {
-    const str = localStorage.getItem(detailKey(day));
+    if (window.scheduleAPI?.getDailyDetail) {
+      return await window.scheduleAPI.getDailyDetail(weekStart, day);
+    }
+    // Fallback to localStorage for web version
+    const str = localStorage.getItem(detailKey(weekStart, day));
     if (str) return JSON.parse(str) as DailyDetailDoc;
-  } catch {
-    // ignore
+  } catch (error) {
+    console.error('Error loading daily detail:', error);
   }
   return null;
 };
 
-export const saveDailyDetail = (day: Day, doc: DailyDetailDoc) => {
-  localStorage.setItem(detailKey(day), JSON.stringify(doc));
+export const saveDailyDetail = async (weekStart: WeekStart, day: Day, doc: DailyDetailDoc) => {
+  try {
+    if (window.scheduleAPI?.saveDailyDetail) {
+      await window.scheduleAPI.saveDailyDetail(weekStart, day, doc);
+      return;
+    }
+    // Fallback to localStorage for web version
+    localStorage.setItem(detailKey(weekStart, day), JSON.stringify(doc));
+  } catch (error) {
+    console.error('Error saving daily detail:', error);
+  }
 };
@@ -34,6 +34,17 @@ export interface ExtendedDispatcher extends Dispatcher {
    */
   minimumRadioOnly?: boolean;
 
+  /**
+   * Radio caps (see radioCapUtils). Unset means no cap of that kind; without a daily cap
+   * the auto scheduler still stops at two radio slots a day (one with minimumRadioOnly).
+   */
+  /** Most radio slots in one day */
+  maxRadioPerDay?: number;
+  /** Most radio slots in the week */
+  maxRadioPerWeek?: number;
+  /** Most radio slots in back-to-back timeslots */
+  maxConsecutiveRadio?: number;
+
   /**
    * If true, dispatcher is eligible for additional Utility (UT) slots after all
    * dispatchers have received their required single UT for the week.
@@ -45,6 +56,136 @@ export interface ExtendedDispatcher extends Dispatcher {
    * (no radio or UT slots will be assigned automatically).
    */
   excludeFromAutoSchedule?: boolean;
+
+  /** Dated exceptions to the weekly pattern: leave, partial days and overtime */
+  availabilityExceptions?: AvailabilityException[];
+
+  /**
+   * Exceptions resolved onto the days of the week being scheduled (see
+   * resolveWeekAvailability). Derived, never persisted.
+   */
+  weekAvailability?: Partial<Record<import('./constants').Day, DayAvailability>>;
+
+  /**
+   * Scheduling order blended from seniority and the fairness ledger (see applyFairness);
+   * lower goes first. Derived, never persisted.
+   */
+  fairnessPriority?: number;
+}
+
+/**
+ * - leave: not available at all on the date
+ * - partial: on a work day, available only inside the window
+ * - overtime: available on the date even if it is not a work day; the window (or the
+ *   whole shift when no window is given) limits the slots
+ */
+export type AvailabilityExceptionKind = 'leave' | 'partial' | 'overtime';
+
+export interface AvailabilityException {
+  /** Calendar date, YYYY-MM-DD */
+  date: string;
+  kind: AvailabilityExceptionKind;
+  /** Available window as HHMM; used by partial and overtime exceptions */
+  from?: string;
+  to?: string;
+  note?: string;
+}
+
+/** What a dispatcher's exceptions mean for one day of a scheduled week */
+export interface DayAvailability {
+  /** Full-day leave */
+  off: boolean;
+  /** Works the day even if it is not one of their work days */
+  extraDay: boolean;
+  /** When set, only these slots of the day are available */
+  slots?: import('./constants').TimeSlot[];
+}
+
+/**
+ * What one dispatcher received in a finalized week:
+ * - preferenceHits: radio slots in a preferred time block or on a preferred channel
+ * - undesirable: radio slots in a time block no dispatcher prefers
+ */
+export interface FairnessTally {
+  radio: number;
+  utility: number;
+  preferenceHits: number;
+  undesirable: number;
+}
+
+/** Finalized weeks keyed by week start date, each with a tally per dispatcher id */
+export interface FairnessLedger {
+  weeks: Record<string, Record<string, FairnessTally>>;
+}
+
+export interface FairnessSettings {
+  /** 0 schedules by seniority only, 1 by the ledger only */
+  weight: number;
+  /** Finalized weeks before the scheduled week that count toward the balance */
+  windowWeeks: number;
+}
+
+/**
+ * A configurable shift: the letter dispatchers are assigned to and the contiguous
+ * range of day-grid time slots it covers (wrapping past the last row when needed).
+ */
+export interface ShiftDefinition {
+  letter: string;
+  /** First time slot of the shift */
+  startSlot: import('./constants').TimeSlot;
+  /** Last time slot of the shift (inclusive) */
+  endSlot: import('./constants').TimeSlot;
+  /** Display hours, e.g. "0300-1330" */
+  hours?: string;
+  /** If true, working the previous day allows the post-midnight slots of this shift */
+  spillover: boolean;
+  /** If true, the shift gets a roster column on the daily detail sheet */
+  showInRoster: boolean;
+}
+
+/**
+ * The rows of the day grid: `slotCount` rotations of `slotMinutes` starting at `dayStart` (HHMM).
+ */
+export interface TimeSlotGrid {
+  dayStart: string;
+  slotMinutes: number;
+  slotCount: number;
+}
+
+/** How a channel is filled: radio passes, weekly utility passes, or by hand (relief) */
+export type ChannelKind = 'radio' | 'utility' | 'relief';
+
+/**
+ * A window in which a channel is closed. Empty lists mean every day / every slot.
+ */
+export interface ChannelClosure {
+  days: import('./constants').Day[];
+  slots: import('./constants').TimeSlot[];
+}
+
+/**
+ * A configurable schedule column (console/channel) and its rules.
+ */
+export interface ChannelDefinition {
+  /** Column header, also the key used in saved schedules */
+  name: string;
+  kind: ChannelKind;
+  /** If false, the auto-scheduler leaves the channel to manual assignment */
+  assignable: boolean;
+  closures: ChannelClosure[];
+}
+
+/**
+ * Spacing rules between a dispatcher's radio slots, counted in rows of the slot grid. Rows
+ * run on from one day into the next, so overnight shifts are covered across midnight.
+ */
+export interface RadioRestRules {
+  /** Most radio slots in a row (0 = no limit) */
+  maxConsecutive: number;
+  /** Fewest free rows between two runs of radio slots (0 = none required) */
+  minGap: number;
+  /** Keep radio out of the first and last row of each shift */
+  avoidShiftEdges: boolean;
 }
 
 // Electron API types
@@ -62,10 +203,48 @@ declare global {
       getDispatchers: () => Promise<Dispatcher[]>;
       saveDispatchers: (data: Dispatcher[]) => Promise<boolean>;
     };
+    scheduleAPI?: {
+      listScheduleWeeks: () => Promise<string[]>;
+      getSchedule: (weekStart: string) => Promise<import('./constants').Schedule | null>;
+      saveSchedule: (weekStart: string, schedule: import('./constants').Schedule | null) => Promise<boolean>;
+      getDailyDetail: (weekStart: string, day: import('./constants').Day) => Promise<import('./appStorage').DailyDetailDoc | null>;
+      saveDailyDetail: (
+        weekStart: string,
+        day: import('./constants').Day,
+        doc: import('./appStorage').DailyDetailDoc
+      ) => Promise<boolean>;
+      getScheduleLocks: (weekStart: string) => Promise<import('./constants').ScheduleLocks | null>;
+      saveScheduleLocks: (weekStart: string, locks: import('./constants').ScheduleLocks | null) => Promise<boolean>;
+      getScheduleCheckpoints: (weekStart: string) => Promise<import('./appStorage').ScheduleCheckpoint[] | null>;
+      saveScheduleCheckpoints: (
+        weekStart: string,
+        checkpoints: import('./appStorage').ScheduleCheckpoint[] | null
+      ) => Promise<boolean>;
+    };
+    projectAPI?: {
+      openProject: () => Promise<{
+        success: boolean;
+        canceled?: boolean;
+        filePath?: string;
+        project?: unknown;
+        error?: string;
+      }>;
+      saveProject: (
+        project: import('./projectFile').ScheduleProject,
+        filePath?: string
+      ) => Promise<{
+        success: boolean;
+        canceled?: boolean;
+        filePath?: string;
+        error?: string;
+      }>;
+    };
     scheduleExportAPI?: {
       exportWeekWorkbook: (payload: {
         title: string;
         schedule: import('./constants').Schedule;
+        columns?: import('./constants').Column[];
+        timeSlots?: import('./constants').TimeSlot[];
         dailyDetails?: Partial<Record<import('./constants').Day, import('./appStorage').DailyDetailDoc>>;
       }) => Promise<{
         success: boolean;
@@ -73,6 +252,13 @@ declare global {
         filePath?: string;
         error?: string;
       }>;
+      importWeekWorkbook: () => Promise<{
+        success: boolean;
+        canceled?: boolean;
+        filePath?: string;
+        workbook?: import('./utils/workbookImport').ImportedWorkbook;
+        error?: string;
+      }>;
     };
   }
 }
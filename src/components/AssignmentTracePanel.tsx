@@ -0,0 +1,105 @@
+import React from 'react';
+import type { Column, TimeSlot } from '../constants';
+import type { AssignmentPass, AssignmentTrace, BetterOption } from '../solver/solverTypes';
+
+interface Props {
+  slot: TimeSlot;
+  column: Column;
+  value: string;
+  // Trace recorded for the cell by the last Auto Schedule run, if any
+  trace?: AssignmentTrace;
+  onClose: () => void;
+}
+
+const passLabels: Record<AssignmentPass, string> = {
+  preferred: 'Preferred pass (best open option from their preferences, by seniority)',
+  minimum: 'Minimum pass (emptiest open slot in their shift)',
+  'extra-radio': 'Extra radio pass (second slot for dispatchers not on Minimum Radio Only)',
+  'ut-primary': 'UT pass (one utility slot per dispatcher per week)',
+  'ut-fallback': 'UT fallback (any open utility slot on a work day)',
+  'ut-extra': 'Extra UT pass (volunteers for additional utility slots)',
+  'shift-aware-fallback': 'Shift-aware fallback (day was left empty by the solver)',
+  'round-robin-fallback': 'Round-robin fallback (day was left empty by the solver)',
+  ilp: 'GLPK model (best overall score for coverage, seniority and preferences)',
+};
+
+const describeBlock = (option: BetterOption, dispatcherId: string): string => {
+  switch (option.block) {
+    case 'held':
+      return option.heldBy?.split('/')[0].trim() === dispatcherId ? 'their other assignment' : `held by ${option.heldBy}`;
+    case 'closed':
+      return 'channel closed';
+    case 'unavailable':
+      return 'not available then';
+    case 'busy':
+      return 'already working that slot';
+    default:
+      return 'left open';
+  }
+};
+
+// Explains why the selected cell holds who it does
+const AssignmentTracePanel: React.FC<Props> = ({ slot, column, value, trace, onClose }) => {
+  const holder = value.split('/')[0].trim();
+  const current = trace && trace.dispatcherId === holder ? trace : undefined;
+
+  const preferenceText = (t: AssignmentTrace): string => {
+    if (t.preferenceCount === undefined) {
+      return t.pass.startsWith('ut') ? 'Utility slots are not ranked by preference.' : 'No preferences set.';
+    }
+    if (t.preferenceRank === undefined) return `Outside their ${t.preferenceCount} ranked options.`;
+    return t.preferenceRank === 1
+      ? 'Their #1 option.'
+      : `Option #${t.preferenceRank} of ${t.preferenceCount}.`;
+  };
+
+  return (
+    <div className="assignment-trace" role="region" aria-label="Assignment explanation">
+      <div className="assignment-trace-header">
+        <strong>
+          {slot} {column}
+          {holder ? ` — ${holder}` : ''}
+        </strong>
+        <button aria-label="Close" className="assignment-trace-close" type="button" onClick={onClose}>
+          &times;
+        </button>
+      </div>
+
+      {!holder ? (
+        <div className="assignment-trace-muted">This cell is empty.</div>
+      ) : !current ? (
+        <div className="assignment-trace-muted">Not placed by the last Auto Schedule run (entered by hand or changed since).</div>
+      ) : (
+        <>
+          <div className="assignment-trace-row">
+            <span className="assignment-trace-label">Placed by</span>
+            <span>{passLabels[current.pass]}</span>
+          </div>
+          <div className="assignment-trace-row">
+            <span className="assignment-trace-label">Preference</span>
+            <span>{preferenceText(current)}</span>
+          </div>
+          {current.betterOptions.length > 0 && (
+            <div className="assignment-trace-row">
+              <span className="assignment-trace-label">Better options</span>
+              <ul className="assignment-trace-list">
+                {current.betterOptions.map((option) => (
+                  <li key={`${option.slot}|${option.col}`}>
+                    {option.slot} {option.col}: {describeBlock(option, current.dispatcherId)}
+                  </li>
+                ))}
+                {current.betterOptionCount > current.betterOptions.length && (
+                  <li className="assignment-trace-muted">
+                    and {current.betterOptionCount - current.betterOptions.length} more
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentTracePanel;
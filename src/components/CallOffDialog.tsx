@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { getTimeSlots, type Day, type Schedule, type TimeSlot } from '../constants';
+import type { AvailabilityException, ExtendedDispatcher } from '../appTypes';
+import type { CallOffRepair } from '../solver/solverTypes';
+import { proposeCallOffRepair, recordCallOff } from '../solver/utils/repairUtils';
+import { dateForDay, formatDate, type WeekStart } from '../utils/weekDates';
+import ScheduleDiffTable from './ScheduleDiffTable';
+
+interface Props {
+  day: Day;
+  weekStart: WeekStart;
+  schedule: Schedule;
+  dispatchers: ExtendedDispatcher[];
+  // Label names the dispatcher and day for the undo history; the exceptions replace the
+  // dispatcher's own so the call-off holds for later runs
+  onAccept: (schedule: Schedule, label: string, dispatcherId: string, exceptions: AvailabilityException[]) => void;
+  onClose: () => void;
+}
+
+// Dispatchers holding a cell on the day, in roster order
+const workingOn = (day: Day, schedule: Schedule, dispatchers: ExtendedDispatcher[]) =>
+  dispatchers.filter((d) =>
+    getTimeSlots().some((slot) =>
+      Object.values(schedule[day][slot] ?? {}).some((value) =>
+        value.split('/').some((part) => part.trim() === d.id || (!!d.name && part.trim() === d.name))
+      )
+    )
+  );
+
+// Takes a dispatcher off a day or slot range and previews the replacements before applying them
+const CallOffDialog: React.FC<Props> = ({ day, weekStart, schedule, dispatchers, onAccept, onClose }) => {
+  const slots = getTimeSlots();
+  const working = workingOn(day, schedule, dispatchers);
+  const [dispatcherId, setDispatcherId] = useState(working[0]?.id ?? '');
+  const [from, setFrom] = useState<TimeSlot>(slots[0]);
+  const [to, setTo] = useState<TimeSlot>(slots[slots.length - 1]);
+  const [repair, setRepair] = useState<CallOffRepair | null>(null);
+
+  const range = slots.slice(slots.indexOf(from), slots.indexOf(to) + 1);
+  const date = formatDate(dateForDay(weekStart, day));
+
+  const propose = () => {
+    setRepair(proposeCallOffRepair(schedule, dispatchers, { dispatcherId, day, slots: range }));
+  };
+
+  return (
+    <div className="export-dialog-backdrop" role="presentation">
+      <form
+        className="export-dialog report-dialog"
+        aria-label="Mark unavailable"
+        onSubmit={(event) => {
+          event.preventDefault();
+          const dispatcher = dispatchers.find((d) => d.id === dispatcherId);
+          if (repair && dispatcher) {
+            const exceptions = recordCallOff(dispatcher, { dispatcherId, day, slots: range }, date);
+            onAccept(repair.schedule, `Mark unavailable: ${dispatcherId} ${day.slice(0, 3)}`, dispatcherId, exceptions);
+          } else propose();
+        }}
+      >
+        <div className="export-dialog-header">
+          <h2>Mark Unavailable — {day}</h2>
+          <button aria-label="Close" className="export-dialog-close" type="button" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        {!repair ? (
+          <>
+            {working.length === 0 ? (
+              <div className="report-summary">Nobody is scheduled on {day}.</div>
+            ) : (
+              <>
+                <label className="export-title-field">
+                  <span>Dispatcher</span>
+                  <select autoFocus value={dispatcherId} onChange={(e) => setDispatcherId(e.target.value)}>
+                    {working.map((d) => (
+                      <option key={d.id} value={d.id}>
+                        {d.id}
+                        {d.name && d.name !== d.id ? ` — ${d.name}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="call-off-range">
+                  <label className="export-title-field">
+                    <span>From</span>
+                    <select value={from} onChange={(e) => setFrom(e.target.value)}>
+                      {slots.map((slot) => (
+                        <option key={slot} value={slot} disabled={slots.indexOf(slot) > slots.indexOf(to)}>
+                          {slot}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="export-title-field">
+                    <span>To</span>
+                    <select value={to} onChange={(e) => setTo(e.target.value)}>
+                      {slots.map((slot) => (
+                        <option key={slot} value={slot} disabled={slots.indexOf(slot) < slots.indexOf(from)}>
+                          {slot}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <div className="report-summary">
+                  Their cells in this range are emptied and each is offered to one eligible dispatcher who is free
+                  then; a trainee stays with the new trainer. Nothing else changes. The call-off is recorded in
+                  their availability for {date}, so later Auto Schedule runs keep them off these slots.
+                </div>
+              </>
+            )}
+            <div className="export-dialog-actions">
+              <button className="btn-ghost" type="button" onClick={onClose}>
+                Cancel
+              </button>
+              <button className="btn-primary" type="submit" disabled={!dispatcherId}>
+                Propose Repair
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="report-summary">
+              {repair.changes.length === 0
+                ? `${dispatcherId} holds no cells between ${from} and ${to}.`
+                : `${repair.changes.length} cell(s) change.`}
+              {repair.unfilled.length > 0
+                ? ` ${repair.unfilled.length} cell(s) have no eligible replacement and stay empty.`
+                : ''}
+              {repair.unfilled
+                .filter((cell) => cell.trainee)
+                .map((cell) => ` ${cell.trainee} loses their trainer at ${cell.slot} ${cell.col}.`)
+                .join('')}
+            </div>
+            {repair.changes.length > 0 && <ScheduleDiffTable changes={repair.changes} />}
+            <div className="export-dialog-actions">
+              <button className="btn-ghost" type="button" onClick={() => setRepair(null)}>
+                Back
+              </button>
+              <button className="btn-primary" type="submit" disabled={repair.changes.length === 0}>
+                Apply Changes
+              </button>
+            </div>
+          </>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default CallOffDialog;
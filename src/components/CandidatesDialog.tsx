@@ -0,0 +1,105 @@
+import React, { useMemo } from 'react';
+import { ExtendedDispatcher } from '../appTypes';
+import type { SolveRun } from '../solver/workerProtocol';
+import { diffSchedules } from '../solver/utils/scheduleOps';
+import { scoreSchedule, type ScheduleScore } from '../solver/utils/scoreUtils';
+
+interface Props {
+  runs: SolveRun[];
+  dispatchers: ExtendedDispatcher[];
+  onAdopt: (index: number) => void;
+  // Shows the candidate's differences from the current schedule in the grid
+  onCompare: (index: number) => void;
+  onClose: () => void;
+}
+
+const measures: Array<{ key: keyof ScheduleScore; label: string }> = [
+  { key: 'overall', label: 'Overall' },
+  { key: 'coverage', label: 'Radio coverage' },
+  { key: 'preferences', label: 'Preferences met' },
+  { key: 'fairness', label: 'Fairness' },
+  { key: 'utDistribution', label: 'UT distribution' },
+];
+
+const percent = (value: number) => Math.round(value * 100);
+
+// Alternative Auto Schedule weeks side by side; adopting one applies it like a normal run
+const CandidatesDialog: React.FC<Props> = ({ runs, dispatchers, onAdopt, onCompare, onClose }) => {
+  const scores = useMemo(() => runs.map((run) => scoreSchedule(run.result.schedule, dispatchers)), [runs, dispatchers]);
+  const differences = useMemo(
+    () => runs.map((run) => diffSchedules(runs[0].result.schedule, run.result.schedule).length),
+    [runs]
+  );
+
+  return (
+    <div className="export-dialog-backdrop" role="presentation">
+      <div className="export-dialog report-dialog candidates-dialog" role="dialog" aria-label="Candidate schedules">
+        <div className="export-dialog-header">
+          <h2>Candidate schedules</h2>
+          <button aria-label="Close" className="export-dialog-close" type="button" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        <div className="report-summary">
+          Each candidate breaks ties differently. Scores run from 0 to 100%; the best value of each row is highlighted.
+        </div>
+
+        <table className="candidates-table">
+          <thead>
+            <tr>
+              <th scope="col" />
+              {runs.map((run, i) => (
+                <th key={run.seed} scope="col">
+                  Candidate {i + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {measures.map(({ key, label }) => {
+              const best = Math.max(...scores.map((s) => percent(s[key])));
+              return (
+                <tr key={key}>
+                  <th scope="row">{label}</th>
+                  {scores.map((score, i) => (
+                    <td key={runs[i].seed} className={percent(score[key]) === best ? 'candidate-best' : undefined}>
+                      {percent(score[key])}%
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+            <tr>
+              <th scope="row">Empty radio cells</th>
+              {runs.map((run) => (
+                <td key={run.seed}>{run.result.report.emptyCells.length}</td>
+              ))}
+            </tr>
+            <tr>
+              <th scope="row">Cells unlike candidate 1</th>
+              {runs.map((run, i) => (
+                <td key={run.seed}>{i === 0 ? '—' : differences[i]}</td>
+              ))}
+            </tr>
+            <tr>
+              <th scope="row" />
+              {runs.map((run, i) => (
+                <td key={run.seed} className="candidate-actions">
+                  <button className="btn-ghost" type="button" onClick={() => onCompare(i)}>
+                    Compare
+                  </button>
+                  <button className="btn-primary" type="button" onClick={() => onAdopt(i)}>
+                    Adopt
+                  </button>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CandidatesDialog;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { formatWeekLabel, type WeekStart } from '../utils/weekDates';
+
+interface Props {
+  // Labels of the undo entries, newest first; each one's earlier version is the schedule before it
+  historyLabels: string[];
+  // Saved weeks other than the one being edited
+  weeks: WeekStart[];
+  onCompareHistory: (stepsBack: number) => void;
+  onCompareWeek: (week: WeekStart) => void;
+  // Absent when workbook import is unavailable (web version)
+  onCompareWorkbook?: () => void;
+  onClose: () => void;
+}
+
+// Picks the schedule to compare the current one against
+const CompareDialog: React.FC<Props> = ({ historyLabels, weeks, onCompareHistory, onCompareWeek, onCompareWorkbook, onClose }) => {
+  const [stepsBack, setStepsBack] = useState(1);
+  const [week, setWeek] = useState<WeekStart>(weeks[weeks.length - 1] ?? '');
+
+  return (
+    <div className="export-dialog-backdrop" role="presentation">
+      <div className="export-dialog" role="dialog" aria-label="Compare schedules">
+        <div className="export-dialog-header">
+          <h2>Compare With…</h2>
+          <button aria-label="Close" className="export-dialog-close" type="button" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        <div className="compare-source">
+          <label className="export-title-field">
+            <span>Earlier version of this week</span>
+            <select
+              disabled={historyLabels.length === 0}
+              value={stepsBack}
+              onChange={(e) => setStepsBack(Number(e.target.value))}
+            >
+              {historyLabels.length === 0 && <option value={1}>No earlier versions</option>}
+              {historyLabels.map((label, i) => (
+                <option key={i} value={i + 1}>
+                  Before {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="btn-ghost" type="button" disabled={historyLabels.length === 0} onClick={() => onCompareHistory(stepsBack)}>
+            Compare
+          </button>
+        </div>
+
+        <div className="compare-source">
+          <label className="export-title-field">
+            <span>Saved week</span>
+            <select disabled={weeks.length === 0} value={week} onChange={(e) => setWeek(e.target.value)}>
+              {weeks.length === 0 && <option value="">No other saved weeks</option>}
+              {weeks.map((w) => (
+                <option key={w} value={w}>
+                  Week of {formatWeekLabel(w)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="btn-ghost" type="button" disabled={!week} onClick={() => onCompareWeek(week)}>
+            Compare
+          </button>
+        </div>
+
+        {onCompareWorkbook && (
+          <div className="compare-source">
+            <div className="export-title-field">
+              <span>Radio Week View workbook (.xlsm)</span>
+            </div>
+            <button className="btn-ghost" type="button" onClick={onCompareWorkbook}>
+              Choose File…
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareDialog;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { days, type Day } from '../constants';
+import type { ExtendedDispatcher } from '../appTypes';
+import type { CellChange, ScheduleCell } from '../solver/solverTypes';
+import { summarizeChangesByDispatcher } from '../solver/utils/scheduleOps';
+import ScheduleDiffTable from './ScheduleDiffTable';
+
+interface Props {
+  // What the current schedule is compared against
+  label: string;
+  changes: CellChange[];
+  dispatchers: ExtendedDispatcher[];
+  selectedDay: Day;
+  onSelectDay: (day: Day) => void;
+  onEnd: () => void;
+}
+
+const describeCells = (cells: ScheduleCell[]) =>
+  cells.map((c) => `${c.day.slice(0, 3)} ${c.slot} ${c.col}`).join(', ');
+
+// Changes against another version of the schedule: per day, per dispatcher and cell by cell
+const ComparePanel: React.FC<Props> = ({ label, changes, dispatchers, selectedDay, onSelectDay, onEnd }) => {
+  const byDispatcher = summarizeChangesByDispatcher(changes, dispatchers);
+  const dayChanges = changes.filter((c) => c.day === selectedDay);
+
+  return (
+    <div className="schedule-panel" role="region" aria-label="Schedule comparison">
+      <div className="schedule-panel-header">
+        <strong>
+          Compared with {label}: {changes.length === 0 ? 'no differences' : `${changes.length} changed cell(s)`}
+        </strong>
+        <button className="btn-ghost" type="button" onClick={onEnd}>
+          End Comparison
+        </button>
+      </div>
+
+      {changes.length > 0 && (
+        <>
+          <div className="compare-days">
+            {days.map((day) => {
+              const count = changes.filter((c) => c.day === day).length;
+              return (
+                <button
+                  key={day}
+                  type="button"
+                  className={`compare-day${day === selectedDay ? ' active' : ''}`}
+                  disabled={count === 0}
+                  onClick={() => onSelectDay(day)}
+                >
+                  {day.slice(0, 3)} {count}
+                </button>
+              );
+            })}
+          </div>
+
+          <ul className="report-list">
+            {byDispatcher.map(({ dispatcherId, added, removed }) => (
+              <li key={dispatcherId}>
+                <strong>{dispatcherId}</strong>
+                {added.length > 0 && <span className="compare-added">+{added.length}: {describeCells(added)}</span>}
+                {removed.length > 0 && <span className="compare-removed">−{removed.length}: {describeCells(removed)}</span>}
+              </li>
+            ))}
+          </ul>
+
+          {dayChanges.length > 0 && <ScheduleDiffTable changes={dayChanges} beforeLabel={label} afterLabel="Current" />}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparePanel;
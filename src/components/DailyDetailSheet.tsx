@@ -3,6 +3,7 @@ import { Day, Schedule, TimeSlot, Column, isCellDisabled } from '../constants';
 import { ExtendedDispatcher } from '../appTypes';
 import { loadDailyDetail, saveDailyDetail, type DailyDetailDoc, type DailyDetailGrid } from '../appStorage';
 import { buildDailyDetailDoc } from '../utils/dailyDetail';
+import type { WeekStart } from '../utils/weekDates';
 import '../styles/daily-detail.css';
 import SheetGrid from './SheetGrid';
 import DispatcherDropdown from './DispatcherDropdown';
@@ -16,6 +17,7 @@ export interface DailyDetailHandle {
 }
 
 interface Props {
+  weekStart: WeekStart;
   day: Day;
   schedule: Schedule;
   dispatchers: ExtendedDispatcher[];
@@ -36,7 +38,7 @@ const isDailyDetailGrid = (value: unknown): value is DailyDetailGrid => {
 };
 
 const DailyDetailSheet = forwardRef<DailyDetailHandle, Props>(function DailyDetailSheet(
-  { day, schedule, dispatchers },
+  { weekStart, day, schedule, dispatchers },
   ref
 ) {
   const formatTimeDisplay = useCallback((value: string): string => {
@@ -83,63 +85,71 @@ const DailyDetailSheet = forwardRef<DailyDetailHandle, Props>(function DailyDeta
 
   const [doc, setDoc] = useState<DailyDetailDoc>(() => normalizePanelTimes(buildDailyDetailDoc(day, schedule, dispatchers)));
 
-  // Load or initialize on day change
+  // Load or initialize on week or day change
   useEffect(() => {
-    const saved = loadDailyDetail(day);
-    if (isDailyDetailDoc(saved)) {
-      let d = saved;
-      // Normalize: ensure F SHIFT exists in rosters
-      if (d.rosters && !d.rosters.headers.includes('F SHIFT')) {
-        d = {
-          ...d,
-          rosters: {
-            headers: [...d.rosters.headers, 'F SHIFT'],
-            rows: (d.rosters.rows || []).map((r) => [...r, ''])
-          }
-        };
-      }
-      // Normalize: stabilizer should have 3 columns [time, name1, name2]
-      if ((d.stabilizer?.headers?.length ?? 0) < 3) {
-        d = {
+    let cancelled = false;
+    const loadDetailAsync = async () => {
+      const saved = await loadDailyDetail(weekStart, day);
+      if (cancelled) return;
+      if (isDailyDetailDoc(saved)) {
+        let d = saved;
+        // Normalize: ensure F SHIFT exists in rosters
+        if (d.rosters && !d.rosters.headers.includes('F SHIFT')) {
+          d = {
+            ...d,
+            rosters: {
+              headers: [...d.rosters.headers, 'F SHIFT'],
+              rows: (d.rosters.rows || []).map((r) => [...r, ''])
+            }
+          };
+        }
+        // Normalize: stabilizer should have 3 columns [time, name1, name2]
+        if ((d.stabilizer?.headers?.length ?? 0) < 3) {
+          d = {
+            ...d,
+            stabilizer: {
+              headers: ['STABILIZER', '', ''],
+              rows: (d.stabilizer?.rows || []).map((r) => [r[0] ?? '', r[1] ?? '', ''])
+            }
+          } as DailyDetailDoc;
+        }
+        // Normalize: teletype should have 2 columns [time, name]
+        if ((d.teletype?.headers?.length ?? 0) < 2) {
+          d = {
+            ...d,
+            teletype: {
+              headers: ['TELETYPE', ''],
+              rows: (d.teletype?.rows || []).map((r) => [r[0] ?? '', ''])
+            }
+          } as DailyDetailDoc;
+        }
+        const freshFromSchedule = buildDailyDetailDoc(day, schedule, dispatchers);
+        setDoc(normalizePanelTimes({
           ...d,
-          stabilizer: {
-            headers: ['STABILIZER', '', ''],
-            rows: (d.stabilizer?.rows || []).map((r) => [r[0] ?? '', r[1] ?? '', ''])
-          }
-        } as DailyDetailDoc;
+          // The detail sheet's schedule grid and shift rosters should always mirror
+          // the current radio schedule for the selected day. Preserve the manually
+          // edited side panels, but replace schedule-derived sections.
+          grid: freshFromSchedule.grid,
+          rosters: freshFromSchedule.rosters,
+        }));
       }
-      // Normalize: teletype should have 2 columns [time, name]
-      if ((d.teletype?.headers?.length ?? 0) < 2) {
-        d = {
-          ...d,
-          teletype: {
-            headers: ['TELETYPE', ''],
-            rows: (d.teletype?.rows || []).map((r) => [r[0] ?? '', ''])
-          }
-        } as DailyDetailDoc;
+      else if (isDailyDetailGrid(saved)) {
+        // Back-compat: old saved grid only. The grid is schedule-derived, so rebuild
+        // it from the current schedule instead of keeping stale saved assignments.
+        setDoc(normalizePanelTimes(buildDailyDetailDoc(day, schedule, dispatchers)));
+      } else {
+        setDoc(normalizePanelTimes(buildDailyDetailDoc(day, schedule, dispatchers)));
       }
-      const freshFromSchedule = buildDailyDetailDoc(day, schedule, dispatchers);
-      setDoc(normalizePanelTimes({
-        ...d,
-        // The detail sheet's schedule grid and shift rosters should always mirror
-        // the current radio schedule for the selected day. Preserve the manually
-        // edited side panels, but replace schedule-derived sections.
-        grid: freshFromSchedule.grid,
-        rosters: freshFromSchedule.rosters,
-      }));
-    }
-    else if (isDailyDetailGrid(saved)) {
-      // Back-compat: old saved grid only. The grid is schedule-derived, so rebuild
-      // it from the current schedule instead of keeping stale saved assignments.
-      setDoc(normalizePanelTimes(buildDailyDetailDoc(day, schedule, dispatchers)));
-    } else {
-      setDoc(normalizePanelTimes(buildDailyDetailDoc(day, schedule, dispatchers)));
-    }
-  }, [day, schedule, dispatchers, normalizePanelTimes]);
+    };
+    loadDetailAsync();
+    return () => {
+      cancelled = true;
+    };
+  }, [weekStart, day, schedule, dispatchers, normalizePanelTimes]);
 
   const persist = useCallback((d: DailyDetailDoc) => {
-    saveDailyDetail(day, d);
-  }, [day]);
+    void saveDailyDetail(weekStart, day, d);
+  }, [weekStart, day]);
 
   const setGridCell = (rowIndex: number, colIndex: number, value: string) => {
     setDoc((prev) => {
@@ -355,12 +365,11 @@ const DailyDetailSheet = forwardRef<DailyDetailHandle, Props>(function DailyDeta
       didParseCell: (data: CellHookData) => {
         const { cell, row, column, section } = data;
         if (section !== 'body') return;
-        const mtIndex = doc.grid.headers.indexOf('MT');
-        if (mtIndex <= 0) return; // 0 is Time column
-        if (column.index !== mtIndex) return;
+        if (column.index === 0) return; // Time column
+        const col = doc.grid.headers[column.index] as Column;
         const slot = doc.grid.rows[row.index]?.[0] as TimeSlot | undefined;
         if (!slot) return;
-        if (isCellDisabled(day, slot, 'MT')) {
+        if (isCellDisabled(day, slot, col)) {
           cell.styles.fillColor = [0, 0, 0];
           cell.styles.textColor = [255, 255, 255];
         }
@@ -466,14 +475,13 @@ const DailyDetailSheet = forwardRef<DailyDetailHandle, Props>(function DailyDeta
     exportPDF,
   }));
 
-  // Memoize a function for cell class to black-out disabled MT cells in the main grid
+  // Memoize a function for cell class to black-out closed channel cells in the main grid
   const mainCellClass = useCallback((r: number, c: number) => {
     if (c === 0) return undefined;
-    const mtIndex = doc.grid.headers.indexOf('MT');
-    if (c !== mtIndex) return undefined;
+    const col = doc.grid.headers[c] as Column;
     const slot = doc.grid.rows[r]?.[0] as TimeSlot | undefined;
     if (!slot) return undefined;
-    return isCellDisabled(day, slot, 'MT') ? 'disabled-mt' : undefined;
+    return isCellDisabled(day, slot, col) ? 'disabled-mt' : undefined;
   }, [doc.grid.headers, doc.grid.rows, day]);
 
   // Provide width hints so multi-table layout lines up by pixels when possible.
@@ -504,7 +512,7 @@ const DailyDetailSheet = forwardRef<DailyDetailHandle, Props>(function DailyDeta
               if (c === 0) return <span>{value}</span>;
               const col = doc.grid.headers[c] as Column;
               const slot = doc.grid.rows[r]?.[0] as TimeSlot;
-              const disabled = col === 'MT' && isCellDisabled(day, slot, 'MT');
+              const disabled = isCellDisabled(day, slot, col);
               return (
                 <DispatcherDropdown
                   value={value || ''}
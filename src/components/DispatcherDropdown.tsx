@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { ExtendedDispatcher } from '../appTypes';
-import { Day, TimeSlot, Column } from '../constants';
-import { SHIFT_SLOTS, isEligibleOnDayForSlot } from '../solver/utils/shiftUtils';
+import { Day, TimeSlot, Column, isUtilityColumn } from '../constants';
+import { getShiftSlots, isEligibleOnDayForSlot } from '../solver/utils/shiftUtils';
 import DispatcherTooltip from './DispatcherTooltip';
 import '../styles/dispatcher-dropdown.css';
 
@@ -43,7 +43,7 @@ const DispatcherDropdown: React.FC<Props> = ({ value, dispatchers, onChange, cla
 
       // Also include a trainer if any of their present trainees match the search
       let traineeMatches = false;
-      if (!dispatcher.isTrainee && !dispatcher.traineeOf && day && timeSlot && column !== 'UT') {
+      if (!dispatcher.isTrainee && !dispatcher.traineeOf && day && timeSlot && !(column && isUtilityColumn(column))) {
         const trainees = dispatchers.filter(t => (t.isTrainee === true) && t.traineeOf === dispatcher.id);
         const worksOnDay = (person: ExtendedDispatcher, reference?: ExtendedDispatcher): boolean => {
           // If no day or timeSlot context is provided, default to available
@@ -57,7 +57,7 @@ const DispatcherDropdown: React.FC<Props> = ({ value, dispatchers, onChange, cla
         const inShift = (person: ExtendedDispatcher, reference?: ExtendedDispatcher): boolean => {
           const effectiveShift = (person.followTrainerSchedule && reference && reference.shift) ? reference.shift : person.shift;
           if (!effectiveShift) return true;
-          const slots = SHIFT_SLOTS[effectiveShift] || [];
+          const slots = getShiftSlots(effectiveShift) || [];
           return slots.includes(timeSlot);
         };
         traineeMatches = trainees
@@ -87,8 +87,8 @@ const DispatcherDropdown: React.FC<Props> = ({ value, dispatchers, onChange, cla
         value: dispatcher.id,
       });
 
-      // Build trainee pairs (skip UT column)
-      if (column !== 'UT') {
+      // Build trainee pairs (skip utility columns)
+      if (!(column && isUtilityColumn(column))) {
         let trainees = dispatchers.filter(t => (t.isTrainee === true) && t.traineeOf === dispatcher.id);
         if (typingValue && typingValue.trim()) {
           const st = typingValue.toLowerCase().trim();
@@ -188,7 +188,7 @@ const DispatcherDropdown: React.FC<Props> = ({ value, dispatchers, onChange, cla
       }
       if (isTyping) {
         const searchTerm = typingValue.toLowerCase().trim();
-        if (searchTerm && column !== 'UT') {
+        if (searchTerm && !(column && isUtilityColumn(column))) {
           // Try trainer/trainee pair first (always offer pairs regardless of day/shift)
           const trainers = dispatchers.filter(d => !(d.isTrainee || d.traineeOf));
           for (const trainer of trainers) {
@@ -318,7 +318,7 @@ const DispatcherDropdown: React.FC<Props> = ({ value, dispatchers, onChange, cla
           if (isTyping) {
             // First, try to match a trainer/trainee pair when searching by trainee
             const searchTerm = typingValue.toLowerCase().trim();
-            if (searchTerm && column !== 'UT') {
+            if (searchTerm && !(column && isUtilityColumn(column))) {
               // Trainers only (always consider all their trainees)
               const trainers = dispatchers.filter(d => !(d.isTrainee || d.traineeOf));
               for (const trainer of trainers) {
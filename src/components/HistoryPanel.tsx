@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { ScheduleCheckpoint } from '../appStorage';
+import type { ScheduleHistory } from '../utils/scheduleHistory';
+
+interface Props {
+  history: ScheduleHistory;
+  // Named checkpoints of the week, oldest first
+  checkpoints: ScheduleCheckpoint[];
+  // Positive steps undo, negative steps redo
+  onTravel: (steps: number) => void;
+  onSaveCheckpoint: (name: string) => void;
+  onRestoreCheckpoint: (checkpoint: ScheduleCheckpoint) => void;
+  onDeleteCheckpoint: (checkpoint: ScheduleCheckpoint) => void;
+  onClose: () => void;
+}
+
+const formatSavedAt = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Every undoable action of the session, oldest first, plus the week's named checkpoints
+const HistoryPanel: React.FC<Props> = ({
+  history,
+  checkpoints,
+  onTravel,
+  onSaveCheckpoint,
+  onRestoreCheckpoint,
+  onDeleteCheckpoint,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const { past, future } = history;
+
+  // Each row is the schedule right after its action; the first row is the oldest kept state
+  const rows = [
+    { key: 'start', label: 'Start of history', steps: past.length, undone: false },
+    ...past.map((entry, i) => ({ key: `past-${i}`, label: entry.label, steps: i, undone: false })).reverse(),
+    ...future.map((entry, i) => ({ key: `future-${i}`, label: entry.label, steps: -(i + 1), undone: true })),
+  ];
+
+  return (
+    <div className="schedule-panel" role="region" aria-label="Edit history">
+      <div className="schedule-panel-header">
+        <strong>History</strong>
+        <button className="btn-ghost" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <ol className="history-list">
+        {rows.map((row) => (
+          <li key={row.key}>
+            <button
+              type="button"
+              className={`history-item${row.steps === 0 ? ' current' : ''}${row.undone ? ' undone' : ''}`}
+              disabled={row.steps === 0}
+              onClick={() => onTravel(row.steps)}
+            >
+              {row.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <form
+        className="history-checkpoint-form"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!name.trim()) return;
+          onSaveCheckpoint(name.trim());
+          setName('');
+        }}
+      >
+        <label className="export-title-field">
+          <span>Checkpoint name</span>
+          <input value={name} placeholder="e.g. Sent to supervisor" onChange={(e) => setName(e.target.value)} />
+        </label>
+        <button className="btn-ghost" type="submit" disabled={!name.trim()}>
+          Save Checkpoint
+        </button>
+      </form>
+
+      {checkpoints.length > 0 && (
+        <ul className="report-list">
+          {checkpoints.map((checkpoint) => (
+            <li key={`${checkpoint.savedAt}|${checkpoint.name}`} className="history-checkpoint">
+              <strong>{checkpoint.name}</strong>
+              <span className="report-locations">{formatSavedAt(checkpoint.savedAt)}</span>
+              <button className="btn-ghost" type="button" onClick={() => onRestoreCheckpoint(checkpoint)}>
+                Restore
+              </button>
+              <button className="btn-ghost" type="button" onClick={() => onDeleteCheckpoint(checkpoint)}>
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
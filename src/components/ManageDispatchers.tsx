@@ -6,6 +6,7 @@ import {
   DispatcherListItem,
   DispatcherProfileSection,
   DispatcherScheduleSection,
+  DispatcherAvailabilitySection,
   DispatcherPreferencesSection,
 } from './dispatchers';
 import '../styles/manage-dispatchers.css';
@@ -298,6 +299,10 @@ const ManageDispatchers: React.FC<Props> = ({ dispatchers, onChange }) => {
                   onUpdate={(field, value) => update(selectedIndex, field, value)}
                   onToggleWorkDay={(day) => toggleWorkDay(selectedIndex, day)}
                 />
+                <DispatcherAvailabilitySection
+                  dispatcher={selectedDispatcher}
+                  onUpdate={(field, value) => update(selectedIndex, field, value)}
+                />
                 <DispatcherPreferencesSection
                   dispatcher={selectedDispatcher}
                   onUpdate={(field, value) => update(selectedIndex, field, value)}
@@ -312,7 +317,7 @@ const ManageDispatchers: React.FC<Props> = ({ dispatchers, onChange }) => {
             </>
           ) : (
             <div className="dispatcher-empty-state detail-empty-state">
-              Select a dispatcher to edit profile, schedule, and preferences.
+              Select a dispatcher to edit profile, schedule, availability, and preferences.
             </div>
           )}
         </aside>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { ChannelDefinition, ExtendedDispatcher, FairnessLedger, FairnessSettings, RadioRestRules, ShiftDefinition, TimeSlotGrid } from '../appTypes';
+import { ChannelDefinitionsSection, FairnessSection, RestRulesSection, ShiftDefinitionsSection, TimeSlotGridSection } from './settings';
+import type { WeekStart } from '../utils/weekDates';
+import '../styles/settings.css';
+
+interface Props {
+  dispatchers: ExtendedDispatcher[];
+  timeSlotGrid: TimeSlotGrid;
+  onTimeSlotGridChange: (grid: TimeSlotGrid) => void;
+  shiftDefinitions: ShiftDefinition[];
+  onShiftDefinitionsChange: (definitions: ShiftDefinition[]) => void;
+  channelDefinitions: ChannelDefinition[];
+  onChannelDefinitionsChange: (definitions: ChannelDefinition[]) => void;
+  fairnessSettings: FairnessSettings;
+  onFairnessSettingsChange: (settings: FairnessSettings) => void;
+  restRules: RadioRestRules;
+  onRestRulesChange: (rules: RadioRestRules) => void;
+  fairnessLedger: FairnessLedger;
+  onClearFairnessLedger: () => void;
+  weekStart: WeekStart;
+}
+
+const ManageSettings: React.FC<Props> = ({
+  dispatchers,
+  timeSlotGrid,
+  onTimeSlotGridChange,
+  shiftDefinitions,
+  onShiftDefinitionsChange,
+  channelDefinitions,
+  onChannelDefinitionsChange,
+  fairnessSettings,
+  onFairnessSettingsChange,
+  restRules,
+  onRestRulesChange,
+  fairnessLedger,
+  onClearFairnessLedger,
+  weekStart,
+}) => {
+  return (
+    <div className="manage-settings-container">
+      <div className="dispatchers-list-header">
+        <h2 className="header-title">Settings</h2>
+      </div>
+      <TimeSlotGridSection grid={timeSlotGrid} onChange={onTimeSlotGridChange} />
+      <ShiftDefinitionsSection
+        definitions={shiftDefinitions}
+        dispatchers={dispatchers}
+        onChange={onShiftDefinitionsChange}
+      />
+      <ChannelDefinitionsSection definitions={channelDefinitions} onChange={onChannelDefinitionsChange} />
+      <RestRulesSection rules={restRules} onChange={onRestRulesChange} />
+      <FairnessSection
+        settings={fairnessSettings}
+        onChange={onFairnessSettingsChange}
+        ledger={fairnessLedger}
+        onClearLedger={onClearFairnessLedger}
+        weekStart={weekStart}
+        dispatchers={dispatchers}
+      />
+    </div>
+  );
+};
+
+export default ManageSettings;
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { CellChange } from '../solver/solverTypes';
+
+interface Props {
+  changes: CellChange[];
+  // Header labels for the two sides
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+// Cell-by-cell changes between two schedules
+const ScheduleDiffTable: React.FC<Props> = ({ changes, beforeLabel = 'Before', afterLabel = 'After' }) => (
+  <table className="schedule-diff">
+    <thead>
+      <tr>
+        <th>Day</th>
+        <th>Time</th>
+        <th>Channel</th>
+        <th>{beforeLabel}</th>
+        <th>{afterLabel}</th>
+      </tr>
+    </thead>
+    <tbody>
+      {changes.map((change) => (
+        <tr key={`${change.day}|${change.slot}|${change.col}`}>
+          <td>{change.day}</td>
+          <td>{change.slot}</td>
+          <td>{change.col}</td>
+          <td className={change.before ? 'schedule-diff-removed' : 'schedule-diff-empty'}>{change.before || 'empty'}</td>
+          <td className={change.after ? 'schedule-diff-added' : 'schedule-diff-empty'}>{change.after || 'empty'}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export default ScheduleDiffTable;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { days, type Day } from '../constants';
+import type { ClearedReason, ScheduleReport } from '../solver/solverTypes';
+import { isReportClean } from '../solver/utils/reportUtils';
+
+interface Props {
+  report: ScheduleReport;
+  onClose: () => void;
+}
+
+const clearedLabels: Record<ClearedReason, string> = {
+  closed: 'channel is closed',
+  unknown: 'no dispatcher by that name',
+  ineligible: 'outside their work days, shift or availability',
+  duplicate: 'already on another channel that timeslot',
+};
+
+// Lists the days per dispatcher in week order
+const daysByDispatcher = (entries: Array<{ dispatcherId: string; day: Day }>): Array<[string, Day[]]> => {
+  const grouped = new Map<string, Day[]>();
+  entries.forEach(({ dispatcherId, day }) => {
+    const list = grouped.get(dispatcherId) || [];
+    list.push(day);
+    grouped.set(dispatcherId, list);
+  });
+  return [...grouped.entries()].map(([id, list]) => [id, days.filter((d) => list.includes(d))]);
+};
+
+// Shown after Auto Schedule: coverage gaps and rule problems the run could not resolve
+const ScheduleReportDialog: React.FC<Props> = ({ report, onClose }) => {
+  const emptyByDay = days
+    .map((day) => ({ day, cells: report.emptyCells.filter((c) => c.day === day) }))
+    .filter((group) => group.cells.length > 0);
+  const zeroSlots = daysByDispatcher(report.zeroSlotDays);
+  const misses = daysByDispatcher(report.preferenceMisses);
+
+  return (
+    <div className="export-dialog-backdrop" role="presentation">
+      <div className="export-dialog report-dialog" role="dialog" aria-label="Auto Schedule report">
+        <div className="export-dialog-header">
+          <h2>Auto Schedule report</h2>
+          <button aria-label="Close" className="export-dialog-close" type="button" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        <div className="report-summary">
+          {isReportClean(report)
+            ? 'Every open radio cell is filled, every available dispatcher has a slot each day and their weekly UT, and no preferences were missed.'
+            : `${report.emptyCells.length > 0 ? `${report.emptyCells.length} radio cell(s) left empty.` : 'Every open radio cell is filled.'} Review the items below.`}
+        </div>
+
+        {emptyByDay.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Empty radio cells ({report.emptyCells.length})</div>
+            <ul className="report-list">
+              {emptyByDay.map(({ day, cells }) => (
+                <li key={day}>
+                  <strong>{day}</strong>
+                  <span className="report-locations">{cells.map((c) => `${c.slot} ${c.col}`).join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {zeroSlots.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Available but without a slot ({zeroSlots.length})</div>
+            <ul className="report-list">
+              {zeroSlots.map(([id, list]) => (
+                <li key={id}>
+                  <strong>{id}</strong>
+                  <span className="report-locations">{list.join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {report.missingUt.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Missing their weekly UT ({report.missingUt.length})</div>
+            <div className="report-locations">{report.missingUt.join(', ')}</div>
+          </div>
+        )}
+
+        {misses.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">No preferred option ({misses.length})</div>
+            <ul className="report-list">
+              {misses.map(([id, list]) => (
+                <li key={id}>
+                  <strong>{id}</strong>
+                  <span className="report-locations">{list.join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {report.clearedAssignments.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Existing entries ignored by the solver ({report.clearedAssignments.length})</div>
+            <ul className="report-list">
+              {report.clearedAssignments.map((c) => (
+                <li key={`${c.day}|${c.slot}|${c.col}`}>
+                  <strong>{c.value}</strong>
+                  <span className="report-locations">
+                    {c.day} {c.slot} {c.col}: {clearedLabels[c.reason]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="report-locations">Entries are kept as entered unless the solver placed that dispatcher elsewhere in the same timeslot.</div>
+          </div>
+        )}
+
+        {report.keptAssignments.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Locked entries kept despite a rule ({report.keptAssignments.length})</div>
+            <ul className="report-list">
+              {report.keptAssignments.map((c) => (
+                <li key={`${c.day}|${c.slot}|${c.col}`}>
+                  <strong>{c.value}</strong>
+                  <span className="report-locations">
+                    {c.day} {c.slot} {c.col}: {clearedLabels[c.reason]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="export-dialog-actions">
+          <button className="btn-primary" type="button" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleReportDialog;
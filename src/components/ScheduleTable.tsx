@@ -1,10 +1,17 @@
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useEffect, useState } from 'react';
 import '../styles/schedule-table.css';
-import { columns, timeSlots, Column, TimeSlot, Day, Schedule, isCellDisabled } from '../constants';
+import { getColumns, getTimeSlots, Column, TimeSlot, Day, Schedule, ScheduleLocks, ScheduleScope, isCellDisabled, isRadioColumn } from '../constants';
 import { ExtendedDispatcher } from '../appTypes';
 import DispatcherDropdown from './DispatcherDropdown';
+import AssignmentTracePanel from './AssignmentTracePanel';
 import '../styles/dispatcher-dropdown.css';
 import { isSlotInShift, isEligibleOnDayForSlot } from '../solver/utils/shiftUtils';
+import { worksOnDay } from '../solver/utils/availabilityUtils';
+import { traceKey } from '../solver/utils/traceUtils';
+import { findRadioCapBreaches } from '../solver/utils/radioCapUtils';
+import { findRestRuleBreaches, getRestRules } from '../solver/utils/restRuleUtils';
+import { isCellLocked } from '../utils/scheduleLocks';
+import type { AssignmentTraceLog, CellChange } from '../solver/solverTypes';
 
 interface Props {
   day: Day;
@@ -12,9 +19,73 @@ interface Props {
   dispatchers: ExtendedDispatcher[];
   onChange: (day: Day, time: TimeSlot, column: Column, value: string) => void;
   slotCounts: Record<string, number>;
+  // Traces from the last Auto Schedule run, shown for the selected cell
+  traces?: AssignmentTraceLog;
+  // Locked cells are kept as they are by Auto Schedule
+  locks?: ScheduleLocks;
+  onToggleLock?: (day: Day, time: TimeSlot, column: Column) => void;
+  // Re-solves only the selected cells (shift-click extends the selection)
+  onResolveScope?: (scope: ScheduleScope) => void;
+  resolving?: boolean;
+  // Differences from a compared schedule; changed cells are highlighted
+  changes?: CellChange[];
 }
 
-const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange, slotCounts }) => {
+type CellRef = { slot: TimeSlot; column: Column };
+
+// Items between two entries of a list, inclusive, in list order
+const spanOf = <T,>(list: T[], a: T, b: T): T[] => {
+  const [from, to] = [list.indexOf(a), list.indexOf(b)].sort((x, y) => x - y);
+  return list.slice(from, to + 1);
+};
+
+const ScheduleTable: React.FC<Props> = ({
+  day,
+  schedule,
+  dispatchers,
+  onChange,
+  slotCounts,
+  traces,
+  locks = {},
+  onToggleLock,
+  onResolveScope,
+  resolving,
+  changes,
+}) => {
+  const columns = getColumns();
+  const [selectedCell, setSelectedCell] = useState<CellRef | null>(null);
+  const [selectionEnd, setSelectionEnd] = useState<CellRef | null>(null);
+
+  // A selection belongs to the day it was made on
+  useEffect(() => {
+    setSelectedCell(null);
+    setSelectionEnd(null);
+  }, [day]);
+
+  // Rectangle from the selected cell to the shift-clicked one
+  const selectionCorner = selectionEnd ?? selectedCell;
+  const selection = selectedCell && selectionCorner
+    ? {
+      slots: spanOf(getTimeSlots(), selectedCell.slot, selectionCorner.slot),
+      columns: spanOf(columns, selectedCell.column, selectionCorner.column),
+    }
+    : null;
+
+  // Previous value of each changed cell on this day, keyed by slot and channel
+  const changedCells = useMemo(
+    () => new Map((changes ?? []).filter((c) => c.day === day).map((c) => [`${c.slot}|${c.col}`, c.before])),
+    [changes, day]
+  );
+
+  const selectCell = (cell: CellRef, extend: boolean) => {
+    if (extend && selectedCell) {
+      setSelectionEnd(cell);
+      return;
+    }
+    setSelectedCell(cell);
+    setSelectionEnd(null);
+  };
+
   // Resolve a display value to dispatcher objects (supports trainer/trainee pairs "A/B")
   const resolveParticipants = useCallback((value: string): ExtendedDispatcher[] => {
     if (!value) return [];
@@ -27,10 +98,10 @@ const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange,
   // Build duplicate map per timeslot for current day (any person assigned more than once)
   const duplicateIdsByTimeSlot = useMemo(() => {
     const map: Record<TimeSlot, Set<string>> = {} as Record<TimeSlot, Set<string>>;
-    timeSlots.forEach((slot) => {
+    getTimeSlots().forEach((slot) => {
       const counts = new Map<string, number>();
-      columns.forEach((col) => {
-        const val = schedule[day][slot][col] || '';
+      getColumns().forEach((col) => {
+        const val = schedule[day][slot]?.[col] || '';
         if (!val) return;
         const participants = resolveParticipants(val);
         participants.forEach((p) => {
@@ -47,6 +118,27 @@ const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange,
     return map;
   }, [day, schedule, resolveParticipants]);
 
+  // Timeslots of this day where each dispatcher's radio cells break a cap they set
+  const capBreachesById = useMemo(() => {
+    const map = new Map<string, Set<TimeSlot>>();
+    dispatchers.forEach((d) => {
+      const breaches = findRadioCapBreaches(d, day, schedule, dispatchers);
+      if (breaches.length > 0) map.set(d.id, new Set(breaches));
+    });
+    return map;
+  }, [day, schedule, dispatchers]);
+
+  // Timeslots of this day where each dispatcher's radio cells break a rest rule
+  const restRules = getRestRules();
+  const restBreachesById = useMemo(() => {
+    const map = new Map<string, Set<TimeSlot>>();
+    dispatchers.forEach((d) => {
+      const breaches = findRestRuleBreaches(d, day, schedule, dispatchers, restRules);
+      if (breaches.length > 0) map.set(d.id, new Set(breaches));
+    });
+    return map;
+  }, [day, schedule, dispatchers, restRules]);
+
   // Compute cell status: 'error' (red), 'warning' (yellow), or undefined
   const getCellStatus = (timeSlot: TimeSlot, column: Column, value: string): 'error' | 'warning' | undefined => {
     if (!value) return undefined;
@@ -76,8 +168,14 @@ const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange,
 
     if (hasDuplicate || violatesDayOrShift) return 'error';
 
-    // Preference warning (skip UT and RELIEF columns). If dispatcher has preferences defined and this slot doesn't match.
-    if (column !== 'UT' && column !== 'RELIEF') {
+    // Radio caps (per day, per week, back to back) count the cell for the trainer
+    if (isRadioColumn(column) && capBreachesById.get(trainer.id)?.has(timeSlot)) return 'error';
+
+    // Rest rules (back to back, gaps, shift edges) are advisory
+    if (isRadioColumn(column) && restBreachesById.get(trainer.id)?.has(timeSlot)) return 'warning';
+
+    // Preference warning (radio channels only). If dispatcher has preferences defined and this slot doesn't match.
+    if (isRadioColumn(column)) {
       const subject = trainer; // evaluate preferences on primary selection
       const hasChannelPrefs = Array.isArray(subject.preferredChannels) && subject.preferredChannels.length > 0;
       const hasTimePrefs = Array.isArray(subject.preferredTimeBlocks) && subject.preferredTimeBlocks.length > 0;
@@ -122,9 +220,7 @@ const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange,
     };
     const isVisibleInDailyCounts = (person: ExtendedDispatcher): boolean => {
       if (person.excludeFromAutoSchedule) return false;
-      const effectiveWorkDays = getEffectiveWorkDays(person);
-      if (!effectiveWorkDays || effectiveWorkDays.length === 0) return true;
-      return effectiveWorkDays.includes(day);
+      return worksOnDay(person, day, getEffectiveWorkDays(person));
     };
     return dispatchers
       .filter((d) => isVisibleInDailyCounts(d))
@@ -145,17 +241,29 @@ const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange,
           </tr>
         </thead>
         <tbody>
-          {timeSlots.map((timeSlot) => (
+          {getTimeSlots().map((timeSlot) => (
             <tr key={timeSlot}>
               <td>{timeSlot}</td>
               {columns.map((column) => {
-                const value = schedule[day][timeSlot][column] || '';
+                const value = schedule[day][timeSlot]?.[column] || '';
                 const status = getCellStatus(timeSlot as TimeSlot, column as Column, value);
                 const disabled = isCellDisabled(day, timeSlot as TimeSlot, column as Column);
                 const dropdownClassName = `${status === 'error' ? 'error' : status === 'warning' ? 'warning' : ''} ${disabled ? 'disabled' : ''}`.trim();
-                const cellClassName = `schedule-cell${disabled ? ' disabled-cell' : ''}`;
+                const locked = isCellLocked(locks, day, timeSlot, column);
+                const previous = changedCells.get(`${timeSlot}|${column}`);
+                const changed = previous !== undefined;
+                const cellClassName = `schedule-cell${disabled ? ' disabled-cell' : ''}${locked ? ' locked-cell' : ''}${changed ? ' changed-cell' : ''}`;
                 return (
-                  <td key={column} className={cellClassName}>
+                  <td
+                    key={column}
+                    className={`${cellClassName}${selection?.slots.includes(timeSlot) && selection.columns.includes(column) ? ' selected-cell' : ''}`}
+                    onClick={(event) => {
+                      // Picking from the open list edits the cell without moving the selection
+                      if ((event.target as HTMLElement).closest('.dropdown-options')) return;
+                      selectCell({ slot: timeSlot, column }, event.shiftKey);
+                    }}
+                    title={changed ? `Was: ${previous || 'empty'}` : undefined}
+                  >
                     <DispatcherDropdown
                       value={value}
                       dispatchers={dispatchers}
@@ -166,6 +274,21 @@ const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange,
                       className={dropdownClassName}
                       disabled={disabled}
                     />
+                    {onToggleLock && !disabled && (
+                      <button
+                        type="button"
+                        className="cell-lock-btn"
+                        aria-label={locked ? 'Unlock cell' : 'Lock cell'}
+                        aria-pressed={locked}
+                        title={locked ? 'Locked: Auto Schedule keeps this cell. Click to unlock.' : 'Lock this cell for Auto Schedule'}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          onToggleLock(day, timeSlot, column);
+                        }}
+                      >
+                        {locked ? '🔒' : '🔓'}
+                      </button>
+                    )}
                   </td>
                 );
               })}
@@ -173,6 +296,37 @@ const ScheduleTable: React.FC<Props> = ({ day, schedule, dispatchers, onChange,
           ))}
         </tbody>
       </table>
+      {selection && onResolveScope && (
+        <div className="selection-actions">
+          <span>
+            Selected: {selection.slots[0]}
+            {selection.slots.length > 1 ? ` to ${selection.slots[selection.slots.length - 1]}` : ''},{' '}
+            {selection.columns.join(', ')}
+            <span className="selection-hint"> (shift-click to extend)</span>
+          </span>
+          <button
+            className="btn-ghost"
+            type="button"
+            disabled={resolving}
+            title="Re-solve only the selected cells; everything else stays as it is"
+            onClick={() => onResolveScope({ days: [day], slots: selection.slots, columns: selection.columns })}
+          >
+            Re-solve selection
+          </button>
+        </div>
+      )}
+      {selectedCell && (
+        <AssignmentTracePanel
+          slot={selectedCell.slot}
+          column={selectedCell.column}
+          value={schedule[day][selectedCell.slot]?.[selectedCell.column] || ''}
+          trace={traces?.get(traceKey(day, selectedCell.slot, selectedCell.column))}
+          onClose={() => {
+            setSelectedCell(null);
+            setSelectionEnd(null);
+          }}
+        />
+      )}
       <div className="daily-counts-summary">
         <strong>Daily Counts</strong>
         <div className="counts-container">
@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import type { Day, Schedule } from '../constants';
+import type { ExtendedDispatcher } from '../appTypes';
+import { buildScorecard } from '../solver/utils/scoreUtils';
+
+interface Props {
+  schedule: Schedule;
+  dispatchers: ExtendedDispatcher[];
+  onSelectDay: (day: Day) => void;
+  onClose: () => void;
+}
+
+const TOP_N_OPTIONS = [1, 2, 3, 5];
+
+const percent = (part: number, whole: number) => (whole === 0 ? '—' : `${Math.round((part / whole) * 100)}%`);
+
+// Quality of the week as it stands; recomputed on every edit so manual changes show their effect
+const ScorecardPanel: React.FC<Props> = ({ schedule, dispatchers, onSelectDay, onClose }) => {
+  const [topN, setTopN] = useState(3);
+  const card = useMemo(() => buildScorecard(schedule, dispatchers, topN), [schedule, dispatchers, topN]);
+
+  const { radio, preferenceMatches, seniorityInversions, slotsPerPerson, ut } = card;
+  const fewest = slotsPerPerson[0];
+  const most = slotsPerPerson[slotsPerPerson.length - 1];
+  const average = slotsPerPerson.length === 0 ? 0 : slotsPerPerson.reduce((sum, p) => sum + p.slots, 0) / slotsPerPerson.length;
+
+  return (
+    <div className="schedule-panel" role="region" aria-label="Schedule scorecard">
+      <div className="schedule-panel-header">
+        <strong>Scorecard</strong>
+        <label className="scorecard-top-n">
+          <span>Preferences counted</span>
+          <select value={topN} onChange={(e) => setTopN(Number(e.target.value))}>
+            {TOP_N_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                Top {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button className="btn-ghost" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="scorecard-metrics">
+        <div className="scorecard-metric">
+          <span>Radio filled</span>
+          <strong>{percent(radio.filled, radio.open)}</strong>
+          <small>
+            {radio.filled} of {radio.open} cells
+          </small>
+        </div>
+        <div className="scorecard-metric">
+          <span>Top-{topN} preferences</span>
+          <strong>{percent(preferenceMatches.matched, preferenceMatches.total)}</strong>
+          <small>
+            {preferenceMatches.matched} of {preferenceMatches.total} assignments
+          </small>
+        </div>
+        <div className={`scorecard-metric${seniorityInversions.length > 0 ? ' warning' : ''}`}>
+          <span>Seniority inversions</span>
+          <strong>{seniorityInversions.length}</strong>
+          <small>junior holds a cell a senior ranked higher</small>
+        </div>
+        <div className="scorecard-metric">
+          <span>Slots per person</span>
+          <strong>{fewest && most ? `${fewest.slots}–${most.slots}` : '—'}</strong>
+          <small>average {average.toFixed(1)}</small>
+        </div>
+        <div className={`scorecard-metric${ut.missing.length > 0 ? ' warning' : ''}`}>
+          <span>UT coverage</span>
+          <strong>{percent(ut.covered, ut.total)}</strong>
+          <small>
+            {ut.covered} of {ut.total} dispatchers
+          </small>
+        </div>
+      </div>
+
+      {(seniorityInversions.length > 0 || ut.missing.length > 0 || slotsPerPerson.length > 0) && (
+        <ul className="report-list">
+          {seniorityInversions.map((inversion) => (
+            <li key={`${inversion.day}|${inversion.slot}|${inversion.col}`}>
+              <button className="btn-ghost" type="button" onClick={() => onSelectDay(inversion.day)}>
+                {inversion.day.slice(0, 3)} {inversion.slot} {inversion.col}
+              </button>
+              <span className="report-locations">
+                {inversion.juniorId} holds it; {inversion.seniorId} ranked it higher
+              </span>
+            </li>
+          ))}
+          {ut.missing.length > 0 && (
+            <li>
+              <strong>No UT</strong>
+              <span className="report-locations">{ut.missing.join(', ')}</span>
+            </li>
+          )}
+          {fewest && most && fewest !== most && (
+            <li>
+              <strong>Radio cells</strong>
+              <span className="report-locations">
+                fewest {fewest.dispatcherId} ({fewest.slots}), most {most.dispatcherId} ({most.slots})
+              </span>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScorecardPanel;
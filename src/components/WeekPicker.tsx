@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { addWeeks, formatWeekLabel, getWeekStart, type WeekStart } from '../utils/weekDates';
+
+interface Props {
+  weekStart: WeekStart;
+  savedWeeks: WeekStart[];
+  disabled?: boolean;
+  onChange: (weekStart: WeekStart) => void;
+  onCopyForward: () => void;
+}
+
+const WeekPicker: React.FC<Props> = ({ weekStart, savedWeeks, disabled, onChange, onCopyForward }) => {
+  const thisWeek = getWeekStart();
+  const previousWeek = addWeeks(weekStart, -1);
+
+  // Current and upcoming weeks are listed first; saved weeks before this one form the archive
+  const { upcoming, archive } = useMemo(() => {
+    const all = new Set([...savedWeeks, weekStart, thisWeek, addWeeks(thisWeek, 1)]);
+    const sorted = [...all].sort();
+    return {
+      upcoming: sorted.filter((w) => w >= thisWeek),
+      archive: sorted.filter((w) => w < thisWeek).reverse(),
+    };
+  }, [savedWeeks, weekStart, thisWeek]);
+
+  const label = (w: WeekStart) => {
+    const base = `Week of ${formatWeekLabel(w)}`;
+    if (w === thisWeek) return `${base} (this week)`;
+    return savedWeeks.includes(w) ? base : `${base} (empty)`;
+  };
+
+  return (
+    <div className="toolbar-group" aria-label="Week selection">
+      <span className="toolbar-group-label">Week</span>
+      <div className="toolbar-buttons">
+        <button
+          className="btn-ghost"
+          type="button"
+          aria-label="Previous week"
+          disabled={disabled}
+          onClick={() => onChange(previousWeek)}
+        >
+          &lsaquo;
+        </button>
+        <select
+          className="toolbar-select"
+          aria-label="Schedule week"
+          disabled={disabled}
+          value={weekStart}
+          onChange={(event) => onChange(event.target.value)}
+        >
+          {upcoming.map((w) => (
+            <option key={w} value={w}>{label(w)}</option>
+          ))}
+          {archive.length > 0 && (
+            <optgroup label="Archive">
+              {archive.map((w) => (
+                <option key={w} value={w}>{label(w)}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          className="btn-ghost"
+          type="button"
+          aria-label="Next week"
+          disabled={disabled}
+          onClick={() => onChange(addWeeks(weekStart, 1))}
+        >
+          &rsaquo;
+        </button>
+        <button
+          className="btn-ghost"
+          type="button"
+          title={`Copy assignments from the week of ${formatWeekLabel(previousWeek)}`}
+          disabled={disabled || !savedWeeks.includes(previousWeek)}
+          onClick={onCopyForward}
+        >
+          Copy Last Week
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WeekPicker;
@@ -0,0 +1,89 @@
+import React from 'react';
+import type { WorkbookImportReport } from '../utils/workbookImport';
+
+interface Props {
+  fileName: string;
+  report: WorkbookImportReport;
+  onClose: () => void;
+}
+
+// Shown after a workbook import: what was read and which entries did not match the configuration
+const WorkbookImportDialog: React.FC<Props> = ({ fileName, report, onClose }) => {
+  const clean =
+    report.unknownNames.length === 0 &&
+    report.unknownChannels.length === 0 &&
+    report.remappedSlots.length === 0 &&
+    report.warnings.length === 0;
+
+  return (
+    <div className="export-dialog-backdrop" role="presentation">
+      <div className="export-dialog report-dialog" role="dialog" aria-label="Workbook import report">
+        <div className="export-dialog-header">
+          <h2>Imported {fileName}</h2>
+          <button aria-label="Close" className="export-dialog-close" type="button" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        <div className="report-summary">
+          {report.filledCells} filled schedule cells were read.
+          {clean ? ' Everything matched the current dispatchers and settings.' : ''}
+        </div>
+
+        {report.unknownNames.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Unknown names ({report.unknownNames.length})</div>
+            <ul className="report-list">
+              {report.unknownNames.map(({ name, locations }) => (
+                <li key={name}>
+                  <strong>{name}</strong>
+                  <span className="report-locations">
+                    {locations.slice(0, 3).join(', ')}
+                    {locations.length > 3 ? ` and ${locations.length - 3} more` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {report.unknownChannels.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Channels not configured</div>
+            <div className="report-locations">
+              {report.unknownChannels.join(', ')}. Their cells are kept and reappear if the channel is added under Settings.
+            </div>
+          </div>
+        )}
+
+        {report.remappedSlots.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Rows not on the current time slot grid</div>
+            <div className="report-locations">
+              {report.remappedSlots.join(', ')} were carried onto the configured rows by time of day.
+            </div>
+          </div>
+        )}
+
+        {report.warnings.length > 0 && (
+          <div className="report-section">
+            <div className="report-title">Warnings</div>
+            <ul className="report-list">
+              {report.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="export-dialog-actions">
+          <button className="btn-primary" type="button" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkbookImportDialog;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { AvailabilityException, AvailabilityExceptionKind, ExtendedDispatcher } from '../../appTypes';
+import { formatDate } from '../../utils/weekDates';
+
+interface Props {
+  dispatcher: ExtendedDispatcher;
+  onUpdate: <K extends keyof ExtendedDispatcher>(field: K, value: ExtendedDispatcher[K]) => void;
+}
+
+const kindLabels: Record<AvailabilityExceptionKind, string> = {
+  leave: 'Leave',
+  partial: 'Partial day',
+  overtime: 'Overtime',
+};
+
+const HHMM = /^\d{4}$/;
+
+const isInvalidTime = (value?: string) => !!value && !HHMM.test(value);
+
+const DispatcherAvailabilitySection: React.FC<Props> = ({ dispatcher, onUpdate }) => {
+  const exceptions = dispatcher.availabilityExceptions ?? [];
+  const today = formatDate();
+  const pastCount = exceptions.filter((e) => e.date < today).length;
+
+  // Rows are listed by date; edits address the stored entry by its index
+  const rows = exceptions
+    .map((exception, index) => ({ exception, index }))
+    .sort((a, b) => a.exception.date.localeCompare(b.exception.date));
+
+  const save = (next: AvailabilityException[]) => {
+    onUpdate('availabilityExceptions', next.length > 0 ? next : undefined);
+  };
+
+  const change = (index: number, patch: Partial<AvailabilityException>) => {
+    save(exceptions.map((e, i) => {
+      if (i !== index) return e;
+      const updated = { ...e, ...patch };
+      // Leave covers the whole day
+      if (updated.kind === 'leave') {
+        delete updated.from;
+        delete updated.to;
+      }
+      return updated;
+    }));
+  };
+
+  return (
+    <div className="dispatcher-availability-section">
+      <div className="section-title">Availability</div>
+
+      {rows.length === 0 ? (
+        <div className="empty-state">No leave or extra days recorded.</div>
+      ) : (
+        <div className="availability-list">
+          {rows.map(({ exception, index }) => (
+            <div key={index} className={`availability-row${exception.date < today ? ' past' : ''}`}>
+              <input
+                type="date"
+                className="profile-input availability-date"
+                aria-label="Date"
+                value={exception.date}
+                onChange={(e) => e.target.value && change(index, { date: e.target.value })}
+              />
+              <select
+                className="profile-select availability-kind"
+                aria-label="Kind"
+                value={exception.kind}
+                onChange={(e) => change(index, { kind: e.target.value as AvailabilityExceptionKind })}
+              >
+                {(Object.keys(kindLabels) as AvailabilityExceptionKind[]).map((kind) => (
+                  <option key={kind} value={kind}>{kindLabels[kind]}</option>
+                ))}
+              </select>
+              <input
+                className={`profile-input availability-time${isInvalidTime(exception.from) ? ' invalid' : ''}`}
+                aria-label="From"
+                placeholder={exception.kind === 'leave' ? '' : 'From'}
+                maxLength={4}
+                disabled={exception.kind === 'leave'}
+                value={exception.from ?? ''}
+                onChange={(e) => change(index, { from: e.target.value.trim() || undefined })}
+              />
+              <input
+                className={`profile-input availability-time${isInvalidTime(exception.to) ? ' invalid' : ''}`}
+                aria-label="To"
+                placeholder={exception.kind === 'leave' ? '' : 'To'}
+                maxLength={4}
+                disabled={exception.kind === 'leave'}
+                value={exception.to ?? ''}
+                onChange={(e) => change(index, { to: e.target.value.trim() || undefined })}
+              />
+              <input
+                className="profile-input availability-note"
+                aria-label="Note"
+                placeholder="Note"
+                value={exception.note ?? ''}
+                onChange={(e) => change(index, { note: e.target.value || undefined })}
+              />
+              <button
+                type="button"
+                className="rank-btn remove"
+                onClick={() => save(exceptions.filter((_, i) => i !== index))}
+                title="Remove"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="availability-hint">
+        Times are HHMM; a partial day or overtime without times covers the whole day.
+      </div>
+
+      <div className="availability-actions">
+        <button
+          type="button"
+          className="add-pill-btn"
+          onClick={() => save([...exceptions, { date: today, kind: 'leave' }])}
+        >
+          Add exception
+        </button>
+        {pastCount > 0 && (
+          <button
+            type="button"
+            className="add-pill-btn"
+            onClick={() => save(exceptions.filter((e) => e.date >= today))}
+          >
+            Remove past ({pastCount})
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DispatcherAvailabilitySection;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { ExtendedDispatcher } from '../../appTypes';
-import { selectableChannels, timeSlots } from '../../constants';
+import { getRadioColumns, getTimeSlots } from '../../constants';
 
 interface Props {
   dispatcher: ExtendedDispatcher;
@@ -24,14 +24,21 @@ const DispatcherPreferencesSection: React.FC<Props> = ({
   onRemoveTimeBlock,
 }) => {
   const preferredChannels = (dispatcher.preferredChannels ?? []).filter((c) => c !== 'RELIEF');
-  const availableChannels = selectableChannels.filter((c) => !preferredChannels.includes(c));
+  const availableChannels = getRadioColumns().filter((c) => !preferredChannels.includes(c));
   const preferredTimeBlocks = dispatcher.preferredTimeBlocks ?? [];
-  const availableTimeBlocks = timeSlots.filter((t) => !preferredTimeBlocks.includes(t));
+  const availableTimeBlocks = getTimeSlots().filter((t) => !preferredTimeBlocks.includes(t));
 
   const togglePref = (field: 'minimumRadioOnly' | 'wantsExtraUtility' | 'excludeFromAutoSchedule') => {
     onUpdate(field, !dispatcher[field]);
   };
 
+  // An empty field removes the cap
+  const radioCaps: Array<{ field: 'maxRadioPerDay' | 'maxRadioPerWeek' | 'maxConsecutiveRadio'; label: string }> = [
+    { field: 'maxRadioPerDay', label: 'Per day' },
+    { field: 'maxRadioPerWeek', label: 'Per week' },
+    { field: 'maxConsecutiveRadio', label: 'Back to back' },
+  ];
+
   return (
     <div className="dispatcher-preferences-section">
       <div className="section-title">Preferences</div>
@@ -132,6 +139,31 @@ const DispatcherPreferencesSection: React.FC<Props> = ({
         )}
       </div>
 
+      <div className="preferences-subsection">
+        <div className="section-subtitle">Radio Caps</div>
+        <div className="radio-cap-grid">
+          {radioCaps.map(({ field, label }) => (
+            <React.Fragment key={field}>
+              <label className="profile-label" htmlFor={`radio-cap-${field}-${dispatcher.id}`}>
+                {label}
+              </label>
+              <input
+                id={`radio-cap-${field}-${dispatcher.id}`}
+                type="number"
+                min={1}
+                placeholder={field === 'maxRadioPerDay' ? (dispatcher.minimumRadioOnly ? '1' : '2 (auto)') : 'No cap'}
+                value={dispatcher[field] ?? ''}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  onUpdate(field, value > 0 ? value : undefined);
+                }}
+                className="profile-input"
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
       <div className="preferences-subsection">
         <div
           className={`pref-toggle${dispatcher.minimumRadioOnly ? ' active' : ''}`}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { ExtendedDispatcher } from '../../appTypes';
+import { getShiftDefinitions } from '../../solver/utils/shiftUtils';
 
 interface Props {
   dispatcher: ExtendedDispatcher;
@@ -7,16 +8,11 @@ interface Props {
   onRemove: () => void;
 }
 
-const shiftOptions = [
-  { value: 'A', label: 'A (0300-1330)' },
-  { value: 'B', label: 'B (0700-1730)' },
-  { value: 'C', label: 'C (1100-2130)' },
-  { value: 'D', label: 'D (1300-2330)' },
-  { value: 'E', label: 'E (1700-0330)' },
-  { value: 'F', label: 'F (2100-0730)' },
-];
-
 const DispatcherProfileSection: React.FC<Props> = ({ dispatcher, onUpdate, onRemove }) => {
+  const shiftOptions = getShiftDefinitions().map((definition) => ({
+    value: definition.letter,
+    label: definition.hours ? `${definition.letter} (${definition.hours})` : definition.letter,
+  }));
   return (
     <div className="dispatcher-profile-section">
       <div className="section-title">Profile</div>
@@ -3,4 +3,5 @@ export { default as DispatcherAddForm } from './DispatcherAddForm';
 export { default as DispatcherListItem } from './DispatcherListItem';
 export { default as DispatcherProfileSection } from './DispatcherProfileSection';
 export { default as DispatcherScheduleSection } from './DispatcherScheduleSection';
+export { default as DispatcherAvailabilitySection } from './DispatcherAvailabilitySection';
 export { default as DispatcherPreferencesSection } from './DispatcherPreferencesSection';
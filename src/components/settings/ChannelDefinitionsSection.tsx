@@ -0,0 +1,207 @@
+import React from 'react';
+import { ChannelClosure, ChannelDefinition, ChannelKind } from '../../appTypes';
+import { days, getTimeSlots, Day, TimeSlot, createDefaultChannelDefinitions } from '../../constants';
+
+interface Props {
+  definitions: ChannelDefinition[];
+  onChange: (definitions: ChannelDefinition[]) => void;
+}
+
+const kindOptions: { value: ChannelKind; label: string }[] = [
+  { value: 'radio', label: 'Radio' },
+  { value: 'utility', label: 'Utility' },
+  { value: 'relief', label: 'Relief' },
+];
+
+// The exported workbook template has room for this many channels in the week view
+const WORKBOOK_CHANNEL_LIMIT = 8;
+
+const toggle = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+
+const ChannelDefinitionsSection: React.FC<Props> = ({ definitions, onChange }) => {
+  const update = (index: number, patch: Partial<ChannelDefinition>) => {
+    onChange(definitions.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= definitions.length) return;
+    const copy = [...definitions];
+    [copy[index], copy[target]] = [copy[target], copy[index]];
+    onChange(copy);
+  };
+
+  const updateClosure = (index: number, closureIndex: number, patch: Partial<ChannelClosure>) => {
+    const closures = definitions[index].closures.map((c, i) => (i === closureIndex ? { ...c, ...patch } : c));
+    update(index, { closures });
+  };
+
+  const addClosure = (index: number) => {
+    update(index, { closures: [...definitions[index].closures, { days: [], slots: [] }] });
+  };
+
+  const removeClosure = (index: number, closureIndex: number) => {
+    update(index, { closures: definitions[index].closures.filter((_, i) => i !== closureIndex) });
+  };
+
+  const addChannel = () => {
+    onChange([...definitions, { name: '', kind: 'radio', assignable: true, closures: [] }]);
+  };
+
+  const removeChannel = (index: number) => {
+    const name = definitions[index]?.name || 'this channel';
+    const confirmed = window.confirm(
+      `Remove ${name}? Its saved assignments are kept and reappear if a channel with the same name is added back.`
+    );
+    if (confirmed) onChange(definitions.filter((_, i) => i !== index));
+  };
+
+  const nameCounts = definitions.reduce<Record<string, number>>((acc, d) => {
+    acc[d.name] = (acc[d.name] || 0) + 1;
+    return acc;
+  }, {});
+  const problems = [
+    ...(definitions.some((d) => !d.name.trim()) ? ['Channels without a name are ignored.'] : []),
+    ...Object.entries(nameCounts)
+      .filter(([name, count]) => name.trim() && count > 1)
+      .map(([name]) => `Channel ${name} is defined more than once; both columns share the same cells.`),
+    ...(definitions.some((d) => d.kind === 'radio' && d.assignable)
+      ? []
+      : ['No radio channel is assignable, so Auto Schedule will not fill any radio cells.']),
+    ...(definitions.length > WORKBOOK_CHANNEL_LIMIT
+      ? [`The Excel workbook template only has room for ${WORKBOOK_CHANNEL_LIMIT} channels; export will fail.`]
+      : []),
+  ];
+
+  return (
+    <div className="settings-section">
+      <div className="settings-section-header">
+        <div className="section-title">Channels</div>
+        <div className="settings-section-actions">
+          <button
+            className="btn-ghost"
+            type="button"
+            onClick={() => {
+              const confirmed = window.confirm('Replace all channel rules with the built-in defaults?');
+              if (confirmed) onChange(createDefaultChannelDefinitions());
+            }}
+          >
+            Reset to defaults
+          </button>
+          <button className="btn-primary" type="button" onClick={addChannel}>
+            Add channel
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-channel-list">
+        {definitions.map((definition, index) => (
+          <div key={index} className="settings-channel">
+            <div className="settings-channel-row">
+              <input
+                className="settings-input settings-input--name"
+                aria-label="Channel name"
+                placeholder="Name"
+                value={definition.name}
+                onChange={(e) => update(index, { name: e.target.value.toUpperCase().trim() })}
+              />
+              <select
+                className="settings-select settings-select--kind"
+                aria-label="Channel kind"
+                value={definition.kind}
+                onChange={(e) => update(index, { kind: e.target.value as ChannelKind })}
+              >
+                {kindOptions.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+              <label className="checkbox-row settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={definition.assignable}
+                  disabled={definition.kind === 'relief'}
+                  onChange={(e) => update(index, { assignable: e.target.checked })}
+                />
+                Auto Schedule fills
+              </label>
+              <div className="settings-channel-actions">
+                <button className="rank-btn" type="button" title="Move left" disabled={index === 0} onClick={() => move(index, -1)}>
+                  ↑
+                </button>
+                <button
+                  className="rank-btn"
+                  type="button"
+                  title="Move right"
+                  disabled={index === definitions.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  ↓
+                </button>
+                <button className="btn-ghost" type="button" onClick={() => addClosure(index)}>
+                  Add closure
+                </button>
+                <button className="rank-btn remove" type="button" title="Remove" onClick={() => removeChannel(index)}>
+                  ×
+                </button>
+              </div>
+            </div>
+
+            {definition.closures.map((closure, closureIndex) => (
+              <div key={closureIndex} className="settings-closure">
+                <span className="settings-closure-label">Closed</span>
+                <div className="settings-chip-row" aria-label="Closure days">
+                  {days.map((d: Day) => (
+                    <button
+                      key={d}
+                      type="button"
+                      className={`settings-chip${closure.days.includes(d) ? ' active' : ''}`}
+                      onClick={() => updateClosure(index, closureIndex, { days: toggle(closure.days, d) })}
+                    >
+                      {d.slice(0, 3)}
+                    </button>
+                  ))}
+                </div>
+                <div className="settings-chip-row" aria-label="Closure time slots">
+                  {getTimeSlots().map((t: TimeSlot) => (
+                    <button
+                      key={t}
+                      type="button"
+                      className={`settings-chip${closure.slots.includes(t) ? ' active' : ''}`}
+                      onClick={() => updateClosure(index, closureIndex, { slots: toggle(closure.slots, t) })}
+                    >
+                      {t.slice(0, 4)}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  className="rank-btn remove"
+                  type="button"
+                  title="Remove closure"
+                  onClick={() => removeClosure(index, closureIndex)}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {problems.length > 0 && (
+        <div className="settings-problems" role="alert">
+          {problems.map((p) => (
+            <div key={p}>{p}</div>
+          ))}
+        </div>
+      )}
+      <div className="settings-hint">
+        Radio channels are filled by the daily passes and offered as preferences; utility channels count toward each
+        dispatcher&apos;s weekly UT; relief channels are only filled by hand. A closure with no days selected applies to
+        every day, and one with no slots selected closes the whole day.
+      </div>
+    </div>
+  );
+};
+
+export default ChannelDefinitionsSection;
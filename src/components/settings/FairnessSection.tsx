@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { ExtendedDispatcher, FairnessLedger, FairnessSettings } from '../../appTypes';
+import { createEmptyTally, summarizeLedger } from '../../solver/utils/fairnessUtils';
+import { formatWeekLabel, type WeekStart } from '../../utils/weekDates';
+
+interface Props {
+  settings: FairnessSettings;
+  onChange: (settings: FairnessSettings) => void;
+  ledger: FairnessLedger;
+  onClearLedger: () => void;
+  weekStart: WeekStart;
+  dispatchers: ExtendedDispatcher[];
+}
+
+const windowOptions = [4, 8, 12, 26, 52];
+
+const FairnessSection: React.FC<Props> = ({ settings, onChange, ledger, onClearLedger, weekStart, dispatchers }) => {
+  const finalizedWeeks = Object.keys(ledger.weeks).sort();
+  const summaries = useMemo(
+    () => summarizeLedger(ledger, weekStart, settings.windowWeeks),
+    [ledger, weekStart, settings.windowWeeks]
+  );
+
+  const rows = dispatchers
+    .filter((d) => !(d.isTrainee || d.traineeOf))
+    .map((d) => ({ dispatcher: d, summary: summaries[d.id] ?? { ...createEmptyTally(), weeks: 0 } }))
+    .sort((a, b) => (a.dispatcher.seniority ?? 0) - (b.dispatcher.seniority ?? 0));
+
+  return (
+    <div className="settings-section">
+      <div className="settings-section-header">
+        <div className="section-title">Fairness</div>
+        <div className="settings-section-actions">
+          <button
+            className="btn-ghost"
+            type="button"
+            disabled={finalizedWeeks.length === 0}
+            onClick={() => {
+              const confirmed = window.confirm(`Clear the ${finalizedWeeks.length} finalized week(s) from the fairness ledger?`);
+              if (confirmed) onClearLedger();
+            }}
+          >
+            Clear ledger
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-grid-row">
+        <label className="settings-field">
+          <span>Fairness weight ({Math.round(settings.weight * 100)}%)</span>
+          <input
+            type="range"
+            aria-label="Fairness weight"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(settings.weight * 100)}
+            onChange={(e) => onChange({ ...settings, weight: Number(e.target.value) / 100 })}
+          />
+        </label>
+        <label className="settings-field">
+          <span>Rolling window</span>
+          <select
+            className="settings-select"
+            aria-label="Rolling window"
+            value={settings.windowWeeks}
+            onChange={(e) => onChange({ ...settings, windowWeeks: Number(e.target.value) })}
+          >
+            {windowOptions.map((weeks) => (
+              <option key={weeks} value={weeks}>{weeks} weeks</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="settings-hint">
+        At 0% dispatchers pick by seniority. Higher weights let dispatchers with fewer preference hits and more
+        undesirable slots (time blocks nobody prefers) over the window pick earlier. Weeks enter the ledger when
+        they are finalized.
+      </div>
+
+      {finalizedWeeks.length === 0 ? (
+        <div className="settings-muted">No finalized weeks yet.</div>
+      ) : (
+        <>
+          <div className="settings-hint">
+            {finalizedWeeks.length} finalized week(s), from {formatWeekLabel(finalizedWeeks[0])} to{' '}
+            {formatWeekLabel(finalizedWeeks[finalizedWeeks.length - 1])}. Totals below cover the {settings.windowWeeks}{' '}
+            weeks before the week of {formatWeekLabel(weekStart)}.
+          </div>
+          <table className="settings-table">
+            <thead>
+              <tr>
+                <th>Dispatcher</th>
+                <th>Weeks</th>
+                <th>Radio</th>
+                <th>UT</th>
+                <th>Preference hits</th>
+                <th>Undesirable</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ dispatcher, summary }) => (
+                <tr key={dispatcher.id}>
+                  <td>{dispatcher.id}</td>
+                  <td>{summary.weeks}</td>
+                  <td>{summary.radio}</td>
+                  <td>{summary.utility}</td>
+                  <td>{summary.preferenceHits}</td>
+                  <td>{summary.undesirable}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FairnessSection;
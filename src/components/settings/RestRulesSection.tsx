@@ -0,0 +1,75 @@
+import React from 'react';
+import { RadioRestRules } from '../../appTypes';
+import { DEFAULT_REST_RULES } from '../../solver/utils/restRuleUtils';
+
+interface Props {
+  rules: RadioRestRules;
+  onChange: (rules: RadioRestRules) => void;
+}
+
+// Empty or invalid input switches the rule off
+const toCount = (value: string) => {
+  const parsed = Math.round(Number(value));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const RestRulesSection: React.FC<Props> = ({ rules, onChange }) => {
+  return (
+    <div className="settings-section">
+      <div className="settings-section-header">
+        <div className="section-title">Radio Rest Rules</div>
+        <div className="settings-section-actions">
+          <button className="btn-ghost" type="button" onClick={() => onChange({ ...DEFAULT_REST_RULES })}>
+            Defaults
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-grid-row">
+        <label className="settings-field">
+          <span>Most radio slots in a row</span>
+          <input
+            className="settings-input"
+            type="number"
+            aria-label="Most radio slots in a row"
+            min={0}
+            placeholder="No limit"
+            value={rules.maxConsecutive || ''}
+            onChange={(e) => onChange({ ...rules, maxConsecutive: toCount(e.target.value) })}
+          />
+        </label>
+        <label className="settings-field">
+          <span>Free slots between radio runs</span>
+          <input
+            className="settings-input"
+            type="number"
+            aria-label="Free slots between radio runs"
+            min={0}
+            placeholder="None required"
+            value={rules.minGap || ''}
+            onChange={(e) => onChange({ ...rules, minGap: toCount(e.target.value) })}
+          />
+        </label>
+        <label className="settings-field">
+          <span>Shift edges</span>
+          <span>
+            <input
+              type="checkbox"
+              aria-label="No radio in the first or last slot of a shift"
+              checked={rules.avoidShiftEdges}
+              onChange={(e) => onChange({ ...rules, avoidShiftEdges: e.target.checked })}
+            />{' '}
+            No radio in the first or last slot of a shift
+          </span>
+        </label>
+      </div>
+
+      <div className="settings-hint">
+        Apply to every dispatcher on top of their own radio caps. Auto Schedule keeps to them, counting across
+        midnight for overnight shifts; cells that break them are marked as warnings in the schedule.
+      </div>
+    </div>
+  );
+};
+
+export default RestRulesSection;
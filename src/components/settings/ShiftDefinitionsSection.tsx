@@ -0,0 +1,176 @@
+import React from 'react';
+import { ExtendedDispatcher, ShiftDefinition } from '../../appTypes';
+import { getTimeSlots, TimeSlot } from '../../constants';
+import { DEFAULT_SHIFT_DEFINITIONS, expandShiftSlots, remapShiftDefinitions } from '../../solver/utils/shiftUtils';
+
+interface Props {
+  definitions: ShiftDefinition[];
+  dispatchers: ExtendedDispatcher[];
+  onChange: (definitions: ShiftDefinition[]) => void;
+}
+
+const ShiftDefinitionsSection: React.FC<Props> = ({ definitions, dispatchers, onChange }) => {
+  const update = <K extends keyof ShiftDefinition>(index: number, field: K, value: ShiftDefinition[K]) => {
+    const copy = definitions.map((d, i) => (i === index ? { ...d, [field]: value } : d));
+    onChange(copy);
+  };
+
+  const addShift = () => {
+    const used = new Set(definitions.map((d) => d.letter));
+    const letter = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('').find((l) => !used.has(l)) ?? '';
+    onChange([
+      ...definitions,
+      {
+        letter,
+        hours: '',
+        startSlot: getTimeSlots()[0],
+        endSlot: getTimeSlots()[Math.min(4, getTimeSlots().length - 1)],
+        spillover: false,
+        showInRoster: true,
+      },
+    ]);
+  };
+
+  const removeShift = (index: number) => {
+    const letter = definitions[index]?.letter;
+    const assigned = dispatchers.filter((d) => d.shift === letter).length;
+    if (assigned > 0) {
+      const confirmed = window.confirm(
+        `${assigned} dispatcher(s) are assigned to shift ${letter}. Remove it anyway?`
+      );
+      if (!confirmed) return;
+    }
+    onChange(definitions.filter((_, i) => i !== index));
+  };
+
+  const letterCounts = definitions.reduce<Record<string, number>>((acc, d) => {
+    acc[d.letter] = (acc[d.letter] || 0) + 1;
+    return acc;
+  }, {});
+  const problems = [
+    ...(definitions.some((d) => !d.letter.trim()) ? ['Every shift needs a letter.'] : []),
+    ...Object.entries(letterCounts)
+      .filter(([letter, count]) => letter.trim() && count > 1)
+      .map(([letter]) => `Shift ${letter} is defined more than once; only the first definition is used.`),
+  ];
+
+  return (
+    <div className="settings-section">
+      <div className="settings-section-header">
+        <div className="section-title">Shifts</div>
+        <div className="settings-section-actions">
+          <button
+            className="btn-ghost"
+            type="button"
+            onClick={() => {
+              const confirmed = window.confirm('Replace all shift definitions with the built-in defaults?');
+              if (confirmed) onChange(remapShiftDefinitions([...DEFAULT_SHIFT_DEFINITIONS]));
+            }}
+          >
+            Reset to defaults
+          </button>
+          <button className="btn-primary" type="button" onClick={addShift}>
+            Add shift
+          </button>
+        </div>
+      </div>
+
+      <table className="settings-table">
+        <thead>
+          <tr>
+            <th>Shift</th>
+            <th>Hours</th>
+            <th>First slot</th>
+            <th>Last slot</th>
+            <th>Slots</th>
+            <th>Overnight spillover</th>
+            <th>Detail roster</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {definitions.map((definition, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  className="settings-input settings-input--short"
+                  aria-label="Shift letter"
+                  value={definition.letter}
+                  onChange={(e) => update(index, 'letter', e.target.value.toUpperCase().trim())}
+                />
+              </td>
+              <td>
+                <input
+                  className="settings-input"
+                  aria-label="Shift hours"
+                  placeholder="0300-1330"
+                  value={definition.hours ?? ''}
+                  onChange={(e) => update(index, 'hours', e.target.value)}
+                />
+              </td>
+              <td>
+                <select
+                  className="settings-select"
+                  aria-label="First slot"
+                  value={definition.startSlot}
+                  onChange={(e) => update(index, 'startSlot', e.target.value as TimeSlot)}
+                >
+                  {getTimeSlots().map((slot) => (
+                    <option key={slot} value={slot}>{slot}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <select
+                  className="settings-select"
+                  aria-label="Last slot"
+                  value={definition.endSlot}
+                  onChange={(e) => update(index, 'endSlot', e.target.value as TimeSlot)}
+                >
+                  {getTimeSlots().map((slot) => (
+                    <option key={slot} value={slot}>{slot}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="settings-muted">{expandShiftSlots(definition).length}</td>
+              <td>
+                <input
+                  type="checkbox"
+                  aria-label="Overnight spillover"
+                  checked={definition.spillover}
+                  onChange={(e) => update(index, 'spillover', e.target.checked)}
+                />
+              </td>
+              <td>
+                <input
+                  type="checkbox"
+                  aria-label="Show in detail roster"
+                  checked={definition.showInRoster}
+                  onChange={(e) => update(index, 'showInRoster', e.target.checked)}
+                />
+              </td>
+              <td>
+                <button className="rank-btn remove" type="button" title="Remove" onClick={() => removeShift(index)}>
+                  ×
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {problems.length > 0 && (
+        <div className="settings-problems" role="alert">
+          {problems.map((p) => (
+            <div key={p}>{p}</div>
+          ))}
+        </div>
+      )}
+      <div className="settings-hint">
+        Overnight spillover lets a dispatcher work the post-midnight slots of this shift on the day after a listed work day.
+      </div>
+    </div>
+  );
+};
+
+export default ShiftDefinitionsSection;
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TimeSlotGrid } from '../../appTypes';
+import { DEFAULT_TIME_SLOT_GRID, buildTimeSlots, isValidTimeSlotGrid } from '../../constants';
+
+interface Props {
+  grid: TimeSlotGrid;
+  onChange: (grid: TimeSlotGrid) => void;
+}
+
+const lengthOptions = [60, 90, 120, 180, 240];
+
+const TimeSlotGridSection: React.FC<Props> = ({ grid, onChange }) => {
+  // Edits are staged locally: applying a new grid migrates the schedule and slot-based settings
+  const [draft, setDraft] = useState<TimeSlotGrid>(grid);
+  useEffect(() => setDraft(grid), [grid]);
+
+  const valid = isValidTimeSlotGrid(draft);
+  const preview = useMemo(() => (valid ? buildTimeSlots(draft) : []), [draft, valid]);
+  const dirty =
+    draft.dayStart !== grid.dayStart || draft.slotMinutes !== grid.slotMinutes || draft.slotCount !== grid.slotCount;
+
+  const apply = () => {
+    if (!valid) return;
+    const confirmed = window.confirm(
+      'Change the time slot grid? The current schedule, shift ranges, channel closures and time preferences ' +
+        'are moved onto the new rows by time of day. Undo history is cleared.'
+    );
+    if (confirmed) onChange({ ...draft });
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="settings-section-header">
+        <div className="section-title">Time Slots</div>
+        <div className="settings-section-actions">
+          <button className="btn-ghost" type="button" onClick={() => setDraft({ ...DEFAULT_TIME_SLOT_GRID })}>
+            Defaults
+          </button>
+          <button className="btn-primary" type="button" disabled={!valid || !dirty} onClick={apply}>
+            Apply
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-grid-row">
+        <label className="settings-field">
+          <span>Day starts at</span>
+          <input
+            className="settings-input"
+            aria-label="Day start"
+            placeholder="0330"
+            maxLength={4}
+            value={draft.dayStart}
+            onChange={(e) => setDraft({ ...draft, dayStart: e.target.value.replace(/\D+/g, '') })}
+          />
+        </label>
+        <label className="settings-field">
+          <span>Slot length</span>
+          <select
+            className="settings-select"
+            aria-label="Slot length"
+            value={draft.slotMinutes}
+            onChange={(e) => {
+              const slotMinutes = Number(e.target.value);
+              setDraft({ ...draft, slotMinutes, slotCount: Math.floor((24 * 60) / slotMinutes) });
+            }}
+          >
+            {lengthOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-field">
+          <span>Slots per day</span>
+          <input
+            className="settings-input"
+            type="number"
+            aria-label="Slots per day"
+            min={1}
+            value={draft.slotCount}
+            onChange={(e) => setDraft({ ...draft, slotCount: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      {valid ? (
+        <div className="settings-chip-row" aria-label="Slot preview">
+          {preview.map((slot) => (
+            <span key={slot} className="settings-chip settings-chip--static">{slot}</span>
+          ))}
+        </div>
+      ) : (
+        <div className="settings-problems" role="alert">
+          Enter a day start as HHMM and a slot count whose slots fit within 24 hours.
+        </div>
+      )}
+      <div className="settings-hint">
+        The Excel workbook template is laid out for twelve slots per day; with more rows each day's block in the
+        exported week view, and everything below the grid on the detail sheets, moves down to make room.
+      </div>
+    </div>
+  );
+};
+
+export default TimeSlotGridSection;
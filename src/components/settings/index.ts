@@ -0,0 +1,5 @@
+export { default as ShiftDefinitionsSection } from './ShiftDefinitionsSection';
+export { default as ChannelDefinitionsSection } from './ChannelDefinitionsSection';
+export { default as TimeSlotGridSection } from './TimeSlotGridSection';
+export { default as FairnessSection } from './FairnessSection';
+export { default as RestRulesSection } from './RestRulesSection';
@@ -1,3 +1,5 @@
+import type { ChannelDefinition, TimeSlotGrid } from './appTypes';
+
 export const days = [
   'Monday',
   'Tuesday',
@@ -8,45 +10,11 @@ export const days = [
   'Sunday',
 ] as const;
 
-export const timeSlots = [
-  '0330-0530',
-  '0530-0730',
-  '0730-0930',
-  '0930-1130',
-  '1130-1330',
-  '1330-1530',
-  '1530-1730',
-  '1730-1930',
-  '1930-2130',
-  '2130-2330',
-  '2330-0130',
-  '0130-0330',
-] as const;
-
-export const columns = [
-  'SW',
-  'CE',
-  'SE',
-  'NE',
-  'NW',
-  'MT',
-  'UT',
-  'RELIEF',
-] as const;
-
-// Selectable channels for preferences (exclude UT and RELIEF from preferences)
-export const selectableChannels = [
-  'SW',
-  'CE',
-  'SE',
-  'NE',
-  'NW',
-  'MT',
-] as const;
-
 export type Day = typeof days[number];
-export type TimeSlot = typeof timeSlots[number];
-export type Column = typeof columns[number];
+/** Time slot label, e.g. "0330-0530" */
+export type TimeSlot = string;
+/** Channel name as shown in the schedule header (e.g. SW, MT, UT) */
+export type Column = string;
 
 export type Schedule = {
   [D in Day]: {
@@ -56,26 +24,235 @@ export type Schedule = {
   };
 };
 
+/** Locked cells of a week, listed per day and timeslot; Auto Schedule keeps them as they are */
+export type ScheduleLocks = {
+  [D in Day]?: {
+    [T in TimeSlot]?: Column[];
+  };
+};
+
+/** Cells a scoped Auto Schedule run may change; an omitted list covers every day, timeslot or channel */
+export interface ScheduleScope {
+  days?: Day[];
+  slots?: TimeSlot[];
+  columns?: Column[];
+}
+
+/**
+ * Built-in slot grid: twelve two-hour rotations starting at 0330.
+ */
+export const DEFAULT_TIME_SLOT_GRID: Readonly<TimeSlotGrid> = { dayStart: '0330', slotMinutes: 120, slotCount: 12 };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const parseHhmm = (value: string): number => {
+  const hours = parseInt(value.slice(0, 2), 10);
+  const minutes = parseInt(value.slice(2, 4), 10);
+  return hours * 60 + minutes;
+};
+
+const formatHhmm = (minutes: number): string => {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  return `${String(hours).padStart(2, '0')}${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+/**
+ * True if the grid has a valid HHMM day start and its slots fit within 24 hours.
+ */
+export function isValidTimeSlotGrid(grid: TimeSlotGrid): boolean {
+  if (!/^\d{4}$/.test(grid.dayStart)) return false;
+  if (parseInt(grid.dayStart.slice(0, 2), 10) > 23 || parseInt(grid.dayStart.slice(2, 4), 10) > 59) return false;
+  if (!Number.isInteger(grid.slotMinutes) || grid.slotMinutes < 15) return false;
+  if (!Number.isInteger(grid.slotCount) || grid.slotCount < 1) return false;
+  return grid.slotMinutes * grid.slotCount <= MINUTES_PER_DAY;
+}
+
+/**
+ * Builds the slot labels for a grid ("HHMM-HHMM", wrapping past midnight).
+ */
+export function buildTimeSlots(grid: TimeSlotGrid): TimeSlot[] {
+  const start = parseHhmm(grid.dayStart);
+  return Array.from({ length: grid.slotCount }, (_, i) => {
+    const from = start + i * grid.slotMinutes;
+    return `${formatHhmm(from)}-${formatHhmm(from + grid.slotMinutes)}`;
+  });
+}
+
+// Active slot grid; replaced wholesale by applyTimeSlotGrid
+let activeGrid: TimeSlotGrid = { ...DEFAULT_TIME_SLOT_GRID };
+let activeTimeSlots: TimeSlot[] = buildTimeSlots(activeGrid);
+
+/**
+ * Replace the active slot grid used by the schedule, solver and exports.
+ */
+export function applyTimeSlotGrid(grid: TimeSlotGrid): void {
+  activeGrid = { ...grid };
+  activeTimeSlots = buildTimeSlots(activeGrid);
+}
+
+export function getTimeSlotGrid(): TimeSlotGrid {
+  return activeGrid;
+}
+
+/** Rows of the day grid in display order */
+export function getTimeSlots(): TimeSlot[] {
+  return activeTimeSlots;
+}
+
+/** Start of a slot label in minutes after midnight */
+export function slotStartMinutes(slot: TimeSlot): number {
+  return parseHhmm(slot.slice(0, 4));
+}
+
+/** End of a slot label in minutes after midnight */
+export function slotEndMinutes(slot: TimeSlot): number {
+  return parseHhmm(slot.slice(5, 9));
+}
+
+/** True if the clock time (minutes after midnight) falls inside the slot, honoring wrap past midnight */
+export function slotContainsMinute(slot: TimeSlot, minute: number): boolean {
+  const start = slotStartMinutes(slot);
+  const length = (slotEndMinutes(slot) - start + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  return (minute - start + MINUTES_PER_DAY) % MINUTES_PER_DAY < length;
+}
+
+/**
+ * Rows of the active grid lying entirely inside a clock window (HHMM to HHMM, wrapping past
+ * midnight when `to` is not after `from`), in grid order.
+ */
+export function slotsWithinWindow(from: string, to: string): TimeSlot[] {
+  const start = parseHhmm(from);
+  const length = (parseHhmm(to) - start + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  return activeTimeSlots.filter((slot) => {
+    const offset = (slotStartMinutes(slot) - start + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    return offset + activeGrid.slotMinutes <= length;
+  });
+}
+
 /**
- * Business rule: Disable MT assignments during specific time ranges
- * - Mon-Fri: no MT at 0330-0530 or 0530-0730
- * - Sat-Sun: no MT from 0330 through 1530 start, i.e. disable up to and including 1330-1530
+ * True if a row of the active grid ends after midnight, i.e. it is worked on the next
+ * calendar day relative to the displayed day (2330-0130 and 0130-0330 by default).
  */
-const WEEKDAY_MT_DISABLED: ReadonlyArray<TimeSlot> = ['0330-0530', '0530-0730'];
-const WEEKEND_MT_DISABLED: ReadonlyArray<TimeSlot> = [
-  '0330-0530',
-  '0530-0730',
-  '0730-0930',
-  '0930-1130',
-  '1130-1330',
-  '1330-1530',
+export function isNextDaySlot(slot: TimeSlot): boolean {
+  const index = activeTimeSlots.indexOf(slot);
+  if (index === -1) return false;
+  const end = parseHhmm(activeGrid.dayStart) + (index + 1) * activeGrid.slotMinutes;
+  return end > MINUTES_PER_DAY;
+}
+
+/**
+ * Maps a slot label from another grid onto the active grid: the row containing its start
+ * time, or for `edge: 'end'` the row containing its last minute.
+ */
+export function remapTimeSlot(slot: TimeSlot, edge: 'start' | 'end' = 'start'): TimeSlot | undefined {
+  if (activeTimeSlots.includes(slot)) return slot;
+  const minute = edge === 'start' ? slotStartMinutes(slot) : (slotEndMinutes(slot) + MINUTES_PER_DAY - 1) % MINUTES_PER_DAY;
+  return activeTimeSlots.find((t) => slotContainsMinute(t, minute));
+}
+
+/**
+ * Maps a set of slot labels from another grid onto the active grid: every row whose start
+ * time falls inside one of the given slots, in grid order.
+ */
+export function remapTimeSlotSet(slots: TimeSlot[]): TimeSlot[] {
+  return activeTimeSlots.filter((t) =>
+    slots.includes(t) || slots.some((old) => slotContainsMinute(old, slotStartMinutes(t)))
+  );
+}
+
+/**
+ * Built-in channel set. MT is closed on weekday mornings (0330-0730) and on weekend
+ * mornings through the 1330-1530 block; RELIEF is filled by hand only.
+ */
+export const DEFAULT_CHANNEL_DEFINITIONS: ReadonlyArray<ChannelDefinition> = [
+  { name: 'SW', kind: 'radio', assignable: true, closures: [] },
+  { name: 'CE', kind: 'radio', assignable: true, closures: [] },
+  { name: 'SE', kind: 'radio', assignable: true, closures: [] },
+  { name: 'NE', kind: 'radio', assignable: true, closures: [] },
+  { name: 'NW', kind: 'radio', assignable: true, closures: [] },
+  {
+    name: 'MT',
+    kind: 'radio',
+    assignable: true,
+    closures: [
+      { days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'], slots: ['0330-0530', '0530-0730'] },
+      {
+        days: ['Saturday', 'Sunday'],
+        slots: ['0330-0530', '0530-0730', '0730-0930', '0930-1130', '1130-1330', '1330-1530'],
+      },
+    ],
+  },
+  { name: 'UT', kind: 'utility', assignable: true, closures: [] },
+  { name: 'RELIEF', kind: 'relief', assignable: false, closures: [] },
 ];
 
+/**
+ * Fresh copy of the built-in channel set with its closures moved onto the active slot grid.
+ */
+export function createDefaultChannelDefinitions(): ChannelDefinition[] {
+  return DEFAULT_CHANNEL_DEFINITIONS.map((c) => ({
+    ...c,
+    closures: c.closures.map((cl) => ({ days: [...cl.days], slots: remapTimeSlotSet(cl.slots) })),
+  }));
+}
+
+// Active channel set; replaced wholesale by applyChannelDefinitions
+let activeChannels: ChannelDefinition[] = [...DEFAULT_CHANNEL_DEFINITIONS];
+
+/**
+ * Replace the active channel set used by the schedule grid, solver and exports.
+ */
+export function applyChannelDefinitions(definitions: ChannelDefinition[]): void {
+  activeChannels = definitions.filter((d) => d.name.trim().length > 0);
+}
+
+export function getChannelDefinitions(): ChannelDefinition[] {
+  return activeChannels;
+}
+
+/** All channel names in display order */
+export function getColumns(): Column[] {
+  return activeChannels.map((c) => c.name);
+}
+
+/** Radio channels (the ones dispatchers can state preferences for) */
+export function getRadioColumns(): Column[] {
+  return activeChannels.filter((c) => c.kind === 'radio').map((c) => c.name);
+}
+
+/** Radio channels the auto-scheduler may fill */
+export function getAssignableRadioColumns(): Column[] {
+  return activeChannels.filter((c) => c.kind === 'radio' && c.assignable).map((c) => c.name);
+}
+
+/** Utility channels; counted toward each dispatcher's weekly UT requirement */
+export function getUtilityColumns(): Column[] {
+  return activeChannels.filter((c) => c.kind === 'utility').map((c) => c.name);
+}
+
+/** Utility channels the auto-scheduler may fill */
+export function getAssignableUtilityColumns(): Column[] {
+  return activeChannels.filter((c) => c.kind === 'utility' && c.assignable).map((c) => c.name);
+}
+
+export function isRadioColumn(column: Column): boolean {
+  return activeChannels.some((c) => c.name === column && c.kind === 'radio');
+}
+
+export function isUtilityColumn(column: Column): boolean {
+  return activeChannels.some((c) => c.name === column && c.kind === 'utility');
+}
+
 /**
  * Returns true if a given cell should be disabled (unassignable) in the UI and auto-scheduler.
+ * A closure with an empty day or slot list applies to every day or slot respectively.
  */
 export function isCellDisabled(day: Day, slot: TimeSlot, column: Column): boolean {
-  if (column !== 'MT') return false;
-  const isWeekend = day === 'Saturday' || day === 'Sunday';
-  return isWeekend ? WEEKEND_MT_DISABLED.includes(slot) : WEEKDAY_MT_DISABLED.includes(slot);
+  const channel = activeChannels.find((c) => c.name === column);
+  if (!channel) return false;
+  return channel.closures.some((closure) =>
+    (closure.days.length === 0 || closure.days.includes(day)) &&
+    (closure.slots.length === 0 || closure.slots.includes(slot))
+  );
 }
@@ -0,0 +1,95 @@
+import { days, Day, Schedule, ScheduleLocks } from './constants';
+import type { Dispatcher } from './appTypes';
+import type { DailyDetailDoc } from './appStorage';
+import { isWeekStart, type WeekStart } from './utils/weekDates';
+
+// A schedule project (.rsched) bundles one week with everything needed to reopen it elsewhere
+export const PROJECT_FILE_EXTENSION = 'rsched';
+export const PROJECT_FILE_FORMAT = 'radio-scheduler-project';
+export const PROJECT_FILE_VERSION = 1;
+
+export interface ScheduleProjectMetadata {
+  title: string;
+  weekStart: WeekStart;
+  // Stamped by the main process when the file is written
+  appVersion?: string;
+  savedAt?: string;
+}
+
+export interface ScheduleProject {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  metadata: ScheduleProjectMetadata;
+  schedule: Schedule;
+  // Cells Auto Schedule keeps; missing in projects saved before locks existed
+  locks: ScheduleLocks;
+  dailyDetails: Partial<Record<Day, DailyDetailDoc>>;
+  dispatchers: Dispatcher[];
+}
+
+export function buildScheduleProject(
+  metadata: ScheduleProjectMetadata,
+  schedule: Schedule,
+  locks: ScheduleLocks,
+  dailyDetails: Partial<Record<Day, DailyDetailDoc>>,
+  dispatchers: Dispatcher[]
+): ScheduleProject {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    metadata,
+    schedule,
+    locks,
+    dailyDetails,
+    dispatchers,
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validates the parsed contents of a project file. Throws with a message suitable for
+ * showing to the user when the file is not a project this version can open.
+ */
+export function parseScheduleProject(raw: unknown): ScheduleProject {
+  if (!isRecord(raw) || raw.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('The file is not a Radio Scheduler project.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_FILE_VERSION) {
+    throw new Error('The project was saved by a newer version of Radio Scheduler. Update the app to open it.');
+  }
+
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {};
+  if (!isWeekStart(metadata.weekStart)) {
+    throw new Error('The project does not record which week it belongs to.');
+  }
+
+  const schedule = raw.schedule;
+  if (!isRecord(schedule) || !days.every((d) => isRecord(schedule[d]))) {
+    throw new Error('The project does not contain a complete weekly schedule.');
+  }
+
+  const dailyDetails: Partial<Record<Day, DailyDetailDoc>> = {};
+  if (isRecord(raw.dailyDetails)) {
+    const details = raw.dailyDetails;
+    days.forEach((d) => {
+      if (isRecord(details[d])) dailyDetails[d] = details[d] as unknown as DailyDetailDoc;
+    });
+  }
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: raw.version,
+    metadata: {
+      title: typeof metadata.title === 'string' ? metadata.title : '',
+      weekStart: metadata.weekStart,
+      appVersion: typeof metadata.appVersion === 'string' ? metadata.appVersion : undefined,
+      savedAt: typeof metadata.savedAt === 'string' ? metadata.savedAt : undefined,
+    },
+    schedule: schedule as unknown as Schedule,
+    locks: isRecord(raw.locks) ? (raw.locks as ScheduleLocks) : {},
+    dailyDetails,
+    dispatchers: Array.isArray(raw.dispatchers) ? (raw.dispatchers as Dispatcher[]) : [],
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getWeekWorkDays, isSlotAvailable, resolveWeekAvailability, worksOnDay } from '../utils/availabilityUtils';
+import { makeDispatcher } from './fixtures';
+
+// Monday of the week the exceptions fall in
+const WEEK = '2026-10-19';
+
+describe('resolveWeekAvailability', () => {
+  it('lets leave win over other exceptions on the same date', () => {
+    const [resolved] = resolveWeekAvailability(
+      [makeDispatcher('LEAV', { shift: 'B', workDays: ['Monday'], availabilityExceptions: [
+        { date: '2026-10-19', kind: 'partial', from: '0730', to: '1130' },
+        { date: '2026-10-19', kind: 'leave' },
+      ] })],
+      WEEK
+    );
+    expect(resolved.weekAvailability).toEqual({ Monday: { off: true, extraDay: false } });
+    expect(worksOnDay(resolved, 'Monday')).toBe(false);
+    expect(isSlotAvailable(resolved, 'Monday', '0730-0930')).toBe(false);
+  });
+
+  it('adds up the windows of several exceptions on a date', () => {
+    const [resolved] = resolveWeekAvailability(
+      [makeDispatcher('PART', { shift: 'B', workDays: ['Tuesday'], availabilityExceptions: [
+        { date: '2026-10-20', kind: 'partial', from: '0730', to: '0930' },
+        { date: '2026-10-20', kind: 'partial', from: '1330', to: '1730' },
+      ] })],
+      WEEK
+    );
+    expect(resolved.weekAvailability?.Tuesday?.slots?.sort()).toEqual(['0730-0930', '1330-1530', '1530-1730']);
+    expect(isSlotAvailable(resolved, 'Tuesday', '0930-1130')).toBe(false);
+    expect(isSlotAvailable(resolved, 'Wednesday', '0930-1130')).toBe(true);
+  });
+
+  it('adds an overtime day to the work days', () => {
+    const [resolved] = resolveWeekAvailability(
+      [makeDispatcher('OVER', { shift: 'B', workDays: ['Monday'], availabilityExceptions: [
+        { date: '2026-10-24', kind: 'overtime' },
+      ] })],
+      WEEK
+    );
+    expect(getWeekWorkDays(resolved)).toEqual(['Monday', 'Saturday']);
+    expect(isSlotAvailable(resolved, 'Saturday', '0730-0930')).toBe(true);
+  });
+
+  it('ignores exceptions outside the week and leaves those dispatchers as they are', () => {
+    const dispatcher = makeDispatcher('NONE', { workDays: ['Monday'], availabilityExceptions: [{ date: '2026-10-26', kind: 'leave' }] });
+    const [resolved] = resolveWeekAvailability([dispatcher], WEEK);
+    expect(resolved).toBe(dispatcher);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { FairnessLedger } from '../../appTypes';
+import { applyFairness, createEmptyTally, summarizeLedger } from '../utils/fairnessUtils';
+import { makeDispatcher } from './fixtures';
+
+const tally = (preferenceHits: number, undesirable: number) => ({ ...createEmptyTally(), radio: 4, preferenceHits, undesirable });
+
+// Three finalized weeks before 2026-10-19 and the week itself
+const ledger: FairnessLedger = {
+  weeks: {
+    '2026-09-28': { LUCK: tally(4, 0) },
+    '2026-10-05': { LUCK: tally(4, 0), LESS: tally(0, 2) },
+    '2026-10-12': { LUCK: tally(2, 0), LESS: tally(0, 4) },
+    '2026-10-19': { LUCK: tally(0, 9), LESS: tally(9, 0) },
+  },
+};
+
+describe('summarizeLedger', () => {
+  it('sums the window of weeks before the week and leaves the week itself out', () => {
+    expect(summarizeLedger(ledger, '2026-10-19', 2)).toEqual({
+      LUCK: { radio: 8, utility: 0, preferenceHits: 6, undesirable: 0, weeks: 2 },
+      LESS: { radio: 8, utility: 0, preferenceHits: 0, undesirable: 6, weeks: 2 },
+    });
+    expect(summarizeLedger(ledger, '2026-10-19', 8).LUCK.weeks).toBe(3);
+    expect(summarizeLedger(ledger, '2026-10-19', 0)).toEqual({});
+  });
+});
+
+describe('applyFairness', () => {
+  // LUCK is senior but has had the better weeks
+  const dispatchers = [makeDispatcher('LUCK', { seniority: 1 }), makeDispatcher('LESS', { seniority: 2 })];
+  const options = { ledger, weekStart: '2026-10-19', windowWeeks: 8 };
+
+  it('leaves the dispatchers untouched at weight 0', () => {
+    expect(applyFairness(dispatchers, { ...options, weight: 0 })).toBe(dispatchers);
+  });
+
+  it('moves a dispatcher with worse weeks ahead as the weight grows', () => {
+    const priority = (weight: number) =>
+      Object.fromEntries(applyFairness(dispatchers, { ...options, weight }).map((d) => [d.id, d.fairnessPriority]));
+
+    expect(priority(0.25)).toEqual({ LUCK: 0.25, LESS: 0.75 });
+    expect(priority(1)).toEqual({ LUCK: 1, LESS: 0 });
+  });
+});
@@ -0,0 +1,161 @@
+import { Column, Day, Schedule, TimeSlot, days, getColumns, getRadioColumns, getTimeSlots, getUtilityColumns, isCellDisabled, isNextDaySlot } from '../../constants';
+import { ExtendedDispatcher, RadioRestRules } from '../../appTypes';
+import { computeSeniority, normalizeDispatcher, type LegacyDispatcher } from '../../utils/dispatcherRecords';
+import { worksOnDay } from '../utils/availabilityUtils';
+import { getPreviousDay, getShiftSlots, isEligibleOnDayForSlot, isSlotInShift, isSpilloverSlotForShift } from '../utils/shiftUtils';
+import { getDailyRadioLimit, getWeeklyRadioLimit } from '../utils/radioCapUtils';
+import exampleRoster from '../../../dispatchers.example.json';
+
+/** The roster shipped as dispatchers.example.json, loaded the way the app loads it */
+export const loadExampleRoster = (): ExtendedDispatcher[] =>
+  computeSeniority((exampleRoster as LegacyDispatcher[]).map(normalizeDispatcher));
+
+export const makeDispatcher = (id: string, fields: Partial<ExtendedDispatcher> = {}): ExtendedDispatcher => ({
+  id,
+  name: id,
+  minimumRadioOnly: false,
+  ...fields,
+});
+
+export interface FilledCell {
+  day: Day;
+  slot: TimeSlot;
+  col: Column;
+  /** Everyone named in the cell; a trainer/trainee pair names two */
+  ids: string[];
+}
+
+export function filledCells(schedule: Schedule): FilledCell[] {
+  const cells: FilledCell[] = [];
+  days.forEach((day) => {
+    getTimeSlots().forEach((slot) => {
+      getColumns().forEach((col) => {
+        const value = schedule[day]?.[slot]?.[col] ?? '';
+        const ids = value.split('/').map((p) => p.trim()).filter(Boolean);
+        if (ids.length > 0) cells.push({ day, slot, col, ids });
+      });
+    });
+  });
+  return cells;
+}
+
+const describeCell = (c: FilledCell) => `${c.day} ${c.slot} ${c.col}: ${c.ids.join('/')}`;
+
+/** Cells whose dispatcher also holds another cell in the same timeslot */
+export function findDoubleBookings(schedule: Schedule): string[] {
+  const seen = new Map<string, FilledCell>();
+  const found: string[] = [];
+  filledCells(schedule).forEach((cell) => {
+    cell.ids.forEach((id) => {
+      const key = `${cell.day}|${cell.slot}|${id}`;
+      const first = seen.get(key);
+      if (first) found.push(`${describeCell(first)} and ${cell.col}`);
+      else seen.set(key, cell);
+    });
+  });
+  return found;
+}
+
+export function findClosedCellAssignments(schedule: Schedule): string[] {
+  return filledCells(schedule)
+    .filter((c) => isCellDisabled(c.day, c.slot, c.col))
+    .map(describeCell);
+}
+
+/** Cells outside their dispatcher's work days, shift or spillover allowance */
+export function findIneligibleAssignments(schedule: Schedule, dispatchers: ExtendedDispatcher[]): string[] {
+  const byId = new Map(dispatchers.map((d) => [d.id, d]));
+  return filledCells(schedule)
+    .filter((c) => {
+      const d = byId.get(c.ids[0]);
+      return !d || !isEligibleOnDayForSlot(d, c.day, c.slot) || !isSlotInShift(d, c.slot);
+    })
+    .map(describeCell);
+}
+
+/**
+ * Cells on a day the dispatcher does not work that are not the early-morning tail of a
+ * spillover shift worked the day before
+ */
+export function findSpilloverViolations(schedule: Schedule, dispatchers: ExtendedDispatcher[]): string[] {
+  const byId = new Map(dispatchers.map((d) => [d.id, d]));
+  return filledCells(schedule)
+    .filter((c) => {
+      const d = byId.get(c.ids[0]);
+      if (!d || worksOnDay(d, c.day)) return false;
+      return !(
+        isSpilloverSlotForShift(d.shift, c.slot) &&
+        !isNextDaySlot(c.slot) &&
+        worksOnDay(d, getPreviousDay(c.day))
+      );
+    })
+    .map(describeCell);
+}
+
+export function findTraineeAssignments(schedule: Schedule, dispatchers: ExtendedDispatcher[]): string[] {
+  const trainees = new Set(dispatchers.filter((d) => d.isTrainee || d.traineeOf).map((d) => d.id));
+  return filledCells(schedule)
+    .filter((c) => c.ids.some((id) => trainees.has(id)))
+    .map(describeCell);
+}
+
+/** Utility cells held per dispatcher across the week */
+export function countUtilityCells(schedule: Schedule): Map<string, number> {
+  const utility = getUtilityColumns();
+  const counts = new Map<string, number>();
+  filledCells(schedule)
+    .filter((c) => utility.includes(c.col))
+    .forEach((c) => counts.set(c.ids[0], (counts.get(c.ids[0]) ?? 0) + 1));
+  return counts;
+}
+
+/** Dispatchers holding more radio cells than the solver's daily, weekly or back-to-back limits allow */
+export function findRadioCapViolations(schedule: Schedule, dispatchers: ExtendedDispatcher[]): string[] {
+  const radio = getRadioColumns();
+  const grid = getTimeSlots();
+  const cells = filledCells(schedule).filter((c) => radio.includes(c.col));
+  const found: string[] = [];
+  dispatchers.forEach((d) => {
+    const own = cells.filter((c) => c.ids[0] === d.id);
+    if (own.length > getWeeklyRadioLimit(d)) found.push(`${d.id}: ${own.length} in the week`);
+    days.forEach((day) => {
+      const indexes = own.filter((c) => c.day === day).map((c) => grid.indexOf(c.slot)).sort((a, b) => a - b);
+      if (indexes.length > getDailyRadioLimit(d)) found.push(`${d.id}: ${indexes.length} on ${day}`);
+      let run = 0;
+      indexes.forEach((index, i) => {
+        run = i > 0 && indexes[i - 1] === index - 1 ? run + 1 : 1;
+        if (d.maxConsecutiveRadio !== undefined && run > d.maxConsecutiveRadio) found.push(`${d.id}: ${run} back to back on ${day}`);
+      });
+    });
+  });
+  return found;
+}
+
+/**
+ * Dispatchers whose radio cells break the rest rules, with the day grids laid end to end so
+ * runs and gaps carry on across midnight
+ */
+export function findRestRuleViolations(schedule: Schedule, dispatchers: ExtendedDispatcher[], rules: RadioRestRules): string[] {
+  const radio = getRadioColumns();
+  const grid = getTimeSlots();
+  const cells = filledCells(schedule).filter((c) => radio.includes(c.col));
+  const found: string[] = [];
+  dispatchers.forEach((d) => {
+    const own = cells.filter((c) => c.ids[0] === d.id);
+    const shiftSlots = d.shift ? getShiftSlots(d.shift) ?? [] : [];
+    if (rules.avoidShiftEdges && shiftSlots.length > 0) {
+      own
+        .filter((c) => c.slot === shiftSlots[0] || c.slot === shiftSlots[shiftSlots.length - 1])
+        .forEach((c) => found.push(`${describeCell(c)} on a shift edge`));
+    }
+    const rows = own.map((c) => days.indexOf(c.day) * grid.length + grid.indexOf(c.slot)).sort((a, b) => a - b);
+    let run = 0;
+    rows.forEach((row, i) => {
+      const gap = i > 0 ? row - rows[i - 1] - 1 : Infinity;
+      run = gap === 0 ? run + 1 : 1;
+      if (rules.maxConsecutive > 0 && run > rules.maxConsecutive) found.push(`${d.id}: ${run} in a row up to row ${row}`);
+      if (rules.minGap > 0 && gap > 0 && gap < rules.minGap) found.push(`${d.id}: gap of ${gap} before row ${row}`);
+    });
+  });
+  return found;
+}
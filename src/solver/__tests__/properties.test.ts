@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { days } from '../../constants';
+import { createEmptySchedule } from '../../appStorage';
+import { ExtendedDispatcher } from '../../appTypes';
+import { generateWeeklySchedule } from '../weekScheduler';
+import { DEFAULT_REST_RULES, applyRestRules } from '../utils/restRuleUtils';
+import type { SolverEngine } from '../solverTypes';
+import {
+  countUtilityCells,
+  findClosedCellAssignments,
+  findDoubleBookings,
+  findIneligibleAssignments,
+  findRadioCapViolations,
+  findRestRuleViolations,
+  findSpilloverViolations,
+  findTraineeAssignments,
+  makeDispatcher,
+} from './fixtures';
+
+const ids = ['ABLE', 'BAKR', 'CHAS', 'DOVE', 'EDDY', 'FOXX', 'GRAY', 'HALE', 'IVES', 'JUNO', 'KNOX', 'LUND'];
+
+const dispatcherFields = fc.record({
+  shift: fc.constantFrom('A', 'B', 'C', 'D', 'E', 'F'),
+  workDays: fc.subarray([...days]),
+  minimumRadioOnly: fc.boolean(),
+  wantsExtraUtility: fc.boolean(),
+  isTrainee: fc.boolean(),
+  maxRadioPerDay: fc.option(fc.integer({ min: 1, max: 4 }), { nil: undefined }),
+  maxRadioPerWeek: fc.option(fc.integer({ min: 1, max: 12 }), { nil: undefined }),
+  maxConsecutiveRadio: fc.option(fc.integer({ min: 1, max: 3 }), { nil: undefined }),
+});
+
+// Random rosters of up to twelve dispatchers; seniority follows list order. Each run also
+// gets a random tie-breaking seed, as alternative candidate weeks do
+const rosters = fc
+  .uniqueArray(fc.constantFrom(...ids), { minLength: 1, maxLength: ids.length })
+  .chain((picked) => fc.tuple(fc.constant(picked), fc.array(dispatcherFields, { minLength: picked.length, maxLength: picked.length })))
+  .map(([picked, fields]): ExtendedDispatcher[] =>
+    picked.map((id, i) => makeDispatcher(id, { ...fields[i], seniority: i + 1 }))
+  );
+
+const restRules = fc.record({
+  maxConsecutive: fc.integer({ min: 0, max: 3 }),
+  minGap: fc.integer({ min: 0, max: 2 }),
+  avoidShiftEdges: fc.boolean(),
+});
+
+afterEach(() => {
+  applyRestRules(DEFAULT_REST_RULES);
+});
+
+// The LP engines are slower per run, so they get fewer rosters
+const runs: Record<SolverEngine, number> = { greedy: 40, glpk: 8, 'glpk-week': 8 };
+
+describe.each(Object.entries(runs) as [SolverEngine, number][])('random rosters (%s)', (engine, numRuns) => {
+  it('keep every solver invariant', async () => {
+    await fc.assert(
+      fc.asyncProperty(rosters, restRules, fc.nat(1000), async (dispatchers, rules, seed) => {
+        applyRestRules(rules);
+        const { schedule } = await generateWeeklySchedule(createEmptySchedule(), dispatchers, { engine, seed });
+
+        expect(findDoubleBookings(schedule)).toEqual([]);
+        expect(findClosedCellAssignments(schedule)).toEqual([]);
+        expect(findIneligibleAssignments(schedule, dispatchers)).toEqual([]);
+        expect(findSpilloverViolations(schedule, dispatchers)).toEqual([]);
+        expect(findTraineeAssignments(schedule, dispatchers)).toEqual([]);
+        expect(findRadioCapViolations(schedule, dispatchers)).toEqual([]);
+        expect(findRestRuleViolations(schedule, dispatchers, rules)).toEqual([]);
+
+        const counts = countUtilityCells(schedule);
+        dispatchers
+          .filter((d) => !d.wantsExtraUtility)
+          .forEach((d) => expect(counts.get(d.id) ?? 0, d.id).toBeLessThanOrEqual(1));
+      }),
+      { numRuns }
+    );
+  });
+});
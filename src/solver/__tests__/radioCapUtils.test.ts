@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptySchedule } from '../../appStorage';
+import { findRadioCapBreaches, fitsRadioCaps } from '../utils/radioCapUtils';
+import { makeDispatcher } from './fixtures';
+
+describe('fitsRadioCaps', () => {
+  it('uses two a day without a daily cap and one for Minimum Radio Only', () => {
+    expect(fitsRadioCaps(makeDispatcher('OPEN'), ['0730-0930'], '1130-1330')).toBe(true);
+    expect(fitsRadioCaps(makeDispatcher('OPEN'), ['0730-0930', '1130-1330'], '1530-1730')).toBe(false);
+    expect(fitsRadioCaps(makeDispatcher('MINR', { minimumRadioOnly: true }), ['0730-0930'], '1130-1330')).toBe(false);
+    expect(fitsRadioCaps(makeDispatcher('THRE', { maxRadioPerDay: 3 }), ['0730-0930', '1130-1330'], '1530-1730')).toBe(true);
+  });
+
+  it('counts the other days against the weekly cap and runs against the back-to-back cap', () => {
+    const capped = makeDispatcher('CAPD', { maxRadioPerDay: 4, maxRadioPerWeek: 5, maxConsecutiveRadio: 2 });
+    expect(fitsRadioCaps(capped, ['0730-0930'], '1330-1530', 3)).toBe(true);
+    expect(fitsRadioCaps(capped, ['0730-0930'], '1330-1530', 4)).toBe(false);
+    expect(fitsRadioCaps(capped, ['0730-0930', '0930-1130'], '1130-1330')).toBe(false);
+    expect(fitsRadioCaps(capped, ['0730-0930', '1130-1330'], '0930-1130')).toBe(false);
+    expect(fitsRadioCaps(capped, ['0730-0930', '0930-1130'], '1330-1530')).toBe(true);
+  });
+});
+
+describe('findRadioCapBreaches', () => {
+  it('flags nothing for a dispatcher without caps', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'OPEN';
+    schedule.Monday['0930-1130'].SW = 'OPEN';
+    schedule.Monday['1130-1330'].SW = 'OPEN';
+    const open = makeDispatcher('OPEN');
+    expect(findRadioCapBreaches(open, 'Monday', schedule, [open])).toEqual([]);
+  });
+
+  it('flags the whole day past the daily or weekly cap', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'CAPD';
+    schedule.Monday['1130-1330'].NE = 'CAPD';
+    schedule.Tuesday['0730-0930'].SW = 'CAPD';
+
+    const daily = makeDispatcher('CAPD', { maxRadioPerDay: 1 });
+    expect(findRadioCapBreaches(daily, 'Monday', schedule, [daily])).toEqual(['0730-0930', '1130-1330']);
+    expect(findRadioCapBreaches(daily, 'Tuesday', schedule, [daily])).toEqual([]);
+
+    const weekly = makeDispatcher('CAPD', { maxRadioPerWeek: 2 });
+    expect(findRadioCapBreaches(weekly, 'Tuesday', schedule, [weekly])).toEqual(['0730-0930']);
+  });
+
+  it('flags only the slots of a run longer than the back-to-back cap', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'CAPD';
+    schedule.Monday['0930-1130'].NE = 'CAPD/TRNE';
+    schedule.Monday['1130-1330'].SW = 'CAPD';
+    schedule.Monday['1530-1730'].SW = 'CAPD';
+    const capped = makeDispatcher('CAPD', { maxConsecutiveRadio: 2 });
+    const trainee = makeDispatcher('TRNE', { isTrainee: true, traineeOf: 'CAPD' });
+    expect(findRadioCapBreaches(capped, 'Monday', schedule, [capped, trainee])).toEqual(['0730-0930', '0930-1130', '1130-1330']);
+  });
+});
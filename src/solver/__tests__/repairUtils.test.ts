@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getTimeSlots } from '../../constants';
+import { createEmptySchedule } from '../../appStorage';
+import { proposeCallOffRepair, recordCallOff } from '../utils/repairUtils';
+import { DEFAULT_REST_RULES, applyRestRules } from '../utils/restRuleUtils';
+import { makeDispatcher } from './fixtures';
+
+afterEach(() => {
+  applyRestRules(DEFAULT_REST_RULES);
+});
+
+describe('proposeCallOffRepair', () => {
+  const trainer = makeDispatcher('TRNR', { shift: 'B', workDays: ['Monday'], seniority: 1 });
+  const trainee = makeDispatcher('TRNE', { shift: 'B', workDays: ['Monday'], isTrainee: true, traineeOf: 'TRNR' });
+  const spare = makeDispatcher('SPAR', { shift: 'B', workDays: ['Monday'], seniority: 2 });
+
+  it('hands a trainer\'s cell to a replacement and keeps the trainee with them', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'TRNR/TRNE';
+    const repair = proposeCallOffRepair(schedule, [trainer, trainee, spare], { dispatcherId: 'TRNR', day: 'Monday', slots: ['0730-0930'] });
+
+    expect(repair.schedule.Monday['0730-0930'].SW).toBe('SPAR/TRNE');
+    expect(repair.unfilled).toEqual([]);
+    expect(schedule.Monday['0730-0930'].SW).toBe('TRNR/TRNE');
+  });
+
+  it('names the trainee of a trainer\'s cell nobody can take', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'TRNR/TRNE';
+    const repair = proposeCallOffRepair(schedule, [trainer, trainee], { dispatcherId: 'TRNR', day: 'Monday', slots: ['0730-0930'] });
+
+    expect(repair.schedule.Monday['0730-0930'].SW).toBe('');
+    expect(repair.unfilled).toEqual([{ day: 'Monday', slot: '0730-0930', col: 'SW', trainee: 'TRNE' }]);
+  });
+
+  it('only takes a trainee who calls off out of their trainer\'s cell', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'TRNR/TRNE';
+    const repair = proposeCallOffRepair(schedule, [trainer, trainee, spare], { dispatcherId: 'TRNE', day: 'Monday', slots: ['0730-0930'] });
+
+    expect(repair.schedule.Monday['0730-0930'].SW).toBe('TRNR');
+    expect(repair.changes).toHaveLength(1);
+    expect(repair.unfilled).toEqual([]);
+  });
+
+  it('passes over dispatchers the cell would take past their radio caps or the rest rules', () => {
+    applyRestRules({ ...DEFAULT_REST_RULES, maxConsecutive: 1 });
+    const capped = makeDispatcher('CAPD', { shift: 'B', workDays: ['Monday'], seniority: 1, maxRadioPerDay: 1 });
+    const rested = makeDispatcher('REST', { shift: 'B', workDays: ['Monday'], seniority: 2 });
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'TRNR';
+    schedule.Monday['1330-1530'].SW = 'CAPD';
+    schedule.Monday['1130-1330'].SE = 'REST';
+
+    const blocked = proposeCallOffRepair(schedule, [trainer, capped, rested], { dispatcherId: 'TRNR', day: 'Monday', slots: ['0730-0930'] });
+    expect(blocked.schedule.Monday['0730-0930'].SW).toBe('REST');
+
+    // 1330 would put REST on radio twice in a row, and CAPD is busy then
+    schedule.Monday['0730-0930'].SW = '';
+    schedule.Monday['1330-1530'].NE = 'TRNR';
+    const gap = proposeCallOffRepair(schedule, [trainer, capped, rested], { dispatcherId: 'TRNR', day: 'Monday', slots: ['1330-1530'] });
+    expect(gap.schedule.Monday['1330-1530'].NE).toBe('');
+    expect(gap.unfilled).toEqual([{ day: 'Monday', slot: '1330-1530', col: 'NE' }]);
+  });
+
+  it('refills a UT cell with someone still missing their weekly UT before someone who has one', () => {
+    const senior = makeDispatcher('SENR', { shift: 'B', workDays: ['Monday', 'Tuesday'], seniority: 1 });
+    const junior = makeDispatcher('JUNR', { shift: 'B', workDays: ['Monday'], seniority: 9 });
+    const schedule = createEmptySchedule();
+    schedule.Monday['0930-1130'].UT = 'TRNR';
+    schedule.Tuesday['0930-1130'].UT = 'SENR';
+
+    const repair = proposeCallOffRepair(schedule, [trainer, senior, junior], { dispatcherId: 'TRNR', day: 'Monday', slots: ['0930-1130'] });
+    expect(repair.schedule.Monday['0930-1130'].UT).toBe('JUNR');
+  });
+});
+
+describe('recordCallOff', () => {
+  it('records a call-off covering the whole day as leave', () => {
+    const dispatcher = makeDispatcher('LEAV', { shift: 'B', availabilityExceptions: [{ date: '2026-10-20', kind: 'leave' }] });
+    expect(recordCallOff(dispatcher, { dispatcherId: 'LEAV', day: 'Monday', slots: getTimeSlots() }, '2026-10-19')).toEqual([
+      { date: '2026-10-20', kind: 'leave' },
+      { date: '2026-10-19', kind: 'leave', note: 'Called off' },
+    ]);
+  });
+
+  it('keeps the rows around a partial call-off, within any window set that day', () => {
+    const dispatcher = makeDispatcher('PART', { shift: 'B' });
+    expect(recordCallOff(dispatcher, { dispatcherId: 'PART', day: 'Monday', slots: ['0930-1130', '1130-1330'] }, '2026-10-19')).toEqual([
+      { date: '2026-10-19', kind: 'partial', from: '0330', to: '0930', note: 'Called off' },
+      { date: '2026-10-19', kind: 'partial', from: '1330', to: '0330', note: 'Called off' },
+    ]);
+
+    const windowed = { ...dispatcher, weekAvailability: { Monday: { off: false, extraDay: true, slots: ['0730-0930', '0930-1130'] } } };
+    expect(recordCallOff(windowed, { dispatcherId: 'PART', day: 'Monday', slots: ['0930-1130'] }, '2026-10-19')).toEqual([
+      { date: '2026-10-19', kind: 'overtime', from: '0730', to: '0930', note: 'Called off' },
+    ]);
+  });
+});
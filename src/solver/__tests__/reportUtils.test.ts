@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptySchedule } from '../../appStorage';
+import { buildScheduleReport } from '../utils/reportUtils';
+import { makeDispatcher } from './fixtures';
+
+describe('buildScheduleReport', () => {
+  it('flags a work day without slots but not the morning after an E shift', () => {
+    const evening = makeDispatcher('EVEN', { shift: 'E', workDays: ['Thursday', 'Friday', 'Saturday', 'Sunday'] });
+    const empty = createEmptySchedule();
+    const { zeroSlotDays } = buildScheduleReport(empty, empty, [evening]);
+
+    expect(zeroSlotDays.map((z) => z.day)).toEqual(['Thursday', 'Friday', 'Saturday', 'Sunday']);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createEmptySchedule } from '../../appStorage';
+import { DEFAULT_REST_RULES, applyRestRules, findRestRuleBreaches, fitsRestRules, getRadioTimeline, weekRow } from '../utils/restRuleUtils';
+import { makeDispatcher } from './fixtures';
+
+afterEach(() => {
+  applyRestRules(DEFAULT_REST_RULES);
+});
+
+describe('fitsRestRules', () => {
+  const day = makeDispatcher('DAYS', { shift: 'B' });
+  const timeline = [weekRow('Monday', '0930-1130')];
+
+  it('allows anything with the rules off', () => {
+    expect(fitsRestRules(day, timeline, 'Monday', '0730-0930')).toBe(true);
+    expect(fitsRestRules(day, timeline, 'Monday', '1130-1330')).toBe(true);
+  });
+
+  it('limits runs and gaps', () => {
+    expect(fitsRestRules(day, timeline, 'Monday', '1130-1330', { ...DEFAULT_REST_RULES, maxConsecutive: 1 })).toBe(false);
+    expect(fitsRestRules(day, timeline, 'Monday', '1130-1330', { ...DEFAULT_REST_RULES, maxConsecutive: 2 })).toBe(true);
+    expect(fitsRestRules(day, timeline, 'Monday', '1330-1530', { ...DEFAULT_REST_RULES, minGap: 2 })).toBe(false);
+    expect(fitsRestRules(day, timeline, 'Monday', '1530-1730', { ...DEFAULT_REST_RULES, minGap: 2 })).toBe(true);
+    // Joining a run is not a gap
+    expect(fitsRestRules(day, timeline, 'Monday', '1130-1330', { ...DEFAULT_REST_RULES, minGap: 2 })).toBe(true);
+  });
+
+  it('keeps radio off the first and last row of the shift', () => {
+    const rules = { ...DEFAULT_REST_RULES, avoidShiftEdges: true };
+    expect(fitsRestRules(day, [], 'Monday', '0730-0930', rules)).toBe(false);
+    expect(fitsRestRules(day, [], 'Monday', '1530-1730', rules)).toBe(false);
+    expect(fitsRestRules(day, [], 'Monday', '0930-1130', rules)).toBe(true);
+    expect(fitsRestRules(makeDispatcher('NONE'), [], 'Monday', '0330-0530', rules)).toBe(true);
+  });
+
+  it('runs an overnight shift on from one day into the next', () => {
+    const night = makeDispatcher('NGHT', { shift: 'F', workDays: ['Monday', 'Tuesday'] });
+    const late = [weekRow('Monday', '0130-0330')];
+    expect(fitsRestRules(night, late, 'Tuesday', '0330-0530', { ...DEFAULT_REST_RULES, maxConsecutive: 1 })).toBe(false);
+    expect(fitsRestRules(night, late, 'Tuesday', '0330-0530', { ...DEFAULT_REST_RULES, maxConsecutive: 2 })).toBe(true);
+    expect(fitsRestRules(night, [weekRow('Monday', '2330-0130')], 'Tuesday', '0330-0530', { ...DEFAULT_REST_RULES, minGap: 2 })).toBe(false);
+    expect(fitsRestRules(night, [], 'Tuesday', '0530-0730', { ...DEFAULT_REST_RULES, avoidShiftEdges: true })).toBe(false);
+  });
+});
+
+describe('findRestRuleBreaches', () => {
+  it('flags both sides of a short gap, including across midnight', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['2330-0130'].SW = 'NGHT';
+    schedule.Tuesday['0330-0530'].NE = 'NGHT';
+    schedule.Tuesday['2330-0130'].SW = 'NGHT';
+    const night = makeDispatcher('NGHT', { shift: 'F', workDays: ['Monday', 'Tuesday'] });
+
+    expect(getRadioTimeline('NGHT', schedule, [night])).toHaveLength(3);
+    expect(findRestRuleBreaches(night, 'Monday', schedule, [night])).toEqual([]);
+
+    applyRestRules({ ...DEFAULT_REST_RULES, minGap: 2 });
+    expect(findRestRuleBreaches(night, 'Monday', schedule, [night])).toEqual(['2330-0130']);
+    expect(findRestRuleBreaches(night, 'Tuesday', schedule, [night])).toEqual(['0330-0530']);
+  });
+
+  it('flags every slot of a run that is too long, counting pairs for the trainer', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0930-1130'].SW = 'DAYS';
+    schedule.Monday['1130-1330'].NE = 'DAYS/TRNE';
+    schedule.Monday['1530-1730'].SW = 'DAYS';
+    const day = makeDispatcher('DAYS', { shift: 'B' });
+    const trainee = makeDispatcher('TRNE', { isTrainee: true, traineeOf: 'DAYS' });
+
+    applyRestRules({ ...DEFAULT_REST_RULES, maxConsecutive: 1 });
+    expect(findRestRuleBreaches(day, 'Monday', schedule, [day, trainee])).toEqual(['0930-1130', '1130-1330']);
+  });
+});
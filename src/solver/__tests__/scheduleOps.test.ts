@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptySchedule } from '../../appStorage';
+import { mergeScheduleDays } from '../utils/scheduleOps';
+import { makeDispatcher } from './fixtures';
+
+describe('mergeScheduleDays', () => {
+  const dispatchers = [makeDispatcher('AAAA', { name: 'Alice' }), makeDispatcher('BBBB', { name: 'Bob' })];
+
+  it('keeps base entries the overlay leaves alone', () => {
+    const base = createEmptySchedule().Monday;
+    const overlay = createEmptySchedule().Monday;
+    base['0730-0930'].SW = 'AAAA';
+    overlay['0730-0930'].SE = 'BBBB';
+
+    const merged = mergeScheduleDays(base, overlay, dispatchers);
+    expect(merged['0730-0930'].SW).toBe('AAAA');
+    expect(merged['0730-0930'].SE).toBe('BBBB');
+  });
+
+  it('drops a base entry whose dispatcher the overlay places elsewhere, by name or ID', () => {
+    const base = createEmptySchedule().Monday;
+    const overlay = createEmptySchedule().Monday;
+    base['0730-0930'].SW = 'Alice';
+    base['0930-1130'].SW = 'AAAA/Bob';
+    overlay['0730-0930'].SE = 'AAAA';
+    overlay['0930-1130'].NE = 'BBBB';
+
+    const merged = mergeScheduleDays(base, overlay, dispatchers);
+    expect(merged['0730-0930'].SW).toBe('');
+    expect(merged['0930-1130'].SW).toBe('');
+    expect(merged['0930-1130'].NE).toBe('BBBB');
+  });
+
+  it('does not count an overlay cell that repeats the base entry under its ID as a new placement', () => {
+    const base = createEmptySchedule().Monday;
+    const overlay = createEmptySchedule().Monday;
+    base['0730-0930'].SW = 'Alice';
+    base['0730-0930'].NW = 'Alice';
+    overlay['0730-0930'].SW = 'AAAA';
+
+    const merged = mergeScheduleDays(base, overlay, dispatchers);
+    expect(merged['0730-0930'].SW).toBe('AAAA');
+    expect(merged['0730-0930'].NW).toBe('Alice');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptySchedule } from '../../appStorage';
+import { buildScorecard, scoreSchedule } from '../utils/scoreUtils';
+import { makeDispatcher } from './fixtures';
+
+describe('scoreSchedule', () => {
+  const early = makeDispatcher('EARL', {
+    shift: 'B',
+    workDays: ['Monday'],
+    preferredChannels: ['SW', 'CE'],
+    preferredTimeBlocks: ['0730-0930'],
+  });
+  const late = makeDispatcher('LATE', { shift: 'B', workDays: ['Monday'] });
+
+  it('scores an empty week as uncovered and without UT', () => {
+    const score = scoreSchedule(createEmptySchedule(), [early, late]);
+    expect(score.coverage).toBe(0);
+    expect(score.utDistribution).toBe(0);
+    expect(score.preferences).toBe(1);
+  });
+
+  it('gives full preference credit for a top option and none for an unranked cell', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'EARL';
+    expect(scoreSchedule(schedule, [early, late]).preferences).toBe(1);
+
+    schedule.Monday['0730-0930'].SW = '';
+    schedule.Monday['1330-1530'].NE = 'EARL';
+    expect(scoreSchedule(schedule, [early, late]).preferences).toBe(0);
+  });
+
+  it('measures fairness and UT across scheduled dispatchers', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'EARL';
+    schedule.Monday['0930-1130'].SW = 'EARL';
+    schedule.Monday['1130-1330'].UT = 'EARL';
+    const uneven = scoreSchedule(schedule, [early, late]);
+    expect(uneven.fairness).toBe(0);
+    expect(uneven.utDistribution).toBe(0.5);
+
+    schedule.Monday['0930-1130'].SW = 'LATE';
+    schedule.Monday['1330-1530'].UT = 'LATE';
+    const even = scoreSchedule(schedule, [early, late]);
+    expect(even.fairness).toBe(1);
+    expect(even.utDistribution).toBe(1);
+  });
+});
+
+describe('buildScorecard', () => {
+  const senior = makeDispatcher('SENR', {
+    shift: 'B',
+    workDays: ['Monday'],
+    seniority: 1,
+    preferredChannels: ['SW', 'CE', 'NE'],
+    preferredTimeBlocks: ['0730-0930', '0930-1130'],
+  });
+  const junior = makeDispatcher('JUNR', { shift: 'B', workDays: ['Monday'], seniority: 2 });
+
+  it('counts assignments within the top-N preferred channels and time blocks', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'SENR';
+    schedule.Monday['0930-1130'].NE = 'SENR';
+    expect(buildScorecard(schedule, [senior, junior], 3).preferenceMatches).toEqual({ matched: 2, total: 2, topN: 3 });
+    expect(buildScorecard(schedule, [senior, junior], 1).preferenceMatches).toEqual({ matched: 1, total: 2, topN: 1 });
+  });
+
+  it('flags a junior holding a cell the senior ranked above what they hold', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'JUNR';
+    schedule.Monday['0930-1130'].NE = 'SENR';
+    expect(buildScorecard(schedule, [senior, junior]).seniorityInversions).toEqual([
+      { day: 'Monday', slot: '0730-0930', col: 'SW', juniorId: 'JUNR', seniorId: 'SENR' },
+    ]);
+
+    // Once the senior holds their top option, nothing the junior has outranks it
+    schedule.Monday['0930-1130'].NE = '';
+    schedule.Monday['0930-1130'].SW = 'JUNR';
+    schedule.Monday['0730-0930'].SW = 'SENR';
+    expect(buildScorecard(schedule, [senior, junior]).seniorityInversions).toEqual([]);
+  });
+
+  it('lists radio cells per person fewest first and who lacks a UT', () => {
+    const schedule = createEmptySchedule();
+    schedule.Monday['0730-0930'].SW = 'SENR';
+    schedule.Monday['0930-1130'].SW = 'SENR';
+    schedule.Monday['1130-1330'].SW = 'JUNR';
+    schedule.Monday['1330-1530'].UT = 'SENR';
+    const card = buildScorecard(schedule, [senior, junior]);
+    expect(card.slotsPerPerson).toEqual([
+      { dispatcherId: 'JUNR', slots: 1 },
+      { dispatcherId: 'SENR', slots: 2 },
+    ]);
+    expect(card.ut).toEqual({ covered: 1, total: 2, missing: ['JUNR'] });
+    expect(card.radio.filled).toBe(3);
+  });
+});
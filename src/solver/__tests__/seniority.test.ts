@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyChannelDefinitions, createDefaultChannelDefinitions, getTimeSlots } from '../../constants';
+import { createEmptySchedule } from '../../appStorage';
+import { generateWeeklySchedule } from '../weekScheduler';
+import type { SolverEngine } from '../solverTypes';
+import { filledCells, makeDispatcher } from './fixtures';
+
+afterEach(() => {
+  applyChannelDefinitions(createDefaultChannelDefinitions());
+});
+
+// Two B-shift dispatchers on Monday who both rank SW 0730-0930 first
+const rivals = (seniorId: string) =>
+  ['KENT', 'LANE'].map((id) =>
+    makeDispatcher(id, {
+      shift: 'B',
+      workDays: ['Monday'],
+      preferredChannels: ['SW'],
+      preferredTimeBlocks: ['0730-0930'],
+      minimumRadioOnly: true,
+      seniority: id === seniorId ? 1 : 2,
+    })
+  );
+
+describe.each<SolverEngine>(['greedy', 'glpk'])('seniority precedence (%s)', (engine) => {
+  it.each(['KENT', 'LANE'])('gives the contested first choice to the senior dispatcher (%s senior)', async (seniorId) => {
+    const { schedule } = await generateWeeklySchedule(createEmptySchedule(), rivals(seniorId), { engine });
+    expect(schedule.Monday['0730-0930'].SW).toBe(seniorId);
+  });
+});
+
+describe('UT seniority precedence', () => {
+  it.each(['KENT', 'LANE'])('gives the only open UT cell to the senior dispatcher (%s senior)', async (seniorId) => {
+    // Close every UT cell but Monday 1330-1530
+    applyChannelDefinitions(
+      createDefaultChannelDefinitions().map((channel) =>
+        channel.name === 'UT'
+          ? { ...channel, closures: [{ days: [], slots: getTimeSlots().filter((slot) => slot !== '1330-1530') }] }
+          : channel
+      )
+    );
+    const { schedule } = await generateWeeklySchedule(createEmptySchedule(), rivals(seniorId), { engine: 'greedy' });
+
+    expect(filledCells(schedule).filter((c) => c.col === 'UT').map((c) => c.ids[0])).toEqual([seniorId]);
+  });
+});
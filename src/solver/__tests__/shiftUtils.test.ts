@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getTimeSlots } from '../../constants';
+import {
+  getPreviousDay,
+  isAvailableOnDay,
+  isEligibleOnDayForSlot,
+  isSpilloverSlotForShift,
+  shiftHasSpillover,
+} from '../utils/shiftUtils';
+import { resolveWeekAvailability } from '../utils/availabilityUtils';
+import { makeDispatcher } from './fixtures';
+
+describe('shiftHasSpillover', () => {
+  it('is true for E and F only', () => {
+    expect(['A', 'B', 'C', 'D', 'E', 'F'].filter(shiftHasSpillover)).toEqual(['E', 'F']);
+    expect(shiftHasSpillover(undefined)).toBe(false);
+  });
+});
+
+describe('isSpilloverSlotForShift', () => {
+  const spilloverSlots = (shift: string) => getTimeSlots().filter((slot) => isSpilloverSlotForShift(shift, slot));
+
+  it('marks the rows of E past midnight', () => {
+    expect(spilloverSlots('E')).toEqual(['2330-0130', '0130-0330']);
+  });
+
+  it('marks the rows of F past midnight, including the wrap to the top of the grid', () => {
+    expect(spilloverSlots('F')).toEqual(['0330-0530', '0530-0730', '2330-0130', '0130-0330']);
+  });
+
+  it('marks nothing for day shifts', () => {
+    expect(spilloverSlots('B')).toEqual([]);
+  });
+});
+
+describe('isEligibleOnDayForSlot', () => {
+  const night = makeDispatcher('NGHT', { shift: 'F', workDays: ['Monday'] });
+  const evening = makeDispatcher('EVEN', { shift: 'E', workDays: ['Monday'] });
+
+  it('allows any slot on a work day', () => {
+    expect(isEligibleOnDayForSlot(night, 'Monday', '2130-2330')).toBe(true);
+    expect(isEligibleOnDayForSlot(night, 'Monday', '0130-0330')).toBe(true);
+  });
+
+  it('allows the early-morning rows of the next day for F', () => {
+    expect(isEligibleOnDayForSlot(night, 'Tuesday', '0330-0530')).toBe(true);
+    expect(isEligibleOnDayForSlot(night, 'Tuesday', '0530-0730')).toBe(true);
+  });
+
+  it('blocks next-day rows that belong to the day after the spillover day', () => {
+    expect(isEligibleOnDayForSlot(night, 'Tuesday', '2330-0130')).toBe(false);
+    expect(isEligibleOnDayForSlot(evening, 'Tuesday', '0130-0330')).toBe(false);
+  });
+
+  it('blocks the rest of the next day and days further out', () => {
+    expect(isEligibleOnDayForSlot(night, 'Tuesday', '0730-0930')).toBe(false);
+    expect(isEligibleOnDayForSlot(night, 'Wednesday', '0330-0530')).toBe(false);
+  });
+
+  it('judges spillover rows by the exceptions of the day the shift started', () => {
+    const [partial] = resolveWeekAvailability(
+      [makeDispatcher('PART', { shift: 'F', workDays: ['Monday', 'Tuesday'], availabilityExceptions: [
+        { date: '2026-10-19', kind: 'partial', from: '2130', to: '0530' },
+        { date: '2026-10-20', kind: 'leave' },
+      ] })],
+      '2026-10-19'
+    );
+    // Monday night's shift ends at 0530 and runs on into Tuesday's first row despite Tuesday's leave
+    expect(isEligibleOnDayForSlot(partial, 'Tuesday', '0330-0530')).toBe(true);
+    expect(isEligibleOnDayForSlot(partial, 'Tuesday', '0530-0730')).toBe(false);
+    expect(isEligibleOnDayForSlot(partial, 'Tuesday', '2130-2330')).toBe(false);
+    // Wednesday's early rows are Tuesday night's, which is leave
+    expect(isEligibleOnDayForSlot(partial, 'Wednesday', '0330-0530')).toBe(false);
+  });
+
+  it('uses the trainer days and shift when the trainee follows them', () => {
+    const trainee = makeDispatcher('TRNE', { shift: 'B', workDays: ['Friday'], followTrainerSchedule: true });
+    expect(isEligibleOnDayForSlot(trainee, 'Tuesday', '0330-0530', night)).toBe(true);
+    expect(isEligibleOnDayForSlot(trainee, 'Tuesday', '0330-0530')).toBe(false);
+  });
+});
+
+describe('isAvailableOnDay', () => {
+  it('includes the day after a spillover work day', () => {
+    const night = makeDispatcher('NGHT', { shift: 'F', workDays: ['Sunday'] });
+    expect(getPreviousDay('Monday')).toBe('Sunday');
+    expect(isAvailableOnDay(night, 'Monday')).toBe(true);
+    expect(isAvailableOnDay(night, 'Tuesday')).toBe(false);
+  });
+
+  it('excludes the day after for day shifts', () => {
+    const day = makeDispatcher('DAYS', { shift: 'B', workDays: ['Monday'] });
+    expect(isAvailableOnDay(day, 'Tuesday')).toBe(false);
+  });
+});
@@ -0,0 +1,246 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ScheduleLocks, ScheduleScope, applyChannelDefinitions, createDefaultChannelDefinitions, days, getRadioColumns } from '../../constants';
+import { createEmptySchedule } from '../../appStorage';
+import { generateWeeklySchedule } from '../weekScheduler';
+import type { SolverEngine } from '../solverTypes';
+import { getWeekWorkDays } from '../utils/availabilityUtils';
+import { diffSchedules } from '../utils/scheduleOps';
+import { DEFAULT_REST_RULES, applyRestRules } from '../utils/restRuleUtils';
+import {
+  countUtilityCells,
+  filledCells,
+  findClosedCellAssignments,
+  findDoubleBookings,
+  findIneligibleAssignments,
+  findRadioCapViolations,
+  findRestRuleViolations,
+  findSpilloverViolations,
+  findTraineeAssignments,
+  loadExampleRoster,
+  makeDispatcher,
+} from './fixtures';
+
+const engines: SolverEngine[] = ['greedy', 'glpk', 'glpk-week'];
+
+afterEach(() => {
+  applyChannelDefinitions(createDefaultChannelDefinitions());
+  applyRestRules(DEFAULT_REST_RULES);
+});
+
+describe.each(engines)('generateWeeklySchedule (%s)', (engine) => {
+  describe('example roster', () => {
+    const dispatchers = loadExampleRoster();
+    const run = () => generateWeeklySchedule(createEmptySchedule(), dispatchers, { engine });
+
+    it('never books a dispatcher twice in one timeslot', async () => {
+      const { schedule } = await run();
+      expect(findDoubleBookings(schedule)).toEqual([]);
+    });
+
+    it('only places dispatchers on their work days, shifts and spillover mornings', async () => {
+      const { schedule } = await run();
+      expect(findIneligibleAssignments(schedule, dispatchers)).toEqual([]);
+      expect(findSpilloverViolations(schedule, dispatchers)).toEqual([]);
+    });
+
+    it('leaves the default MT closures empty', async () => {
+      const { schedule } = await run();
+      expect(findClosedCellAssignments(schedule)).toEqual([]);
+    });
+
+    it('never assigns trainees', async () => {
+      const { schedule } = await run();
+      expect(findTraineeAssignments(schedule, dispatchers)).toEqual([]);
+    });
+
+    it('gives every scheduled dispatcher exactly one UT unless they volunteer for more', async () => {
+      const { schedule, report } = await run();
+      const counts = countUtilityCells(schedule);
+      dispatchers
+        .filter((d) => getWeekWorkDays(d).length > 0 && !d.isTrainee && !d.traineeOf && !d.excludeFromAutoSchedule)
+        .forEach((d) => {
+          const count = counts.get(d.id) ?? 0;
+          if (d.wantsExtraUtility) expect(count, d.id).toBeGreaterThanOrEqual(1);
+          else expect(count, d.id).toBe(1);
+        });
+      expect(report.missingUt).toEqual([]);
+    });
+  });
+
+  it('gives the natural week for seed 0 and a repeatable week for any other seed', async () => {
+    const dispatchers = loadExampleRoster();
+    const run = (seed?: number) => generateWeeklySchedule(createEmptySchedule(), dispatchers, { engine, seed });
+
+    expect((await run(0)).schedule).toEqual((await run()).schedule);
+    const seeded = (await run(7)).schedule;
+    expect((await run(7)).schedule).toEqual(seeded);
+    expect(findDoubleBookings(seeded)).toEqual([]);
+    expect(findIneligibleAssignments(seeded, dispatchers)).toEqual([]);
+    expect(findClosedCellAssignments(seeded)).toEqual([]);
+  });
+
+  it('reports progress through the week', async () => {
+    const steps: string[] = [];
+    await generateWeeklySchedule(createEmptySchedule(), loadExampleRoster(), {
+      engine,
+      onProgress: ({ step, completed, total }) => steps.push(`${step} ${completed}/${total}`),
+    });
+
+    if (engine === 'glpk-week') expect(steps).toEqual(['Whole week 0/1']);
+    else expect(steps).toEqual([...days.map((day, i) => `${day} ${i}/8`), 'UT assignment 7/8']);
+  });
+
+  it('fills up to each dispatcher\'s radio caps and no further', async () => {
+    const dispatchers = [
+      makeDispatcher('MANY', { shift: 'B', workDays: ['Monday'], seniority: 1, maxRadioPerDay: 3, maxConsecutiveRadio: 2 }),
+      makeDispatcher('WEEK', { shift: 'A', workDays: ['Monday', 'Tuesday', 'Wednesday'], seniority: 2, maxRadioPerWeek: 2 }),
+    ];
+    const { schedule } = await generateWeeklySchedule(createEmptySchedule(), dispatchers, { engine });
+    const radio = filledCells(schedule).filter((c) => getRadioColumns().includes(c.col));
+
+    expect(radio.filter((c) => c.ids[0] === 'MANY')).toHaveLength(3);
+    expect(radio.filter((c) => c.ids[0] === 'WEEK')).toHaveLength(2);
+    expect(findRadioCapViolations(schedule, dispatchers)).toEqual([]);
+  });
+
+  it('keeps to the rest rules, across midnight for overnight shifts', async () => {
+    const rules = { maxConsecutive: 1, minGap: 1, avoidShiftEdges: true };
+    applyRestRules(rules);
+    const dispatchers = [
+      makeDispatcher('REST', { shift: 'B', workDays: ['Monday'], seniority: 1, maxRadioPerDay: 3 }),
+      makeDispatcher('OVER', { shift: 'F', workDays: ['Monday', 'Tuesday'], seniority: 2, maxRadioPerDay: 3 }),
+    ];
+    const { schedule } = await generateWeeklySchedule(createEmptySchedule(), dispatchers, { engine });
+    const radio = filledCells(schedule).filter((c) => getRadioColumns().includes(c.col));
+
+    // B runs 0730-1730: the edges are out and the middle three rows allow two spaced slots
+    expect(radio.filter((c) => c.ids[0] === 'REST').map((c) => c.slot)).toEqual(['0930-1130', '1330-1530']);
+    expect(radio.some((c) => c.ids[0] === 'OVER')).toBe(true);
+    expect(findRestRuleViolations(schedule, dispatchers, rules)).toEqual([]);
+  });
+
+  it('leaves closed cells empty', async () => {
+    applyChannelDefinitions(
+      createDefaultChannelDefinitions().map((channel) => {
+        if (channel.name === 'SW') return { ...channel, closures: [{ days: [], slots: [] }] };
+        if (channel.name === 'NE') return { ...channel, closures: [{ days: ['Monday', 'Tuesday'], slots: ['0730-0930', '0930-1130'] }] };
+        if (channel.name === 'UT') return { ...channel, closures: [{ days: ['Wednesday'], slots: [] }] };
+        return channel;
+      })
+    );
+    const dispatchers = loadExampleRoster();
+    const { schedule } = await generateWeeklySchedule(createEmptySchedule(), dispatchers, { engine });
+
+    expect(findClosedCellAssignments(schedule)).toEqual([]);
+    expect(filledCells(schedule).length).toBeGreaterThan(0);
+  });
+
+  it('reports closed, unknown and duplicate entries of the starting schedule without building on them', async () => {
+    const dispatchers = [makeDispatcher('AAAA', { shift: 'B', workDays: ['Monday'], seniority: 1 })];
+    const start = createEmptySchedule();
+    start.Monday['0730-0930'].SW = 'AAAA';
+    start.Monday['0930-1130'].SE = 'NOBODY';
+    start.Monday['1130-1330'].NE = 'AAAA';
+    start.Monday['1130-1330'].NW = 'AAAA';
+    applyChannelDefinitions(
+      createDefaultChannelDefinitions().map((channel) =>
+        channel.name === 'SW' ? { ...channel, closures: [{ days: ['Monday'], slots: ['0730-0930'] }] } : channel
+      )
+    );
+
+    const { schedule, report } = await generateWeeklySchedule(start, dispatchers, { engine });
+    const cleared = new Set(report.clearedAssignments.map((c) => `${c.day}|${c.slot}|${c.col}`));
+    const changes = diffSchedules(start, schedule);
+
+    expect(report.clearedAssignments.map((c) => c.reason).sort()).toEqual(['closed', 'duplicate', 'unknown']);
+    // Valid entries stay; an ignored one only goes when its dispatcher was scheduled elsewhere
+    expect(changes.filter((c) => c.before !== '' && !cleared.has(`${c.day}|${c.slot}|${c.col}`))).toEqual([]);
+    expect(changes.some((c) => c.before === '')).toBe(true);
+    expect(findClosedCellAssignments(schedule).every((c) => findClosedCellAssignments(start).includes(c))).toBe(true);
+    expect(findDoubleBookings(schedule)).toEqual(findDoubleBookings(start));
+  });
+
+  describe('locked cells', () => {
+    const dispatchers = [
+      // Wants the locked timeslot, on a channel next to the locked cell
+      makeDispatcher('AAAA', { shift: 'B', workDays: ['Monday'], seniority: 1, preferredTimeBlocks: ['0730-0930'], preferredChannels: ['SE'] }),
+      makeDispatcher('BBBB', { shift: 'B', workDays: ['Monday'], seniority: 2 }),
+      // Not eligible on Monday, so a cell pairing them with AAAA breaks a rule
+      makeDispatcher('TTTT', { shift: 'B', workDays: ['Tuesday'], isTrainee: true, traineeOf: 'AAAA' }),
+    ];
+    const locks: ScheduleLocks = { Monday: { '0730-0930': ['SW', 'NW'] } };
+
+    it('keeps a locked valid cell', async () => {
+      const start = createEmptySchedule();
+      start.Monday['0730-0930'].SW = 'AAAA';
+      const { schedule, report } = await generateWeeklySchedule(start, dispatchers, { engine, locks });
+
+      expect(schedule.Monday['0730-0930'].SW).toBe('AAAA');
+      expect(report.clearedAssignments).toEqual([]);
+      expect(report.keptAssignments).toEqual([]);
+      expect(findDoubleBookings(schedule)).toEqual([]);
+    });
+
+    it('keeps a locked cell that breaks a rule, reports it as kept and books nobody twice', async () => {
+      const start = createEmptySchedule();
+      start.Monday['0730-0930'].SW = 'AAAA/TTTT';
+      const { schedule, report } = await generateWeeklySchedule(start, dispatchers, { engine, locks });
+
+      expect(schedule.Monday['0730-0930'].SW).toBe('AAAA/TTTT');
+      expect(findDoubleBookings(schedule)).toEqual([]);
+      expect(report.clearedAssignments).toEqual([]);
+      expect(report.keptAssignments.map((c) => [c.day, c.slot, c.col, c.reason])).toEqual([
+        ['Monday', '0730-0930', 'SW', 'ineligible'],
+      ]);
+    });
+
+    it('leaves an empty locked cell empty', async () => {
+      const { schedule } = await generateWeeklySchedule(createEmptySchedule(), dispatchers, { engine, locks });
+
+      expect(schedule.Monday['0730-0930'].NW).toBe('');
+      expect(findDoubleBookings(schedule)).toEqual([]);
+    });
+
+    it('only changes cells inside the scope of a scoped run', async () => {
+      const start = createEmptySchedule();
+      start.Monday['0730-0930'].SW = 'AAAA/TTTT';
+      start.Monday['1130-1330'].SE = 'BBBB';
+      // SW is outside the scope, so AAAA stays booked in that timeslot
+      const scope: ScheduleScope = { days: ['Monday'], slots: ['0730-0930'], columns: ['SE', 'NE'] };
+      const { schedule } = await generateWeeklySchedule(start, dispatchers, { engine, scope });
+
+      const outside = diffSchedules(start, schedule).filter(
+        (c) => c.slot !== '0730-0930' || !scope.columns?.includes(c.col)
+      );
+      expect(filledCells(schedule).length).toBeGreaterThan(2);
+      expect(outside).toEqual([]);
+      expect(findDoubleBookings(schedule)).toEqual([]);
+    });
+  });
+});
+
+describe('seeded tie-breaking', () => {
+  it('lets the greedy engine produce alternative weeks', async () => {
+    const dispatchers = loadExampleRoster();
+    const natural = (await generateWeeklySchedule(createEmptySchedule(), dispatchers)).schedule;
+    const alternatives = await Promise.all(
+      [1, 2, 3].map(async (seed) => (await generateWeeklySchedule(createEmptySchedule(), dispatchers, { seed })).schedule)
+    );
+    expect(alternatives.some((schedule) => diffSchedules(natural, schedule).length > 0)).toBe(true);
+  });
+});
+
+describe('E/F spillover', () => {
+  // F runs 2130 to 0730: the two morning rows of the next day's grid are the tail of the shift
+  const night = makeDispatcher('NGHT', { shift: 'F', workDays: ['Monday'], seniority: 1, minimumRadioOnly: true });
+
+  it.each(engines)('keeps an F shift on its work day and the next morning only (%s)', async (engine) => {
+    const { schedule } = await generateWeeklySchedule(createEmptySchedule(), [night], { engine });
+    const cells = filledCells(schedule);
+
+    expect(findSpilloverViolations(schedule, [night])).toEqual([]);
+    expect(cells.filter((c) => c.day === 'Tuesday').every((c) => ['0330-0530', '0530-0730'].includes(c.slot))).toBe(true);
+    expect(cells.some((c) => c.day === 'Tuesday')).toBe(true);
+    expect(cells.filter((c) => !['Monday', 'Tuesday'].includes(c.day))).toEqual([]);
+  });
+});
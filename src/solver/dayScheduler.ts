@@ -1,15 +1,26 @@
-import { Day, timeSlots, columns, isCellDisabled, Column, TimeSlot } from '../constants';
+import { Day, Schedule, ScheduleLocks, getTimeSlots, getColumns, isCellDisabled, Column, TimeSlot } from '../constants';
 import { ExtendedDispatcher } from '../appTypes';
-import { ScheduleDay } from './solverTypes';
-import { createEmptyScheduleDay, cloneScheduleDay, normalizeScheduleDayToIds, findDispatcherByIdentifier } from './utils/scheduleOps';
+import { AssignmentPass, AssignmentResult, AssignmentTraceLog, ClearedAssignment, ClearedReason, ScheduleDay } from './solverTypes';
+import { createEmptyScheduleDay, cloneScheduleDay, normalizeScheduleDayToIds, findDispatcherByIdentifier, HELD_CELL } from './utils/scheduleOps';
 import { isEligibleOnDayForSlot, isSlotInShift } from './utils/shiftUtils';
 import { prepareDispatchers, assignMinimumSlot, assignPreferredSlot, assignExtraRadioSlot, hasPreferences } from './utils/assignmentUtils';
+import { recordTrace } from './utils/traceUtils';
+import { countRadioElsewhere, fitsRadioCaps, getDailyRadioLimit, getRadioSlots, getWeeklyRadioLimit } from './utils/radioCapUtils';
+import { fitsRestRules, getRadioTimeline, hasRestRules } from './utils/restRuleUtils';
+import { NATURAL_ORDER, TieBreaker } from './utils/tieBreakUtils';
+import { isCellLocked } from '../utils/scheduleLocks';
 
 // Debug logging toggle for day scheduler
 const DEBUG = false;
 const log = (...args: unknown[]) => { if (DEBUG) console.log(...args); };
 const warn = (...args: unknown[]) => { if (DEBUG) console.warn(...args); };
 
+// The rest of the week, for weekly caps and rest rules that reach into neighbouring days
+interface WeekContext {
+  week: Partial<Schedule>;
+  radioElsewhere: Record<string, number>;
+}
+
 /**
  * Generate a schedule for a single day using optimized sequential assignment.
  * 
@@ -19,15 +30,26 @@ const warn = (...args: unknown[]) => { if (DEBUG) console.warn(...args); };
  * 3. Shift-based slot assignment (dispatchers assigned within their shift hours when possible)
  * 4. Preference handling for channels and time blocks
  * 5. Tooltip consistency (store dispatcher.name || dispatcher.id)
+ * 6. Radio caps: extra slots stop at each dispatcher's daily, weekly and back-to-back limits,
+ *    and nobody already at their daily or weekly limit gets a minimum slot
+ * 7. Rest rules (see restRuleUtils) rule out slots in both passes, including across midnight
  * 
  * @param day Day of week
  * @param dispatchers list including availability information (workDays, preferences)
  * @param locked existing assignments to keep
+ * @param trace receives a trace for every cell placed
+ * @param tieBreaker orders options the passes rank equally (seeded for alternative runs)
+ * @param week the week as solved so far; its other days count toward weekly caps and rest rules
+ * @param locks cells kept as entered even when they break a rule (see sanitizeLockedAssignments)
  */
 export async function generateScheduleForDay(
   day: Day,
   dispatchers: ExtendedDispatcher[],
-  locked?: ScheduleDay
+  locked?: ScheduleDay,
+  trace?: AssignmentTraceLog,
+  tieBreaker: TieBreaker = NATURAL_ORDER,
+  week: Partial<Schedule> = {},
+  locks?: ScheduleLocks
 ): Promise<ScheduleDay> {
   log(`[Scheduler] ${day}: Starting schedule generation`);
   
@@ -36,36 +58,69 @@ export async function generateScheduleForDay(
   schedule = normalizeScheduleDayToIds(schedule, dispatchers);
 
   // Sanitize any pre-existing invalid assignments so auto-schedule doesn't leave red cells
-  schedule = sanitizeLockedAssignments(day, schedule, dispatchers);
+  schedule = sanitizeLockedAssignments(day, schedule, dispatchers, undefined, locks);
   
   // Prepare dispatchers (filter and sort by seniority)
   const sortedDispatchers = prepareDispatchers(dispatchers, day);
   
+  const context: WeekContext = { week, radioElsewhere: countRadioElsewhere(week, day, dispatchers) };
+
   // Process each dispatcher in seniority order
-  const assignmentResults = processDispatcherAssignments(schedule, sortedDispatchers, day);
+  const assignmentResults = processDispatcherAssignments(schedule, sortedDispatchers, day, tieBreaker, context, trace);
   
   // Second pass: assign extra radio slots to dispatchers who want them
-  const extraAssignmentResults = processExtraRadioAssignments(schedule, sortedDispatchers, day);
+  const extraAssignmentResults = processExtraRadioAssignments(schedule, sortedDispatchers, day, tieBreaker, context, trace);
   
   log(`[Scheduler] ${day}: Assignment complete - ${assignmentResults.assigned}/${sortedDispatchers.length} dispatchers assigned, ${extraAssignmentResults.assigned} extra radio slots assigned`);
   return schedule;
 }
 
+/**
+ * Timeslots the caps and rest rules leave open to one more radio slot for a dispatcher,
+ * given what they hold so far
+ */
+function createSlotFilter(
+  dispatcher: ExtendedDispatcher,
+  schedule: ScheduleDay,
+  day: Day,
+  dispatchers: ExtendedDispatcher[],
+  context: WeekContext
+): (slot: TimeSlot) => boolean {
+  const held = getRadioSlots(dispatcher.id, schedule, dispatchers);
+  const timeline = hasRestRules() ? getRadioTimeline(dispatcher.id, { ...context.week, [day]: schedule }, dispatchers) : [];
+  return (slot) =>
+    fitsRadioCaps(dispatcher, held, slot, context.radioElsewhere[dispatcher.id]) &&
+    fitsRestRules(dispatcher, timeline, day, slot);
+}
+
 /**
  * Processes primary assignments for all dispatchers
  */
 function processDispatcherAssignments(
   schedule: ScheduleDay,
   dispatchers: ExtendedDispatcher[],
-  day: Day
+  day: Day,
+  tieBreaker: TieBreaker,
+  context: WeekContext,
+  trace?: AssignmentTraceLog
 ): { assigned: number; failed: number } {
   let assignedCount = 0;
   let failedCount = 0;
   
   for (const dispatcher of dispatchers) {
-    const result = processDispatcherAssignment(dispatcher, schedule, day);
+    // Entered cells may already use up the day's or the week's radio allowance
+    const held = getRadioSlots(dispatcher.id, schedule, dispatchers).length;
+    if (held >= getDailyRadioLimit(dispatcher) || held + (context.radioElsewhere[dispatcher.id] ?? 0) >= getWeeklyRadioLimit(dispatcher)) {
+      log(`[Scheduler] ${day}: ${dispatcher.id} is at their radio cap`);
+      continue;
+    }
+    const fits = createSlotFilter(dispatcher, schedule, day, dispatchers, context);
+    const result = processDispatcherAssignment(dispatcher, schedule, day, tieBreaker, fits);
     if (result.success) {
       assignedCount++;
+      if (result.assignment) {
+        recordTrace(trace, result.pass, dispatcher, day, result.assignment.slot, result.assignment.col, schedule);
+      }
     } else {
       failedCount++;
       warn(`[Scheduler] ${day}: Failed to assign ${dispatcher.id}: ${result.error}`);
@@ -76,56 +131,73 @@ function processDispatcherAssignments(
 }
 
 /**
- * Processes a single dispatcher assignment
+ * Processes a single dispatcher assignment; the result names the pass that placed it
+ * @param fits rules out timeslots the caps and rest rules leave no room in
  */
 function processDispatcherAssignment(
   dispatcher: ExtendedDispatcher,
   schedule: ScheduleDay,
-  day: Day
-) {
+  day: Day,
+  tieBreaker: TieBreaker,
+  fits: (slot: TimeSlot) => boolean
+): AssignmentResult & { pass: AssignmentPass } {
   log(`[Scheduler] ${day}: Processing ${dispatcher.id}`);
   
   // Handle dispatchers without preferences - assign minimum slot
   if (!hasPreferences(dispatcher)) {
-    const result = assignMinimumSlot(dispatcher, schedule, day);
+    const result = assignMinimumSlot(dispatcher, schedule, day, tieBreaker, fits);
     if (result.success) {
       log(`[Scheduler] ${day}: ${dispatcher.id} assigned minimum slot, skipping preference assignment`);
     }
-    return result;
+    return { ...result, pass: 'minimum' };
   }
   
   // Handle dispatchers with preferences: try preferred, then rescue with minimum slot
-  const preferred = assignPreferredSlot(dispatcher, schedule, day);
+  const preferred = assignPreferredSlot(dispatcher, schedule, day, fits);
   if (preferred.success) {
-    return preferred;
+    return { ...preferred, pass: 'preferred' };
   }
-  const fallback = assignMinimumSlot(dispatcher, schedule, day);
+  const fallback = assignMinimumSlot(dispatcher, schedule, day, tieBreaker, fits);
   if (fallback.success) {
     log(`[Scheduler] ${day}: ${dispatcher.id} fallback to minimum slot after preferred options unavailable`);
   }
-  return fallback;
+  return { ...fallback, pass: 'minimum' };
 }
 
 /**
- * Processes extra radio assignments for dispatchers who want them
+ * Processes extra radio assignments for dispatchers who want them, one slot per dispatcher
+ * per round in scheduling order, until everyone is at their caps or nothing else fits
  */
 function processExtraRadioAssignments(
   schedule: ScheduleDay,
   dispatchers: ExtendedDispatcher[],
-  day: Day
+  day: Day,
+  tieBreaker: TieBreaker,
+  context: WeekContext,
+  trace?: AssignmentTraceLog
 ): { assigned: number; failed: number } {
   // Default: everyone is eligible for extra radio unless they choose Minimum Radio
-  const extraRadioDispatchers = dispatchers.filter(d => !d.minimumRadioOnly);
+  let open = dispatchers.filter(d => !d.minimumRadioOnly);
   let assignedCount = 0;
   let failedCount = 0;
   
-  for (const dispatcher of extraRadioDispatchers) {
-    const result = assignExtraRadioSlot(dispatcher, schedule, day);
-    if (result.success) {
-      assignedCount++;
-    } else {
-      failedCount++;
+  while (open.length > 0) {
+    const stillOpen: ExtendedDispatcher[] = [];
+    for (const dispatcher of open) {
+      if (getRadioSlots(dispatcher.id, schedule, dispatchers).length >= getDailyRadioLimit(dispatcher)) continue;
+      const fits = createSlotFilter(dispatcher, schedule, day, dispatchers, context);
+      const result = assignExtraRadioSlot(dispatcher, schedule, day, tieBreaker, fits);
+      if (result.success) {
+        assignedCount++;
+        stillOpen.push(dispatcher);
+        if (result.assignment) {
+          recordTrace(trace, 'extra-radio', dispatcher, day, result.assignment.slot, result.assignment.col, schedule);
+        }
+      } else {
+        failedCount++;
+      }
     }
+    open = stillOpen;
   }
   
   return { assigned: assignedCount, failed: failedCount };
@@ -133,17 +205,22 @@ function processExtraRadioAssignments(
 
 /**
  * Remove invalid existing assignments before scheduling (day/shift violations, disabled cells, duplicates within a timeslot)
+ * Locked cells are never removed: they are checked first, hold their trainer's timeslot, and one that
+ * breaks a rule is reported as kept.
+ * @param cleared receives every removed (or kept locked) entry with the rule it breaks
  */
-function sanitizeLockedAssignments(
+export function sanitizeLockedAssignments(
   day: Day,
   schedule: ScheduleDay,
-  dispatchers: ExtendedDispatcher[]
+  dispatchers: ExtendedDispatcher[],
+  cleared?: ClearedAssignment[],
+  locks: ScheduleLocks = {}
 ): ScheduleDay {
   const sanitized = cloneScheduleDay(schedule);
 
   // Track trainer IDs already used in a given timeslot to prevent duplicates across columns
   const seenBySlot: Record<TimeSlot, Set<string>> = {} as Record<TimeSlot, Set<string>>;
-  timeSlots.forEach((slot) => { seenBySlot[slot] = new Set<string>(); });
+  getTimeSlots().forEach((slot) => { seenBySlot[slot] = new Set<string>(); });
 
   const resolveParticipants = (value: string): ExtendedDispatcher[] => {
     if (!value) return [];
@@ -153,22 +230,36 @@ function sanitizeLockedAssignments(
       .filter((d): d is ExtendedDispatcher => !!d);
   };
 
-  timeSlots.forEach((slot) => {
+  getTimeSlots().forEach((slot) => {
     const seen = seenBySlot[slot];
+    // Locked cells first, so an unlocked duplicate is the one cleared
+    const locked = (col: Column) => isCellLocked(locks, day, slot, col);
+    const columns = [...getColumns().filter(locked), ...getColumns().filter((col) => !locked(col))];
     columns.forEach((col: Column) => {
       const val = sanitized[slot][col];
-      if (!val) return;
+      if (!val || val === HELD_CELL) return;
+
+      const clear = (reason: ClearedReason) => {
+        if (locked(col)) {
+          cleared?.push({ day, slot, col, value: val, reason, kept: true });
+          const holder = findDispatcherByIdentifier(val, dispatchers);
+          if (holder) seen.add(holder.id);
+          return;
+        }
+        sanitized[slot][col] = '';
+        cleared?.push({ day, slot, col, value: val, reason });
+      };
 
       // Block disabled cells outright
       if (isCellDisabled(day, slot, col)) {
-        sanitized[slot][col] = '';
+        clear('closed');
         return;
       }
 
       const participants = resolveParticipants(val);
       if (participants.length === 0) {
         // Unresolvable entry -> clear
-        sanitized[slot][col] = '';
+        clear('unknown');
         return;
       }
 
@@ -185,12 +276,15 @@ function sanitizeLockedAssignments(
         if (!(dayOk && shiftOk)) { valid = false; break; }
       }
 
+      if (!valid) {
+        clear('ineligible');
+        return;
+      }
+
       // Prevent duplicates of the trainer across columns within the same timeslot
       const trainerKey = trainer.id;
-      if (seen.has(trainerKey)) valid = false;
-
-      if (!valid) {
-        sanitized[slot][col] = '';
+      if (seen.has(trainerKey)) {
+        clear('duplicate');
         return;
       }
 
@@ -1,5 +1,29 @@
-// This file maintains backward compatibility by re-exporting the refactored modules
-// The actual implementation has been moved to more focused, modular files
+import GLPK, { type GLPK as GlpkInstance, type LP } from 'glpk.js';
+import {
+  Day,
+  days,
+  getTimeSlots,
+  getAssignableRadioColumns,
+  getAssignableUtilityColumns,
+  getUtilityColumns,
+  isCellDisabled,
+  isRadioColumn,
+  Column,
+  TimeSlot,
+  Schedule,
+  ScheduleLocks,
+} from '../constants';
+import { ExtendedDispatcher } from '../appTypes';
+import { AssignmentTraceLog, ScheduleDay } from './solverTypes';
+import { createEmptyScheduleDay, cloneScheduleDay, normalizeScheduleDayToIds, isDispatcherInTimeslot, countSlotsPerDispatcher } from './utils/scheduleOps';
+import { isEligibleOnDayForSlot, isShiftSlotAvailable, isSlotInShift } from './utils/shiftUtils';
+import { getWeekWorkDays } from './utils/availabilityUtils';
+import { prepareDispatchers, generatePreferredAssignments, hasPreferences, getSeniorityRank } from './utils/assignmentUtils';
+import { generateScheduleForDay, sanitizeLockedAssignments } from './dayScheduler';
+import { recordTrace } from './utils/traceUtils';
+import { countRadioElsewhere, getDailyRadioLimit, getRadioSlots, getWeeklyRadioLimit } from './utils/radioCapUtils';
+import { getRadioTimeline, getRestRules, hasRestRules, isShiftEdge, weekRow } from './utils/restRuleUtils';
+import { NATURAL_ORDER, TieBreaker } from './utils/tieBreakUtils';
 
 // Re-export types for backward compatibility
 export type { ScheduleDay, Assignment } from './solverTypes';
@@ -8,18 +32,542 @@ export type { ScheduleDay, Assignment } from './solverTypes';
 export { generateScheduleForDay } from './dayScheduler';
 export { assignUTSlots } from './utils/utAssignmentUtils';
 
-// Note: The original large glpkScheduler.ts file has been refactored into:
-// - ./types.ts - Type definitions
-// - ./dayScheduler.ts - Main day scheduling logic
-// - ./utils/scheduleUtils.ts - Schedule manipulation utilities
-// - ./utils/shiftUtils.ts - Shift-related utilities
-// - ./utils/assignmentUtils.ts - Assignment logic utilities
-// - ./utils/utAssignmentUtils.ts - UT assignment utilities
-// - ./utils/fallbackUtils.ts - Fallback assignment strategies
-//
-// This modular approach provides:
-// - Better separation of concerns
-// - Improved testability
-// - Easier maintenance
-// - Better type safety
-// - Performance improvements (no more JSON.parse/stringify for cloning)
+// Debug logging toggle for the ILP scheduler
+const DEBUG = false;
+const log = (...args: unknown[]) => { if (DEBUG) console.log(...args); };
+
+/**
+ * Objective weights. Coverage of "at least one slot per dispatcher per day" and
+ * "one UT per dispatcher per week" dominate every other term, then seniority-weighted
+ * preference hits, then plain cell fill.
+ */
+const MIN_SLOT_REWARD = 1000;
+const REQUIRED_UT_REWARD = 1000;
+const PREFERENCE_SCALE = 10;
+const FILL_REWARD = 1;
+/** Largest seeded nudge per variable; small enough to only decide between equal solutions */
+const TIE_BREAK_WEIGHT = 1e-4;
+
+/** Time limits handed to GLPK (seconds) */
+const DAY_SOLVE_TIME_LIMIT_SECONDS = 10;
+const WEEK_SOLVE_TIME_LIMIT_SECONDS = 30;
+
+// GLPK is instantiated lazily; in the browser build this spins up a worker
+let glpkInstance: Promise<GlpkInstance> | null = null;
+const getGlpk = (): Promise<GlpkInstance> => {
+  if (!glpkInstance) {
+    // The browser build resolves asynchronously, the Node build synchronously
+    glpkInstance = Promise.resolve(GLPK() as GlpkInstance | Promise<GlpkInstance>);
+  }
+  return glpkInstance;
+};
+
+type CellVar = {
+  name: string;
+  dispatcherId: string;
+  day: Day;
+  slot: TimeSlot;
+  col: Column;
+};
+
+/**
+ * Accumulates variables and constraints while a model is being built
+ */
+interface ModelParts {
+  objective: { name: string; coef: number }[];
+  subjectTo: LP['subjectTo'];
+  binaries: string[];
+  cellVars: CellVar[];
+  /** Variables occupying a dispatcher's timeslot, keyed by `${dispatcherId}|${day}|${slot}` */
+  timeslotVars: Map<string, string[]>;
+  /** Radio cell variables of each dispatcher across every day in the model */
+  radioVars: Map<string, string[]>;
+}
+
+const createModelParts = (): ModelParts => ({
+  objective: [],
+  subjectTo: [],
+  binaries: [],
+  cellVars: [],
+  timeslotVars: new Map(),
+  radioVars: new Map(),
+});
+
+/**
+ * Normalized preference score for every (slot, column) a dispatcher ranked.
+ * Best option scores 1, the worst ranked option approaches 0; unranked cells are absent.
+ */
+function buildPreferenceScores(dispatcher: ExtendedDispatcher, schedule: ScheduleDay): Map<string, number> {
+  const scores = new Map<string, number>();
+  if (!hasPreferences(dispatcher)) return scores;
+  const ranked = generatePreferredAssignments(dispatcher, schedule);
+  if (ranked.length === 0) return scores;
+  const maxPriority = ranked[ranked.length - 1].priority;
+  ranked.forEach((a) => {
+    scores.set(`${a.slot}|${a.col}`, 1 - a.priority / (maxPriority + 1));
+  });
+  return scores;
+}
+
+const pushTimeslotVar = (parts: ModelParts, dispatcherId: string, day: Day, slot: TimeSlot, name: string) => {
+  const key = `${dispatcherId}|${day}|${slot}`;
+  const list = parts.timeslotVars.get(key) || [];
+  list.push(name);
+  parts.timeslotVars.set(key, list);
+};
+
+/**
+ * Adds radio cell variables for one day together with the daily and back-to-back caps
+ * and the "at least one slot" reward for every available dispatcher.
+ */
+function addRadioDayModel(
+  parts: ModelParts,
+  glpk: GlpkInstance,
+  day: Day,
+  dispatchers: ExtendedDispatcher[],
+  schedule: ScheduleDay,
+  tieBreaker: TieBreaker
+): void {
+  const dayIdx = days.indexOf(day);
+  // Seniority order: index 0 is the most senior
+  const sortedDispatchers = prepareDispatchers(dispatchers, day);
+  const lockedCounts = countSlotsPerDispatcher(schedule, dispatchers);
+  const n = sortedDispatchers.length;
+
+  sortedDispatchers.forEach((dispatcher, dIdx) => {
+    const seniorityWeight = (n - dIdx) / n;
+    const prefScores = buildPreferenceScores(dispatcher, schedule);
+    const ownVars: string[] = [];
+    const held = getRadioSlots(dispatcher.id, schedule, dispatchers);
+    // Variables per timeslot, in grid order
+    const slotVars: string[][] = getTimeSlots().map(() => []);
+
+    const radioColumns = getAssignableRadioColumns();
+    const avoidEdges = getRestRules().avoidShiftEdges;
+
+    getTimeSlots().forEach((slot, sIdx) => {
+      if (!isEligibleOnDayForSlot(dispatcher, day, slot)) return;
+      if (!isSlotInShift(dispatcher, slot)) return;
+      if (avoidEdges && isShiftEdge(dispatcher, slot)) return;
+      if (isDispatcherInTimeslot(dispatcher.id, schedule, slot)) return;
+
+      radioColumns.forEach((col, cIdx) => {
+        if (schedule[slot][col]) return;
+        if (isCellDisabled(day, slot, col)) return;
+        const name = `x_${dayIdx}_${dIdx}_${sIdx}_${cIdx}`;
+        const pref = prefScores.get(`${slot}|${col}`) ?? 0;
+        parts.cellVars.push({ name, dispatcherId: dispatcher.id, day, slot, col });
+        parts.objective.push({
+          name,
+          coef: FILL_REWARD + PREFERENCE_SCALE * seniorityWeight * pref + TIE_BREAK_WEIGHT * tieBreaker.next(),
+        });
+        parts.binaries.push(name);
+        pushTimeslotVar(parts, dispatcher.id, day, slot, name);
+        ownVars.push(name);
+        slotVars[sIdx].push(name);
+      });
+    });
+
+    if (ownVars.length === 0) return;
+    parts.radioVars.set(dispatcher.id, [...(parts.radioVars.get(dispatcher.id) ?? []), ...ownVars]);
+
+    // Daily radio cap, counting cells already held (mirrors the greedy primary + extra radio passes)
+    parts.subjectTo.push({
+      name: `cap_${dayIdx}_${dIdx}`,
+      vars: ownVars.map((v) => ({ name: v, coef: 1 })),
+      bnds: { type: glpk.GLP_UP, ub: Math.max(0, getDailyRadioLimit(dispatcher) - held.length), lb: 0 },
+    });
+
+    // Every window of one more timeslot than the back-to-back cap holds at most the cap
+    const consecutive = dispatcher.maxConsecutiveRadio;
+    if (consecutive !== undefined) {
+      const grid = getTimeSlots();
+      for (let first = 0; first + consecutive < grid.length; first++) {
+        const span = grid.slice(first, first + consecutive + 1);
+        const vars = slotVars.slice(first, first + consecutive + 1).flat();
+        if (vars.length === 0) continue;
+        parts.subjectTo.push({
+          name: `run_${dayIdx}_${dIdx}_${first}`,
+          vars: vars.map((v) => ({ name: v, coef: 1 })),
+          bnds: { type: glpk.GLP_UP, ub: Math.max(0, consecutive - span.filter((s) => held.includes(s)).length), lb: 0 },
+        });
+      }
+    }
+
+    // y[d] <= locked + sum(x[d,*,*])
+    const yName = `y_${dayIdx}_${dIdx}`;
+    parts.binaries.push(yName);
+    parts.objective.push({ name: yName, coef: MIN_SLOT_REWARD });
+    parts.subjectTo.push({
+      name: `min_${dayIdx}_${dIdx}`,
+      vars: [{ name: yName, coef: 1 }, ...ownVars.map((v) => ({ name: v, coef: -1 }))],
+      bnds: { type: glpk.GLP_UP, ub: lockedCounts[dispatcher.id] || 0, lb: 0 },
+    });
+  });
+}
+
+/**
+ * Caps each dispatcher's radio cells in the model at their weekly limit
+ * @param held radio cells each dispatcher already holds in the week
+ */
+function addWeeklyRadioCaps(
+  parts: ModelParts,
+  glpk: GlpkInstance,
+  dispatchers: ExtendedDispatcher[],
+  held: Record<string, number>
+): void {
+  dispatchers.forEach((dispatcher, dIdx) => {
+    const limit = getWeeklyRadioLimit(dispatcher);
+    const vars = parts.radioVars.get(dispatcher.id);
+    if (!Number.isFinite(limit) || !vars) return;
+    parts.subjectTo.push({
+      name: `week_${dIdx}`,
+      vars: vars.map((v) => ({ name: v, coef: 1 })),
+      bnds: { type: glpk.GLP_UP, ub: Math.max(0, limit - (held[dispatcher.id] ?? 0)), lb: 0 },
+    });
+  });
+}
+
+/**
+ * Adds the run-length and gap rest rules over rows of the week, so runs carry on across
+ * midnight. Radio cells already held in `week` count as constants; a gap that locked cells
+ * already break on both sides is left alone.
+ */
+function addRestRuleConstraints(
+  parts: ModelParts,
+  glpk: GlpkInstance,
+  dispatchers: ExtendedDispatcher[],
+  week: Partial<Schedule>
+): void {
+  if (!hasRestRules()) return;
+  const { maxConsecutive, minGap } = getRestRules();
+  const rowCount = days.length * getTimeSlots().length;
+
+  dispatchers.forEach((dispatcher, dIdx) => {
+    // Radio variables of the dispatcher by week row; at most one of each row is chosen
+    const rowVars = new Map<number, string[]>();
+    parts.cellVars.forEach((v) => {
+      if (v.dispatcherId !== dispatcher.id || !isRadioColumn(v.col)) return;
+      const row = weekRow(v.day, v.slot);
+      rowVars.set(row, [...(rowVars.get(row) ?? []), v.name]);
+    });
+    if (rowVars.size === 0) return;
+    const held = new Set(getRadioTimeline(dispatcher.id, week, dispatchers));
+    const varsIn = (from: number, to: number) => {
+      const vars: string[] = [];
+      for (let r = from; r <= to; r++) vars.push(...(rowVars.get(r) ?? []));
+      return vars;
+    };
+    const heldIn = (from: number, to: number) => {
+      let count = 0;
+      for (let r = from; r <= to; r++) if (held.has(r)) count++;
+      return count;
+    };
+
+    // Every window of one more row than the run limit holds at most the limit
+    if (maxConsecutive > 0) {
+      for (let first = 0; first + maxConsecutive < rowCount; first++) {
+        const last = first + maxConsecutive;
+        const vars = varsIn(first, last);
+        if (vars.length === 0) continue;
+        parts.subjectTo.push({
+          name: `rest_run_${dIdx}_${first}`,
+          vars: vars.map((v) => ({ name: v, coef: 1 })),
+          bnds: { type: glpk.GLP_UP, ub: Math.max(0, maxConsecutive - heldIn(first, last)), lb: 0 },
+        });
+      }
+    }
+
+    // Radio at rows a and b with fewer than minGap rows between needs one of those rows taken:
+    // x[a] + x[b] - sum(x between) <= 1
+    if (minGap > 0) {
+      for (let a = 0; a < rowCount; a++) {
+        for (let b = a + 2; b <= a + minGap && b < rowCount; b++) {
+          const open = (r: number) => rowVars.has(r) || held.has(r);
+          if (!open(a) || !open(b) || (held.has(a) && held.has(b))) continue;
+          parts.subjectTo.push({
+            name: `rest_gap_${dIdx}_${a}_${b}`,
+            vars: [
+              ...[...varsIn(a, a), ...varsIn(b, b)].map((v) => ({ name: v, coef: 1 })),
+              ...varsIn(a + 1, b - 1).map((v) => ({ name: v, coef: -1 })),
+            ],
+            bnds: { type: glpk.GLP_UP, ub: 1 - heldIn(a, a) - heldIn(b, b) + heldIn(a + 1, b - 1), lb: 0 },
+          });
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Emits "one cell per dispatcher per timeslot" and "one dispatcher per cell" constraints
+ * for everything collected in the model so far.
+ */
+function addOccupancyConstraints(parts: ModelParts, glpk: GlpkInstance): void {
+  let idx = 0;
+  parts.timeslotVars.forEach((names) => {
+    if (names.length > 1) {
+      parts.subjectTo.push({
+        name: `slot_${idx}`,
+        vars: names.map((v) => ({ name: v, coef: 1 })),
+        bnds: { type: glpk.GLP_UP, ub: 1, lb: 0 },
+      });
+    }
+    idx++;
+  });
+
+  const varsByCell = new Map<string, string[]>();
+  parts.cellVars.forEach((v) => {
+    const key = `${v.day}|${v.slot}|${v.col}`;
+    const list = varsByCell.get(key) || [];
+    list.push(v.name);
+    varsByCell.set(key, list);
+  });
+  idx = 0;
+  varsByCell.forEach((names) => {
+    if (names.length > 1) {
+      parts.subjectTo.push({
+        name: `cell_${idx}`,
+        vars: names.map((v) => ({ name: v, coef: 1 })),
+        bnds: { type: glpk.GLP_UP, ub: 1, lb: 0 },
+      });
+    }
+    idx++;
+  });
+}
+
+/**
+ * Solves the model and returns the chosen cell variables, or null when GLPK
+ * could not produce a feasible solution.
+ */
+async function solveModel(
+  parts: ModelParts,
+  glpk: GlpkInstance,
+  name: string,
+  timeLimitSeconds: number
+): Promise<CellVar[] | null> {
+  const lp: LP = {
+    name,
+    objective: { direction: glpk.GLP_MAX, name: 'score', vars: parts.objective },
+    subjectTo: parts.subjectTo,
+    binaries: parts.binaries,
+  };
+
+  try {
+    const result = await glpk.solve(lp, { msglev: glpk.GLP_MSG_OFF, tmlim: timeLimitSeconds });
+    const status = result.result.status;
+    if (status !== glpk.GLP_OPT && status !== glpk.GLP_FEAS) {
+      console.warn(`[ILP] ${name}: GLPK returned status ${status}`);
+      return null;
+    }
+    log(`[ILP] ${name}: objective ${result.result.z}`);
+    return parts.cellVars.filter((v) => (result.result.vars[v.name] ?? 0) > 0.5);
+  } catch (error) {
+    console.warn(`[ILP] ${name}: GLPK solve failed`, error);
+    return null;
+  }
+}
+
+/**
+ * Records traces for the cells a model chose, once all of them are in the schedule
+ */
+function traceChosen(
+  trace: AssignmentTraceLog | undefined,
+  chosen: CellVar[],
+  dispatchers: ExtendedDispatcher[],
+  scheduleFor: (v: CellVar) => ScheduleDay
+): void {
+  if (!trace) return;
+  const byId = new Map(dispatchers.map((d) => [d.id, d]));
+  chosen.forEach((v) => {
+    const dispatcher = byId.get(v.dispatcherId);
+    if (dispatcher) recordTrace(trace, 'ilp', dispatcher, v.day, v.slot, v.col, scheduleFor(v));
+  });
+}
+
+/**
+ * Generate a schedule for a single day with an integer-programming model.
+ *
+ * MODEL:
+ * - Binary x[d,s,c] for every empty, enabled radio cell a dispatcher may work
+ *   (work day / spillover via isEligibleOnDayForSlot, shift via isSlotInShift)
+ * - Each cell holds at most one dispatcher
+ * - Each dispatcher holds at most one cell per timeslot (including locked cells)
+ * - Radio slots per dispatcher, counting locked ones: their daily limit (1 for
+ *   minimumRadioOnly, otherwise maxRadioPerDay or 2, mirroring the greedy passes), their
+ *   weekly limit with the other days' cells, and at most maxConsecutiveRadio back to back
+ * - Rest rules: no variables on shift edge rows when those are avoided; run length and gaps
+ *   are limited over rows of the week, counting the other days' cells
+ * - Binary y[d] rewards every dispatcher having at least one slot for the day
+ * - Objective: MIN_SLOT_REWARD * y + x * (FILL_REWARD + PREFERENCE_SCALE * seniorityWeight * preferenceScore)
+ *
+ * Falls back to the greedy day scheduler if GLPK cannot produce a feasible solution.
+ *
+ * @param day Day of week
+ * @param dispatchers list including availability information (workDays, preferences)
+ * @param locked existing assignments to keep
+ * @param trace receives a trace for every cell placed
+ * @param tieBreaker nudges the objective to pick between equally good solutions (seeded for alternative runs)
+ * @param week the week as solved so far; its other days count toward weekly caps and rest rules
+ * @param locks cells kept as entered even when they break a rule
+ */
+export async function generateScheduleForDayILP(
+  day: Day,
+  dispatchers: ExtendedDispatcher[],
+  locked?: ScheduleDay,
+  trace?: AssignmentTraceLog,
+  tieBreaker: TieBreaker = NATURAL_ORDER,
+  week: Partial<Schedule> = {},
+  locks?: ScheduleLocks
+): Promise<ScheduleDay> {
+  log(`[ILP] ${day}: Starting schedule generation`);
+
+  let schedule: ScheduleDay = locked ? cloneScheduleDay(locked) : createEmptyScheduleDay();
+  schedule = normalizeScheduleDayToIds(schedule, dispatchers);
+  schedule = sanitizeLockedAssignments(day, schedule, dispatchers, undefined, locks);
+
+  const glpk = await getGlpk();
+  const parts = createModelParts();
+  addRadioDayModel(parts, glpk, day, dispatchers, schedule, tieBreaker);
+  if (parts.cellVars.length === 0) return schedule;
+  const radioElsewhere = countRadioElsewhere(week, day, dispatchers);
+  const heldInWeek = Object.fromEntries(
+    dispatchers.map((d) => [d.id, (radioElsewhere[d.id] ?? 0) + getRadioSlots(d.id, schedule, dispatchers).length])
+  );
+  addWeeklyRadioCaps(parts, glpk, dispatchers, heldInWeek);
+  addRestRuleConstraints(parts, glpk, dispatchers, { ...week, [day]: schedule });
+  addOccupancyConstraints(parts, glpk);
+
+  const chosen = await solveModel(parts, glpk, `radio_${day}`, DAY_SOLVE_TIME_LIMIT_SECONDS);
+  if (!chosen) {
+    console.warn(`[ILP] ${day}: using greedy scheduler`);
+    return generateScheduleForDay(day, dispatchers, locked, trace, tieBreaker, week, locks);
+  }
+
+  chosen.forEach((v) => {
+    schedule[v.slot][v.col] = v.dispatcherId;
+  });
+  traceChosen(trace, chosen, dispatchers, () => schedule);
+  log(`[ILP] ${day}: ${chosen.length} cells assigned`);
+  return schedule;
+}
+
+/**
+ * Adds UT variables for the whole week: exactly-one-UT coverage is rewarded for every
+ * eligible dispatcher, further UT slots are only open to wantsExtraUtility volunteers.
+ * UT eligibility matches assignUTSlots: a work day of the week (no spillover) and an available slot in shift.
+ */
+function addUtilityWeekModel(
+  parts: ModelParts,
+  glpk: GlpkInstance,
+  week: Schedule,
+  dispatchers: ExtendedDispatcher[],
+  tieBreaker: TieBreaker
+): void {
+  const utDispatchers = [...dispatchers]
+    .filter((d) => getWeekWorkDays(d).length > 0 && !d.excludeFromAutoSchedule && !(d.isTrainee || d.traineeOf))
+    .sort((a, b) => getSeniorityRank(a) - getSeniorityRank(b));
+
+  const utilityColumns = getAssignableUtilityColumns();
+
+  // Existing UT assignments (on any utility channel) count toward the weekly requirement
+  const lockedUt = new Map<string, number>();
+  days.forEach((day) => {
+    getTimeSlots().forEach((slot) => {
+      getUtilityColumns().forEach((col) => {
+        const value = (week[day][slot][col] || '').trim();
+        if (value) lockedUt.set(value, (lockedUt.get(value) || 0) + 1);
+      });
+    });
+  });
+
+  utDispatchers.forEach((dispatcher, dIdx) => {
+    const ownVars: string[] = [];
+    const workDays = getWeekWorkDays(dispatcher);
+    days.forEach((day, dayIdx) => {
+      if (!workDays.includes(day)) return;
+      const daySchedule = week[day];
+      getTimeSlots().forEach((slot, sIdx) => {
+        if (!isSlotInShift(dispatcher, slot) || !isShiftSlotAvailable(dispatcher, day, slot)) return;
+        if (isDispatcherInTimeslot(dispatcher.id, daySchedule, slot)) return;
+        utilityColumns.forEach((col, cIdx) => {
+          if (daySchedule[slot][col]) return;
+          if (isCellDisabled(day, slot, col)) return;
+          const name = `u_${dayIdx}_${dIdx}_${sIdx}_${cIdx}`;
+          parts.cellVars.push({ name, dispatcherId: dispatcher.id, day, slot, col });
+          parts.objective.push({ name, coef: (dispatcher.wantsExtraUtility ? FILL_REWARD : 0) + TIE_BREAK_WEIGHT * tieBreaker.next() });
+          parts.binaries.push(name);
+          pushTimeslotVar(parts, dispatcher.id, day, slot, name);
+          ownVars.push(name);
+        });
+      });
+    });
+
+    if (ownVars.length === 0) return;
+    const existing = lockedUt.get(dispatcher.id) || 0;
+
+    // Non-volunteers never get more than their single required UT
+    if (!dispatcher.wantsExtraUtility) {
+      parts.subjectTo.push({
+        name: `utcap_${dIdx}`,
+        vars: ownVars.map((v) => ({ name: v, coef: 1 })),
+        bnds: { type: glpk.GLP_UP, ub: Math.max(0, 1 - existing), lb: 0 },
+      });
+    }
+
+    // z[d] <= existing + sum(u[d,*,*]) rewards the weekly UT requirement
+    const zName = `z_${dIdx}`;
+    parts.binaries.push(zName);
+    parts.objective.push({ name: zName, coef: REQUIRED_UT_REWARD });
+    parts.subjectTo.push({
+      name: `utmin_${dIdx}`,
+      vars: [{ name: zName, coef: 1 }, ...ownVars.map((v) => ({ name: v, coef: -1 }))],
+      bnds: { type: glpk.GLP_UP, ub: existing, lb: 0 },
+    });
+  });
+}
+
+/**
+ * Solve radio for all seven days and UT placement in one joint model, so a dispatcher's
+ * UT slot can be traded against their radio preferences on other days.
+ *
+ * Existing (sanitized) assignments are kept as locked; locked cells are kept even when they break a rule. Returns null when GLPK could not
+ * produce a feasible solution so the caller can fall back to per-day scheduling.
+ */
+export async function generateWeeklyScheduleILP(
+  current: Schedule,
+  dispatchers: ExtendedDispatcher[],
+  trace?: AssignmentTraceLog,
+  tieBreaker: TieBreaker = NATURAL_ORDER,
+  locks?: ScheduleLocks
+): Promise<Schedule | null> {
+  log('[ILP] Week: Starting joint schedule generation');
+
+  const week = {} as Schedule;
+  days.forEach((day) => {
+    const normalized = normalizeScheduleDayToIds(cloneScheduleDay(current[day]), dispatchers);
+    week[day] = sanitizeLockedAssignments(day, normalized, dispatchers, undefined, locks);
+  });
+
+  const glpk = await getGlpk();
+  const parts = createModelParts();
+  days.forEach((day) => addRadioDayModel(parts, glpk, day, dispatchers, week[day], tieBreaker));
+  addUtilityWeekModel(parts, glpk, week, dispatchers, tieBreaker);
+  if (parts.cellVars.length === 0) return week;
+  const heldInWeek = Object.fromEntries(
+    dispatchers.map((d) => [d.id, days.reduce((sum, day) => sum + getRadioSlots(d.id, week[day], dispatchers).length, 0)])
+  );
+  addWeeklyRadioCaps(parts, glpk, dispatchers, heldInWeek);
+  addRestRuleConstraints(parts, glpk, dispatchers, week);
+  addOccupancyConstraints(parts, glpk);
+
+  const chosen = await solveModel(parts, glpk, 'radio_week', WEEK_SOLVE_TIME_LIMIT_SECONDS);
+  if (!chosen) return null;
+
+  chosen.forEach((v) => {
+    week[v.day][v.slot][v.col] = v.dispatcherId;
+  });
+  traceChosen(trace, chosen, dispatchers, (v) => week[v.day]);
+  log(`[ILP] Week: ${chosen.length} cells assigned`);
+  return week;
+}
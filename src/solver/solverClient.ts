@@ -0,0 +1,70 @@
+import { Schedule, getChannelDefinitions, getTimeSlotGrid } from '../constants';
+import { ExtendedDispatcher } from '../appTypes';
+import { SolveProgress } from './solverTypes';
+import { getShiftDefinitions } from './utils/shiftUtils';
+import { getRestRules } from './utils/restRuleUtils';
+import type { SolveRequest, SolveRun, SolverWorkerMessage } from './workerProtocol';
+
+export type SolveOutcome =
+  | { success: true; runs: SolveRun[] }
+  | { success: false; canceled?: boolean; timedOut?: boolean; error?: string };
+
+/** A solve running in its worker; cancelling (or running out of time) ends the worker */
+export interface SolveJob {
+  outcome: Promise<SolveOutcome>;
+  cancel: () => void;
+}
+
+export interface SolveJobOptions {
+  /** The worker is stopped once the job takes longer than this */
+  timeBudgetMs: number;
+  /** One run per seed, for alternative weeks; default a single unseeded run */
+  seeds?: number[];
+  onProgress?: (progress: SolveProgress) => void;
+}
+
+/**
+ * Runs generateWeeklySchedule in a dedicated worker so the window stays responsive. The
+ * active slot grid, channels and shifts are sent along with the week. A canceled or timed
+ * out job never produces a result.
+ */
+export function startSolveJob(
+  current: Schedule,
+  roster: ExtendedDispatcher[],
+  options: SolveRequest['options'],
+  { timeBudgetMs, seeds = [0], onProgress }: SolveJobOptions
+): SolveJob {
+  const worker = new Worker(new URL('./solverWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (outcome: SolveOutcome) => void = () => {};
+  const outcome = new Promise<SolveOutcome>((resolve) => {
+    settle = resolve;
+  });
+
+  const finish = (result: SolveOutcome) => {
+    window.clearTimeout(timer);
+    worker.terminate();
+    settle(result);
+    settle = () => {};
+  };
+  const timer = window.setTimeout(() => finish({ success: false, timedOut: true }), timeBudgetMs);
+
+  worker.addEventListener('message', (event: MessageEvent<SolverWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'progress') onProgress?.(message.progress);
+    else if (message.type === 'done') finish({ success: true, runs: message.runs });
+    else finish({ success: false, error: message.message });
+  });
+  worker.addEventListener('error', (event) => finish({ success: false, error: event.message || 'The solver worker failed to start' }));
+
+  const request: SolveRequest = {
+    type: 'solve',
+    config: { grid: getTimeSlotGrid(), channels: getChannelDefinitions(), shifts: getShiftDefinitions(), restRules: getRestRules() },
+    current,
+    roster,
+    options,
+    seeds,
+  };
+  worker.postMessage(request);
+
+  return { outcome, cancel: () => finish({ success: false, canceled: true }) };
+}
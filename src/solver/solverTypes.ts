@@ -1,4 +1,5 @@
-import { TimeSlot, Column } from '../constants';
+import { Day, TimeSlot, Column, Schedule, ScheduleLocks, ScheduleScope } from '../constants';
+import { FairnessLedger } from '../appTypes';
 
 /**
  * Represents a single day's schedule with all time slots and columns
@@ -31,3 +32,187 @@ export interface AssignmentResult extends OperationResult {
   dispatcherKey?: string;
 }
 
+
+/**
+ * The scheduler pass that placed a cell:
+ * - 'preferred' / 'minimum' / 'extra-radio': greedy day passes
+ * - 'ut-primary' / 'ut-fallback' / 'ut-extra': weekly UT passes
+ * - 'shift-aware-fallback' / 'round-robin-fallback': fallbacks for days left empty
+ * - 'ilp': chosen by a GLPK model
+ */
+export type AssignmentPass =
+  | 'preferred'
+  | 'minimum'
+  | 'extra-radio'
+  | 'ut-primary'
+  | 'ut-fallback'
+  | 'ut-extra'
+  | 'shift-aware-fallback'
+  | 'round-robin-fallback'
+  | 'ilp';
+
+/**
+ * Why a better-ranked option did not go to the dispatcher: another dispatcher holds it,
+ * the channel is closed, the dispatcher is unavailable then, they already work that
+ * timeslot elsewhere, or it is still open (the pass weighed it against other goals).
+ */
+export type OptionBlock = 'held' | 'closed' | 'unavailable' | 'busy' | 'open';
+
+export interface BetterOption {
+  slot: TimeSlot;
+  col: Column;
+  block: OptionBlock;
+  heldBy?: string;
+}
+
+/**
+ * Explains one auto-assigned cell
+ */
+export interface AssignmentTrace {
+  day: Day;
+  slot: TimeSlot;
+  col: Column;
+  dispatcherId: string;
+  pass: AssignmentPass;
+  /** 1-based rank of the cell among the dispatcher's preferred options; unset when unranked */
+  preferenceRank?: number;
+  /** Number of options the dispatcher's preferences rank (unset without preferences) */
+  preferenceCount?: number;
+  /** The best-ranked options above the cell, capped; betterOptionCount has the full count */
+  betterOptions: BetterOption[];
+  betterOptionCount: number;
+}
+
+/** Traces of a solver run keyed by `${day}|${slot}|${col}` (see traceKey) */
+export type AssignmentTraceLog = Map<string, AssignmentTrace>;
+
+/**
+ * Available scheduling engines:
+ * - 'greedy': seniority-ordered sequential passes (preferred, minimum, extra radio)
+ * - 'glpk': integer-programming model solved per day with GLPK
+ * - 'glpk-week': one GLPK model for the whole week, placing radio and UT jointly
+ */
+export type SolverEngine = 'greedy' | 'glpk' | 'glpk-week';
+
+/**
+ * Options accepted by the weekly scheduler
+ */
+export interface WeeklyScheduleOptions {
+  engine?: SolverEngine;
+  /** Balances the fairness ledger against seniority when deciding who picks first */
+  fairness?: FairnessOptions;
+  /** Receives a trace for every cell the run fills */
+  trace?: AssignmentTraceLog;
+  /**
+   * Cells to keep exactly as they are; every other cell is re-solved. Without locks every
+   * non-empty cell is kept unless it breaks a rule.
+   */
+  locks?: ScheduleLocks;
+  /** Limits the run to these cells; everything outside the scope is held as it is */
+  scope?: ScheduleScope;
+  /**
+   * Varies the choice between options the solver ranks equally, for alternative weeks. The
+   * same seed gives the same week; 0 or unset keeps the natural order.
+   */
+  seed?: number;
+  /** Called as the run starts each step (a day, the joint week model or UT assignment) */
+  onProgress?: (progress: SolveProgress) => void;
+}
+
+/** Where a running solve is: `step` is being worked on, `completed` of `total` steps are done */
+export interface SolveProgress {
+  step: string;
+  completed: number;
+  total: number;
+}
+
+/**
+ * Fairness input for the weekly scheduler: the ledger, the week being scheduled and how
+ * strongly (0-1) the ledger balance over the last `windowWeeks` weeks outweighs seniority.
+ */
+export interface FairnessOptions {
+  ledger: FairnessLedger;
+  weekStart: string;
+  weight: number;
+  windowWeeks: number;
+}
+
+/** A schedule cell, identified by day, timeslot and channel */
+export interface ScheduleCell {
+  day: Day;
+  slot: TimeSlot;
+  col: Column;
+}
+
+/**
+ * Why sanitizeLockedAssignments dropped an existing entry before solving: the channel is
+ * closed, the name matches no dispatcher, the dispatcher cannot work that day/slot, or
+ * they already hold another channel in the same timeslot.
+ */
+export type ClearedReason = 'closed' | 'unknown' | 'ineligible' | 'duplicate';
+
+export interface ClearedAssignment extends ScheduleCell {
+  value: string;
+  reason: ClearedReason;
+  /** Locked entry left in place despite the rule it breaks */
+  kept?: boolean;
+}
+
+/**
+ * What an Auto Schedule run left undone: empty radio cells, available dispatchers with no
+ * slot on a day, dispatchers without their weekly UT, days where a dispatcher got none of
+ * their preferred options, and existing entries the solver ignored because they break a rule.
+ */
+export interface ScheduleReport {
+  emptyCells: ScheduleCell[];
+  zeroSlotDays: Array<{ dispatcherId: string; day: Day }>;
+  missingUt: string[];
+  preferenceMisses: Array<{ dispatcherId: string; day: Day }>;
+  clearedAssignments: ClearedAssignment[];
+  /** Locked entries kept as entered although they break a rule */
+  keptAssignments: ClearedAssignment[];
+}
+
+/**
+ * Result of a weekly solver run
+ */
+export interface WeeklyScheduleResult {
+  schedule: Schedule;
+  report: ScheduleReport;
+}
+
+/** One cell whose value differs between two schedules */
+export interface CellChange extends ScheduleCell {
+  before: string;
+  after: string;
+}
+
+/** A dispatcher who cannot work some (or all) timeslots of a day */
+export interface CallOff {
+  dispatcherId: string;
+  day: Day;
+  slots: TimeSlot[];
+}
+
+/**
+ * Proposed schedule after a call-off: the dispatcher's cells are vacated and, where someone
+ * eligible is free, refilled one for one. `changes` lists every cell that differs.
+ */
+export interface CallOffRepair {
+  schedule: Schedule;
+  changes: CellChange[];
+  /** Vacated cells nobody eligible could take */
+  unfilled: UnfilledCell[];
+}
+
+/** A vacated cell left empty; `trainee` names a trainee who lost their trainer with it */
+export interface UnfilledCell extends ScheduleCell {
+  trainee?: string;
+}
+
+/** Cells a dispatcher gained and lost between two schedules */
+export interface DispatcherChanges {
+  dispatcherId: string;
+  added: ScheduleCell[];
+  removed: ScheduleCell[];
+}
@@ -0,0 +1,40 @@
+import { applyChannelDefinitions, applyTimeSlotGrid } from '../constants';
+import { generateWeeklySchedule } from './weekScheduler';
+import { AssignmentTraceLog } from './solverTypes';
+import { applyShiftDefinitions } from './utils/shiftUtils';
+import { applyRestRules } from './utils/restRuleUtils';
+import type { SolveRequest, SolveRun, SolverWorkerMessage } from './workerProtocol';
+
+// Runs generateWeeklySchedule off the renderer thread; started by solverClient.ts
+const post = (message: SolverWorkerMessage) => (self as unknown as Worker).postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<SolveRequest>) => {
+  const { config, current, roster, options, seeds } = event.data;
+
+  // Module state is per worker, so the renderer's active configuration comes with the request
+  applyTimeSlotGrid(config.grid);
+  applyChannelDefinitions(config.channels);
+  applyShiftDefinitions(config.shifts);
+  applyRestRules(config.restRules);
+
+  try {
+    const runs: SolveRun[] = [];
+    for (const [index, seed] of seeds.entries()) {
+      const trace: AssignmentTraceLog = new Map();
+      const result = await generateWeeklySchedule(current, roster, {
+        ...options,
+        seed,
+        trace,
+        onProgress: ({ step, ...progress }) =>
+          post({
+            type: 'progress',
+            progress: { ...progress, step: seeds.length > 1 ? `candidate ${index + 1} of ${seeds.length}, ${step}` : step },
+          }),
+      });
+      runs.push({ seed, result, trace });
+    }
+    post({ type: 'done', runs });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -1,8 +1,10 @@
-import { Day, TimeSlot, Column, columns, timeSlots, isCellDisabled } from '../../constants';
+import { Day, TimeSlot, Column, getAssignableRadioColumns, getTimeSlots, isCellDisabled } from '../../constants';
 import { ExtendedDispatcher, extractBadgeNumber } from '../../appTypes';
 import { ScheduleDay, Assignment, AssignmentResult } from '../solverTypes';
-import { getEligibleSlots, isEligibleOnDayForSlot, getPreviousDay } from './shiftUtils';
+import { getEligibleSlots, isEligibleOnDayForSlot, isAvailableOnDay } from './shiftUtils';
+import { isOnLeave } from './availabilityUtils';
 import { isDispatcherInTimeslot } from './scheduleOps';
+import { NATURAL_ORDER, TieBreaker } from './tieBreakUtils';
 
 // Debug logging toggle for scheduler utils
 const DEBUG = false;
@@ -14,7 +16,7 @@ const log = (...args: unknown[]) => { if (DEBUG) console.log(...args); };
  * Falls back to numeric badgeNumber, then digits parsed from string badgeNumber (e.g., "D3016" -> 3016),
  * and finally falls back to extractBadgeNumber(id).
  */
-function getSeniorityRank(d: ExtendedDispatcher): number {
+export function getSeniorityRank(d: ExtendedDispatcher): number {
   // Prefer explicit seniority rank if present
   if (typeof d.seniority === 'number' && !Number.isNaN(d.seniority)) {
     return d.seniority;
@@ -33,6 +35,17 @@ function getSeniorityRank(d: ExtendedDispatcher): number {
   return extractBadgeNumber(d.id);
 }
 
+/**
+ * Orders dispatchers for picking: by fairnessPriority when the fairness ledger is applied
+ * (see applyFairness), otherwise by seniority rank.
+ */
+function compareSchedulingOrder(a: ExtendedDispatcher, b: ExtendedDispatcher): number {
+  if (a.fairnessPriority !== undefined && b.fairnessPriority !== undefined && a.fairnessPriority !== b.fairnessPriority) {
+    return a.fairnessPriority - b.fairnessPriority;
+  }
+  return getSeniorityRank(a) - getSeniorityRank(b);
+}
+
 /**
  * Filters and sorts dispatchers by availability and seniority
  */
@@ -48,20 +61,20 @@ export function prepareDispatchers(dispatchers: ExtendedDispatcher[], day: Day):
       log(`[Scheduler] ${day}: Skipping ${d.id} - trainee`);
       return false;
     }
-    if (d.workDays && d.workDays.length > 0 && !d.workDays.includes(day)) {
-      // Allow E/F shift spillover eligibility if they worked the previous day
-      const prev = getPreviousDay(day);
-      const spilloverEligible = (d.shift === 'E' || d.shift === 'F') && d.workDays.includes(prev);
-      if (!spilloverEligible) {
-        log(`[Scheduler] ${day}: Skipping ${d.id} - not a work day`);
-        return false;
-      }
+    if (isOnLeave(d, day)) {
+      log(`[Scheduler] ${day}: Skipping ${d.id} - on leave`);
+      return false;
+    }
+    // Allow overnight shift spillover eligibility if they worked the previous day
+    if (!isAvailableOnDay(d, day)) {
+      log(`[Scheduler] ${day}: Skipping ${d.id} - not a work day`);
+      return false;
     }
     return true;
   });
   
-  // Sort by seniority (lower badge number = higher seniority)
-  const sortedDispatchers = availableDispatchers.sort((a, b) => getSeniorityRank(a) - getSeniorityRank(b));
+  // Sort by seniority (lower badge number = higher seniority), or by the fairness blend when set
+  const sortedDispatchers = availableDispatchers.sort(compareSchedulingOrder);
   
   log(`[Scheduler] ${day}: Processing ${sortedDispatchers.length} dispatchers by seniority:`);
   sortedDispatchers.forEach(d => {
@@ -85,9 +98,10 @@ export function generatePreferredAssignments(
   // Hoist eligible slots; this also acts as the default for time preferences
   const eligibleSlots = getEligibleSlots(dispatcher);
 
-  // Start from UI-provided or all columns, then exclude UT robustly
-  const rawChannelPrefs = hasChannelPrefs ? (dispatcher.preferredChannels! as Column[]) : [...columns];
-  const channelPrefs = rawChannelPrefs.filter((col) => col !== 'UT' && col !== 'RELIEF') as Column[];
+  // Start from UI-provided or all columns, then keep only radio channels the solver may fill
+  const solverColumns = getAssignableRadioColumns();
+  const rawChannelPrefs = hasChannelPrefs ? (dispatcher.preferredChannels! as Column[]) : solverColumns;
+  const channelPrefs = rawChannelPrefs.filter((col) => solverColumns.includes(col));
 
   // Use provided time preferences or default to eligible shift slots
   const timePrefs = hasTimePrefs ? (dispatcher.preferredTimeBlocks! as TimeSlot[]) : eligibleSlots;
@@ -121,11 +135,14 @@ export function generatePreferredAssignments(
 
 /**
  * Assigns a minimum slot to a dispatcher without preferences
+ * @param tieBreaker orders equally full slots and equally used columns
  */
 export function assignMinimumSlot(
   dispatcher: ExtendedDispatcher,
   schedule: ScheduleDay,
-  day: Day
+  day: Day,
+  tieBreaker: TieBreaker = NATURAL_ORDER,
+  allowSlot: (slot: TimeSlot) => boolean = () => true
 ): AssignmentResult {
   log(`[Scheduler] ${day}: ${dispatcher.id} has no preferences, assigning minimum slot`);
   
@@ -133,16 +150,15 @@ export function assignMinimumSlot(
   const eligibleSlots = getEligibleSlots(dispatcher);
   const dispatcherKey = dispatcher.id;
 
-  // Build balancing counts (exclude UT) to reduce first-available bias
+  // Build balancing counts over solver radio channels to reduce first-available bias
   const colFillCount: Record<Column, number> = {} as Record<Column, number>;
-  columns.forEach((c) => { if (c !== 'UT' && c !== 'RELIEF') colFillCount[c] = 0 as number; });
+  getAssignableRadioColumns().forEach((c) => { colFillCount[c] = 0 as number; });
 
   const slotFillCount: Record<TimeSlot, number> = {} as Record<TimeSlot, number>;
-  timeSlots.forEach((s) => { slotFillCount[s] = 0 as number; });
+  getTimeSlots().forEach((s) => { slotFillCount[s] = 0 as number; });
 
-  timeSlots.forEach((s) => {
-    columns.forEach((c) => {
-      if (c === 'UT' || c === 'RELIEF') return;
+  getTimeSlots().forEach((s) => {
+    getAssignableRadioColumns().forEach((c) => {
       const v = schedule[s][c];
       if (v && v.trim().length > 0) {
         slotFillCount[s]++;
@@ -152,25 +168,24 @@ export function assignMinimumSlot(
   });
 
   // Sort eligible slots by current fill (ascending) to favor emptier time blocks
-  const sortedEligibleSlots = [...eligibleSlots].sort((a, b) => slotFillCount[a] - slotFillCount[b]);
+  const sortedEligibleSlots = tieBreaker.shuffle(eligibleSlots).sort((a, b) => slotFillCount[a] - slotFillCount[b]);
 
-  // Select the emptiest valid slot, then the least-used column within that slot (excluding UT)
+  // Select the emptiest valid slot, then the least-used radio column within that slot
   let assignment: { slot: TimeSlot; col: Column } | null = null;
   for (const slot of sortedEligibleSlots) {
     // Respect day availability (no spillover)
     if (!isEligibleOnDayForSlot(dispatcher, day, slot)) continue;
+    if (!allowSlot(slot)) continue;
     if (isDispatcherInTimeslot(dispatcherKey, schedule, slot)) continue;
 
-    // Find candidate columns: non-UT, empty, and not disabled by business rule
-    const candidateCols = columns.filter((c) =>
-      c !== 'UT' &&
-      c !== 'RELIEF' &&
+    // Find candidate columns: assignable radio, empty, and not closed by a channel rule
+    const candidateCols = tieBreaker.shuffle(getAssignableRadioColumns()).filter((c) =>
       !schedule[slot][c] &&
       !isCellDisabled(day, slot, c)
     );
     if (candidateCols.length === 0) continue;
 
-    // Pick least-used column for the day (tie-breaker: original order)
+    // Pick least-used column for the day (tie-breaker: original order, or the seeded shuffle)
     candidateCols.sort((c1, c2) => (colFillCount[c1] || 0) - (colFillCount[c2] || 0));
     const chosenCol = candidateCols[0];
     assignment = { slot, col: chosenCol };
@@ -193,11 +208,13 @@ export function assignMinimumSlot(
 
 /**
  * Assigns preferred slot to a dispatcher with preferences
+ * @param allowSlot rules out timeslots the dispatcher's radio caps and rest rules leave no room in
  */
 export function assignPreferredSlot(
   dispatcher: ExtendedDispatcher,
   schedule: ScheduleDay,
-  day: Day
+  day: Day,
+  allowSlot: (slot: TimeSlot) => boolean = () => true
 ): AssignmentResult {
   const preferredAssignments = generatePreferredAssignments(dispatcher, schedule);
   
@@ -207,6 +224,7 @@ export function assignPreferredSlot(
   for (const a of preferredAssignments) {
     // Respect day availability (no spillover)
     if (!isEligibleOnDayForSlot(dispatcher, day, a.slot)) continue;
+    if (!allowSlot(a.slot)) continue;
     // Respect business rule: skip disabled cells (e.g., MT blocked times)
     if (isCellDisabled(day, a.slot, a.col)) continue;
     // Ensure dispatcher is not already in the chosen timeslot
@@ -230,11 +248,15 @@ export function assignPreferredSlot(
 
 /**
  * Assigns an additional radio slot to a dispatcher who wants extra radio
+ * @param tieBreaker orders equally full slots and equally used columns in the fallback
+ * @param allowSlot rules out timeslots the dispatcher's radio caps and rest rules leave no room in
  */
 export function assignExtraRadioSlot(
   dispatcher: ExtendedDispatcher,
   schedule: ScheduleDay,
-  day: Day
+  day: Day,
+  tieBreaker: TieBreaker = NATURAL_ORDER,
+  allowSlot: (slot: TimeSlot) => boolean = () => true
 ): AssignmentResult {
   log(`[ExtraRadio] ${day}: Attempting extra radio assignment for ${dispatcher.id}`);
 
@@ -242,11 +264,12 @@ export function assignExtraRadioSlot(
 
   // 1) If dispatcher has preferences, try to assign a preferred slot first.
   if (hasPreferences(dispatcher)) {
-    const preferredAssignments = generatePreferredAssignments(dispatcher, schedule).filter(a => a.col !== 'UT' && a.col !== 'RELIEF');
+    const preferredAssignments = generatePreferredAssignments(dispatcher, schedule);
     for (const assignment of preferredAssignments) {
       if (
         // Ensure the assignment is valid for this calendar day (handles E/F spillover rules)
         isEligibleOnDayForSlot(dispatcher, day, assignment.slot) &&
+        allowSlot(assignment.slot) &&
         schedule[assignment.slot][assignment.col] === '' &&
         !isDispatcherInTimeslot(dispatcherKey, schedule, assignment.slot) &&
         !isCellDisabled(day, assignment.slot, assignment.col)
@@ -264,16 +287,15 @@ export function assignExtraRadioSlot(
   // 2) Fallback – If no preferences OR all preferred slots were taken, find any available radio slot.
   const eligibleSlots = getEligibleSlots(dispatcher);
 
-  // Build balancing counts (exclude UT and RELIEF) similar to minimum-slot assignment
+  // Build balancing counts over solver radio channels similar to minimum-slot assignment
   const colFillCount: Record<Column, number> = {} as Record<Column, number>;
-  columns.forEach((c) => { if (c !== 'UT' && c !== 'RELIEF') colFillCount[c] = 0 as number; });
+  getAssignableRadioColumns().forEach((c) => { colFillCount[c] = 0 as number; });
 
   const slotFillCount: Record<TimeSlot, number> = {} as Record<TimeSlot, number>;
-  timeSlots.forEach((s) => { slotFillCount[s] = 0 as number; });
+  getTimeSlots().forEach((s) => { slotFillCount[s] = 0 as number; });
 
-  timeSlots.forEach((s) => {
-    columns.forEach((c) => {
-      if (c === 'UT' || c === 'RELIEF') return;
+  getTimeSlots().forEach((s) => {
+    getAssignableRadioColumns().forEach((c) => {
       const v = schedule[s][c];
       if (v && v.trim().length > 0) {
         slotFillCount[s]++;
@@ -282,16 +304,15 @@ export function assignExtraRadioSlot(
     });
   });
 
-  const sortedEligibleSlots = [...eligibleSlots].sort((a, b) => slotFillCount[a] - slotFillCount[b]);
+  const sortedEligibleSlots = tieBreaker.shuffle(eligibleSlots).sort((a, b) => slotFillCount[a] - slotFillCount[b]);
 
   for (const slot of sortedEligibleSlots) {
     // Respect day availability (no spillover)
     if (!isEligibleOnDayForSlot(dispatcher, day, slot)) continue;
+    if (!allowSlot(slot)) continue;
     if (isDispatcherInTimeslot(dispatcherKey, schedule, slot)) continue;
 
-    const candidateCols = columns.filter((c) =>
-      c !== 'UT' &&
-      c !== 'RELIEF' &&
+    const candidateCols = tieBreaker.shuffle(getAssignableRadioColumns()).filter((c) =>
       !schedule[slot][c] &&
       !isCellDisabled(day, slot, c)
     );
@@ -0,0 +1,73 @@
+import { Day, TimeSlot, days, slotsWithinWindow } from '../../constants';
+import { AvailabilityException, DayAvailability, ExtendedDispatcher } from '../../appTypes';
+import { dateForDay, formatDate, type WeekStart } from '../../utils/weekDates';
+
+const HHMM = /^\d{4}$/;
+
+const hasWindow = (exception: AvailabilityException) =>
+  HHMM.test(exception.from ?? '') && HHMM.test(exception.to ?? '');
+
+/**
+ * Combines the exceptions falling on one date. Leave wins over everything else; the windows
+ * of partial and overtime exceptions add up.
+ */
+function resolveDay(exceptions: AvailabilityException[]): DayAvailability | undefined {
+  if (exceptions.length === 0) return undefined;
+  if (exceptions.some((e) => e.kind === 'leave')) return { off: true, extraDay: false };
+
+  const extraDay = exceptions.some((e) => e.kind === 'overtime');
+  // An exception without a window does not restrict the day
+  if (exceptions.some((e) => !hasWindow(e))) return { off: false, extraDay };
+  const slots = new Set(exceptions.flatMap((e) => slotsWithinWindow(e.from!, e.to!)));
+  return { off: false, extraDay, slots: [...slots] };
+}
+
+/**
+ * Returns the dispatchers with their dated exceptions resolved onto the days of the given
+ * week (`weekAvailability`). Dispatchers without exceptions that week are returned as is.
+ */
+export function resolveWeekAvailability(dispatchers: ExtendedDispatcher[], weekStart: WeekStart): ExtendedDispatcher[] {
+  const dates = days.map((day) => formatDate(dateForDay(weekStart, day)));
+  return dispatchers.map((d) => {
+    const exceptions = d.availabilityExceptions ?? [];
+    const weekAvailability: Partial<Record<Day, DayAvailability>> = {};
+    days.forEach((day, index) => {
+      const resolved = resolveDay(exceptions.filter((e) => e.date === dates[index]));
+      if (resolved) weekAvailability[day] = resolved;
+    });
+    if (Object.keys(weekAvailability).length === 0) {
+      return d.weekAvailability ? { ...d, weekAvailability: undefined } : d;
+    }
+    return { ...d, weekAvailability };
+  });
+}
+
+export function isOnLeave(dispatcher: ExtendedDispatcher, day: Day): boolean {
+  return dispatcher.weekAvailability?.[day]?.off === true;
+}
+
+/**
+ * True if the dispatcher works the day: their work days (all days when none are set),
+ * minus leave, plus overtime days. `workDays` overrides the pattern, e.g. a trainer's.
+ */
+export function worksOnDay(dispatcher: ExtendedDispatcher, day: Day, workDays = dispatcher.workDays): boolean {
+  const availability = dispatcher.weekAvailability?.[day];
+  if (availability?.off) return false;
+  if (availability?.extraDay) return true;
+  return !workDays || workDays.length === 0 || workDays.includes(day);
+}
+
+/** Work days of the scheduled week in calendar order, honoring leave and overtime */
+export function getWeekWorkDays(dispatcher: ExtendedDispatcher): Day[] {
+  return days.filter((day) => worksOnDay(dispatcher, day) && (
+    (dispatcher.workDays?.length ?? 0) > 0 || dispatcher.weekAvailability?.[day]?.extraDay === true
+  ));
+}
+
+/** False for slots outside a partial-day or overtime window */
+export function isSlotAvailable(dispatcher: ExtendedDispatcher, day: Day, slot: TimeSlot): boolean {
+  const availability = dispatcher.weekAvailability?.[day];
+  if (!availability) return true;
+  if (availability.off) return false;
+  return !availability.slots || availability.slots.includes(slot);
+}
@@ -0,0 +1,131 @@
+import { days, Schedule, TimeSlot, getColumns, getTimeSlots, isRadioColumn, isUtilityColumn } from '../../constants';
+import { ExtendedDispatcher, FairnessLedger, FairnessSettings, FairnessTally } from '../../appTypes';
+import { FairnessOptions } from '../solverTypes';
+import { addWeeks, type WeekStart } from '../../utils/weekDates';
+import { findDispatcherByIdentifier } from './scheduleOps';
+import { getSeniorityRank } from './assignmentUtils';
+
+export const DEFAULT_FAIRNESS_SETTINGS: Readonly<FairnessSettings> = { weight: 0, windowWeeks: 8 };
+
+/** Ledger totals over a window, with the number of finalized weeks the dispatcher appears in */
+export interface FairnessSummary extends FairnessTally {
+  weeks: number;
+}
+
+export const createEmptyTally = (): FairnessTally => ({ radio: 0, utility: 0, preferenceHits: 0, undesirable: 0 });
+
+/**
+ * Time blocks no dispatcher lists among their preferred time blocks. Empty when nobody
+ * states time preferences, since then no block stands out as unwanted.
+ */
+export function getUndesirableSlots(dispatchers: ExtendedDispatcher[]): Set<TimeSlot> {
+  const preferred = new Set(dispatchers.flatMap((d) => d.preferredTimeBlocks ?? []));
+  if (preferred.size === 0) return new Set();
+  return new Set(getTimeSlots().filter((slot) => !preferred.has(slot)));
+}
+
+/**
+ * Tallies a week's schedule per dispatcher. Trainer/trainee cells count for the trainer.
+ */
+export function tallyWeek(schedule: Schedule, dispatchers: ExtendedDispatcher[]): Record<string, FairnessTally> {
+  const undesirable = getUndesirableSlots(dispatchers);
+  const tallies: Record<string, FairnessTally> = {};
+
+  days.forEach((day) => {
+    getTimeSlots().forEach((slot) => {
+      getColumns().forEach((col) => {
+        const value = (schedule[day]?.[slot]?.[col] || '').trim();
+        if (!value) return;
+        const dispatcher = findDispatcherByIdentifier(value, dispatchers);
+        if (!dispatcher) return;
+        const tally = tallies[dispatcher.id] || createEmptyTally();
+        tallies[dispatcher.id] = tally;
+
+        if (isUtilityColumn(col)) {
+          tally.utility += 1;
+          return;
+        }
+        if (!isRadioColumn(col)) return;
+        tally.radio += 1;
+        if (dispatcher.preferredTimeBlocks?.includes(slot) || dispatcher.preferredChannels?.includes(col)) {
+          tally.preferenceHits += 1;
+        }
+        if (undesirable.has(slot)) tally.undesirable += 1;
+      });
+    });
+  });
+
+  return tallies;
+}
+
+/** Records (or replaces) a finalized week in the ledger */
+export function recordWeek(
+  ledger: FairnessLedger,
+  weekStart: WeekStart,
+  tallies: Record<string, FairnessTally>
+): FairnessLedger {
+  return { weeks: { ...ledger.weeks, [weekStart]: tallies } };
+}
+
+/**
+ * Sums the ledger over the `windowWeeks` finalized weeks before `weekStart`. The week
+ * itself is excluded so re-solving a finalized week does not feed on its own result.
+ */
+export function summarizeLedger(
+  ledger: FairnessLedger,
+  weekStart: WeekStart,
+  windowWeeks: number
+): Record<string, FairnessSummary> {
+  const from = addWeeks(weekStart, -Math.max(0, windowWeeks));
+  const summaries: Record<string, FairnessSummary> = {};
+
+  Object.entries(ledger.weeks).forEach(([week, tallies]) => {
+    if (week < from || week >= weekStart) return;
+    Object.entries(tallies).forEach(([id, tally]) => {
+      const summary = summaries[id] || { ...createEmptyTally(), weeks: 0 };
+      summaries[id] = summary;
+      summary.radio += tally.radio;
+      summary.utility += tally.utility;
+      summary.preferenceHits += tally.preferenceHits;
+      summary.undesirable += tally.undesirable;
+      summary.weeks += 1;
+    });
+  });
+
+  return summaries;
+}
+
+/**
+ * Sets `fairnessPriority` on every dispatcher: a blend of their position by seniority and
+ * their position by ledger balance (preference hits minus undesirable slots per finalized
+ * week, lowest first). Dispatchers without history sit at the average balance.
+ */
+export function applyFairness(dispatchers: ExtendedDispatcher[], options: FairnessOptions): ExtendedDispatcher[] {
+  const weight = Math.min(1, Math.max(0, options.weight));
+  if (weight === 0 || dispatchers.length < 2) return dispatchers;
+
+  const summaries = summarizeLedger(options.ledger, options.weekStart, options.windowWeeks);
+  const balances = new Map<string, number>();
+  dispatchers.forEach((d) => {
+    const summary = summaries[d.id];
+    if (summary && summary.weeks > 0) {
+      balances.set(d.id, (summary.preferenceHits - summary.undesirable) / summary.weeks);
+    }
+  });
+  if (balances.size === 0) return dispatchers;
+
+  const mean = [...balances.values()].reduce((sum, b) => sum + b, 0) / balances.size;
+  const balance = (d: ExtendedDispatcher) => balances.get(d.id) ?? mean;
+
+  const bySeniority = [...dispatchers].sort((a, b) => getSeniorityRank(a) - getSeniorityRank(b));
+  // Stable sort: equal balances keep seniority order
+  const byLedger = [...bySeniority].sort((a, b) => balance(a) - balance(b));
+  const last = dispatchers.length - 1;
+  const seniorityPosition = new Map(bySeniority.map((d, i) => [d.id, i / last]));
+  const ledgerPosition = new Map(byLedger.map((d, i) => [d.id, i / last]));
+
+  return dispatchers.map((d) => ({
+    ...d,
+    fairnessPriority: (1 - weight) * seniorityPosition.get(d.id)! + weight * ledgerPosition.get(d.id)!,
+  }));
+}
@@ -1,8 +1,11 @@
-import { Day, timeSlots, columns, isCellDisabled } from '../../constants';
+import { Day, Schedule, getTimeSlots, getColumns, getAssignableRadioColumns, isCellDisabled } from '../../constants';
 import { ExtendedDispatcher } from '../../appTypes';
-import { ScheduleDay } from '../solverTypes';
+import { AssignmentTraceLog, ScheduleDay } from '../solverTypes';
 import { isDispatcherInTimeslot, normalizeScheduleDayToIds } from './scheduleOps';
-import { isEligibleOnDayForSlot, isSlotInShift, getPreviousDay } from './shiftUtils';
+import { isEligibleOnDayForSlot, isSlotInShift, isAvailableOnDay } from './shiftUtils';
+import { recordTrace } from './traceUtils';
+import { countRadioElsewhere, fitsRadioCaps, getRadioSlots } from './radioCapUtils';
+import { fitsRestRules, getRadioTimeline, hasRestRules } from './restRuleUtils';
 
 /**
  * Applies a simple round-robin fallback when no assignments were made
@@ -10,18 +13,14 @@ import { isEligibleOnDayForSlot, isSlotInShift, getPreviousDay } from './shiftUt
 export function applyRoundRobinFallback(
   day: Day,
   dispatchers: ExtendedDispatcher[],
-  schedule: ScheduleDay
+  schedule: ScheduleDay,
+  trace?: AssignmentTraceLog
 ): ScheduleDay {
   // Base availability: enforce work day, exclude trainees and excluded
   const availableDispatchers = dispatchers.filter(d => {
     if (d.excludeFromAutoSchedule) return false;
     if (d.isTrainee || d.traineeOf) return false;
-    if (d.workDays && d.workDays.length > 0 && !d.workDays.includes(day)) {
-      const prev = getPreviousDay(day);
-      const spilloverEligible = (d.shift === 'E' || d.shift === 'F') && d.workDays.includes(prev);
-      if (!spilloverEligible) return false;
-    }
-    return true;
+    return isAvailableOnDay(d, day);
   });
   
   if (availableDispatchers.length === 0) {
@@ -33,7 +32,7 @@ export function applyRoundRobinFallback(
   
   const fallbackSchedule = normalizeScheduleDayToIds(schedule, dispatchers);
   
-  timeSlots.forEach((slot) => {
+  getTimeSlots().forEach((slot) => {
     // Track used participants in this slot to avoid duplicates
     const used = new Set<string>();
 
@@ -41,8 +40,8 @@ export function applyRoundRobinFallback(
     const eligibleForSlot = availableDispatchers.filter(d => isSlotInShift(d, slot) && isEligibleOnDayForSlot(d, day, slot));
     if (eligibleForSlot.length === 0) return;
 
-    // Exclude UT and RELIEF; ensure target cell not disabled
-    columns.filter((c) => c !== 'UT' && c !== 'RELIEF' && !isCellDisabled(day, slot, c)).forEach((col) => {
+    // Solver radio channels only; ensure target cell not disabled
+    getAssignableRadioColumns().filter((c) => !isCellDisabled(day, slot, c)).forEach((col) => {
       // Skip if locked already
       if (fallbackSchedule[slot][col] && fallbackSchedule[slot][col].trim().length > 0) return;
 
@@ -55,6 +54,7 @@ export function applyRoundRobinFallback(
         const key = pick.id;
         fallbackSchedule[slot][col] = key;
         used.add(key);
+        recordTrace(trace, 'round-robin-fallback', pick, day, slot, col, fallbackSchedule);
       }
     });
   });
@@ -63,21 +63,22 @@ export function applyRoundRobinFallback(
 }
 
 /**
- * Applies a more intelligent fallback that respects shift preferences
+ * Applies a more intelligent fallback that respects shift preferences, the radio caps
+ * dispatchers set and the rest rules
+ * @param week the rest of the week; its other days count toward weekly caps and rest rules
  */
 export function applyShiftAwareFallback(
   day: Day,
   dispatchers: ExtendedDispatcher[],
-  schedule: ScheduleDay
+  schedule: ScheduleDay,
+  trace?: AssignmentTraceLog,
+  week: Partial<Schedule> = {}
 ): ScheduleDay {
   // Base availability: enforce work day, exclude trainees and excluded
   const availableDispatchers = dispatchers.filter(d => {
     if (d.excludeFromAutoSchedule) return false;
     if (d.isTrainee || d.traineeOf) return false;
-    if (!d.workDays || d.workDays.length === 0) return true;
-    if (d.workDays.includes(day)) return true;
-    const prev = getPreviousDay(day);
-    return (d.shift === 'E' || d.shift === 'F') && d.workDays.includes(prev);
+    return isAvailableOnDay(d, day);
   });
 
   if (availableDispatchers.length === 0) {
@@ -88,11 +89,13 @@ export function applyShiftAwareFallback(
   console.log(`[WeekScheduler] ${day}: Using shift-aware fallback with ${availableDispatchers.length} dispatchers`);
 
   const fallbackSchedule = normalizeScheduleDayToIds(schedule, dispatchers);
+  const radioElsewhere = countRadioElsewhere(week, day, dispatchers);
+  const restWeek = { ...week, [day]: fallbackSchedule };
 
   // Round-robin cursor to avoid always starting with the same person
   let rrCursor = 0;
 
-  timeSlots.forEach((slot, slotIdx) => {
+  getTimeSlots().forEach((slot, slotIdx) => {
     // Build eligible list for this slot based on shift and day
     const eligibleForSlot = availableDispatchers.filter(d => isSlotInShift(d, slot) && isEligibleOnDayForSlot(d, day, slot));
 
@@ -103,7 +106,7 @@ export function applyShiftAwareFallback(
 
     // Track who is already placed in this timeslot
     const used = new Set<string>();
-    columns.forEach(col => {
+    getColumns().forEach(col => {
       const cell = fallbackSchedule[slot][col];
       if (cell) {
         cell
@@ -114,8 +117,8 @@ export function applyShiftAwareFallback(
       }
     });
 
-    // Assign across non-UT and non-RELIEF columns
-    columns.filter(c => c !== 'UT' && c !== 'RELIEF' && !isCellDisabled(day, slot, c)).forEach((col) => {
+    // Assign across solver radio channels
+    getAssignableRadioColumns().filter(c => !isCellDisabled(day, slot, c)).forEach((col) => {
       // Skip if locked already
       if (fallbackSchedule[slot][col] && fallbackSchedule[slot][col].trim().length > 0) return;
 
@@ -126,7 +129,9 @@ export function applyShiftAwareFallback(
         const idx = (rrCursor + slotIdx + k) % N; // vary by slot to spread load
         const d = eligibleForSlot[idx];
         const key = d.id;
-        if (!used.has(key) && !isDispatcherInTimeslot(key, fallbackSchedule, slot)) {
+        const withinCaps = fitsRadioCaps(d, getRadioSlots(key, fallbackSchedule, dispatchers), slot, radioElsewhere[key], d.maxRadioPerDay ?? Infinity);
+        const rested = !hasRestRules() || fitsRestRules(d, getRadioTimeline(key, restWeek, dispatchers), day, slot);
+        if (!used.has(key) && !isDispatcherInTimeslot(key, fallbackSchedule, slot) && withinCaps && rested) {
           picked = d;
           rrCursor = (idx + 1) % N; // advance cursor
           break;
@@ -137,6 +142,7 @@ export function applyShiftAwareFallback(
         const key = picked.id;
         fallbackSchedule[slot][col] = key;
         used.add(key);
+        recordTrace(trace, 'shift-aware-fallback', picked, day, slot, col, fallbackSchedule);
       }
     });
   });
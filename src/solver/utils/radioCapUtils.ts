@@ -0,0 +1,106 @@
+import { Day, Schedule, TimeSlot, days, getRadioColumns, getTimeSlots } from '../../constants';
+import { ExtendedDispatcher } from '../../appTypes';
+import { ScheduleDay } from '../solverTypes';
+import { findDispatcherByIdentifier } from './scheduleOps';
+
+/** Radio slots the auto scheduler gives a dispatcher without a daily cap: the minimum slot plus one extra */
+export const DEFAULT_DAILY_RADIO_LIMIT = 2;
+
+/** Most radio slots the auto scheduler leaves a dispatcher holding on one day */
+export function getDailyRadioLimit(dispatcher: ExtendedDispatcher): number {
+  if (dispatcher.minimumRadioOnly) return 1;
+  return dispatcher.maxRadioPerDay ?? DEFAULT_DAILY_RADIO_LIMIT;
+}
+
+/** Most radio slots the auto scheduler leaves a dispatcher holding over the week */
+export function getWeeklyRadioLimit(dispatcher: ExtendedDispatcher): number {
+  return dispatcher.maxRadioPerWeek ?? Infinity;
+}
+
+/**
+ * Timeslots of a day in which the dispatcher holds a radio cell (a trainer/trainee pair
+ * counts for the trainer), in grid order
+ */
+export function getRadioSlots(dispatcherId: string, daySchedule: ScheduleDay, dispatchers: ExtendedDispatcher[]): TimeSlot[] {
+  const radioColumns = getRadioColumns();
+  return getTimeSlots().filter((slot) =>
+    radioColumns.some((col) => {
+      const value = daySchedule[slot]?.[col];
+      return !!value && findDispatcherByIdentifier(value, dispatchers)?.id === dispatcherId;
+    })
+  );
+}
+
+/**
+ * Radio cells each dispatcher holds on the days of the week other than `day`
+ */
+export function countRadioElsewhere(schedule: Partial<Schedule>, day: Day, dispatchers: ExtendedDispatcher[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  days.forEach((other) => {
+    const daySchedule = schedule[other];
+    if (other === day || !daySchedule) return;
+    dispatchers.forEach((d) => {
+      const held = getRadioSlots(d.id, daySchedule, dispatchers).length;
+      if (held > 0) counts[d.id] = (counts[d.id] ?? 0) + held;
+    });
+  });
+  return counts;
+}
+
+/**
+ * Length of the run of back-to-back timeslots through `slot` once it is added to `held`
+ */
+export function radioRunThrough(held: TimeSlot[], slot: TimeSlot): number {
+  const grid = getTimeSlots();
+  const index = grid.indexOf(slot);
+  const taken = new Set([...held, slot]);
+  let start = index;
+  while (start > 0 && taken.has(grid[start - 1])) start -= 1;
+  let end = index;
+  while (end < grid.length - 1 && taken.has(grid[end + 1])) end += 1;
+  return end - start + 1;
+}
+
+/**
+ * Whether one more radio slot at `slot` keeps a dispatcher within their caps, given the
+ * slots they hold that day and the radio cells they hold on the week's other days
+ * @param dailyLimit defaults to the auto scheduler's daily limit
+ */
+export function fitsRadioCaps(
+  dispatcher: ExtendedDispatcher,
+  held: TimeSlot[],
+  slot: TimeSlot,
+  radioElsewhere = 0,
+  dailyLimit = getDailyRadioLimit(dispatcher)
+): boolean {
+  if (held.length + 1 > dailyLimit) return false;
+  if (radioElsewhere + held.length + 1 > getWeeklyRadioLimit(dispatcher)) return false;
+  const consecutive = dispatcher.maxConsecutiveRadio;
+  return consecutive === undefined || radioRunThrough(held, slot) <= consecutive;
+}
+
+/**
+ * Timeslots of `day` where the dispatcher's radio cells break a cap they set: every slot
+ * of the day once the daily or weekly cap is exceeded, and the slots of any back-to-back
+ * run longer than allowed. The solver's default daily limit is not a cap here.
+ */
+export function findRadioCapBreaches(
+  dispatcher: ExtendedDispatcher,
+  day: Day,
+  schedule: Schedule,
+  dispatchers: ExtendedDispatcher[]
+): TimeSlot[] {
+  const { maxRadioPerDay, maxRadioPerWeek, maxConsecutiveRadio } = dispatcher;
+  if (maxRadioPerDay === undefined && maxRadioPerWeek === undefined && maxConsecutiveRadio === undefined) return [];
+
+  const held = getRadioSlots(dispatcher.id, schedule[day], dispatchers);
+  if (held.length === 0) return [];
+  if (maxRadioPerDay !== undefined && held.length > maxRadioPerDay) return held;
+  if (maxRadioPerWeek !== undefined) {
+    const week = held.length + (countRadioElsewhere(schedule, day, [dispatcher])[dispatcher.id] ?? 0);
+    if (week > maxRadioPerWeek) return held;
+  }
+  if (maxConsecutiveRadio === undefined) return [];
+  const others = (slot: TimeSlot) => held.filter((s) => s !== slot);
+  return held.filter((slot) => radioRunThrough(others(slot), slot) > maxConsecutiveRadio);
+}
@@ -0,0 +1,143 @@
+import { Day, Schedule, TimeSlot, Column, days, getColumns, getTimeSlots, getUtilityColumns, isRadioColumn, isUtilityColumn } from '../../constants';
+import { AvailabilityException, ExtendedDispatcher } from '../../appTypes';
+import { CallOff, CallOffRepair, ScheduleDay, UnfilledCell } from '../solverTypes';
+import { cloneScheduleDay, diffSchedules, findDispatcherByIdentifier, isDispatcherInTimeslot } from './scheduleOps';
+import { isEligibleOnDayForSlot, isSlotInShift } from './shiftUtils';
+import { isSlotAvailable } from './availabilityUtils';
+import { getSeniorityRank } from './assignmentUtils';
+import { countRadioElsewhere, fitsRadioCaps, getRadioSlots } from './radioCapUtils';
+import { fitsRestRules, getRadioTimeline } from './restRuleUtils';
+
+const participantsOf = (value: string) => value.split('/').map((s) => s.trim()).filter(Boolean);
+
+/**
+ * Counts the radio cells a dispatcher holds on a day (as trainer)
+ */
+function countRadioCells(dispatcherId: string, daySchedule: ScheduleDay, dispatchers: ExtendedDispatcher[]): number {
+  let count = 0;
+  getTimeSlots().forEach((slot) => {
+    getColumns().forEach((col) => {
+      const value = daySchedule[slot][col];
+      if (value && isRadioColumn(col) && findDispatcherByIdentifier(value, dispatchers)?.id === dispatcherId) count += 1;
+    });
+  });
+  return count;
+}
+
+/**
+ * Whether the dispatcher holds a utility cell anywhere in the week
+ */
+function hasUtilityCell(dispatcherId: string, schedule: Schedule, dispatchers: ExtendedDispatcher[]): boolean {
+  return days.some((day) =>
+    getTimeSlots().some((slot) =>
+      getUtilityColumns().some((col) => {
+        const value = schedule[day][slot][col];
+        return !!value && findDispatcherByIdentifier(value, dispatchers)?.id === dispatcherId;
+      })
+    )
+  );
+}
+
+/**
+ * Picks who takes a vacated cell: dispatchers eligible on the day and slot, inside their shift and
+ * free in that timeslot. Radio cells go to whoever has the fewest radio cells that day among those
+ * the cell keeps within their radio caps and the rest rules (Minimum Radio Only counts as a daily
+ * cap of one), UT cells to dispatchers still missing their weekly UT before volunteers; seniority
+ * breaks ties.
+ */
+function pickReplacement(
+  schedule: Schedule,
+  dispatchers: ExtendedDispatcher[],
+  excludedId: string,
+  day: Day,
+  slot: TimeSlot,
+  col: Column
+): ExtendedDispatcher | undefined {
+  const daySchedule = schedule[day];
+  const utility = isUtilityColumn(col);
+  const radioElsewhere = utility ? {} : countRadioElsewhere(schedule, day, dispatchers);
+  // Only caps the dispatcher set apply, not the auto scheduler's default daily limit
+  const withinCaps = (d: ExtendedDispatcher) =>
+    fitsRadioCaps(d, getRadioSlots(d.id, daySchedule, dispatchers), slot, radioElsewhere[d.id], d.minimumRadioOnly ? 1 : d.maxRadioPerDay ?? Infinity) &&
+    fitsRestRules(d, getRadioTimeline(d.id, schedule, dispatchers), day, slot);
+
+  const candidates = dispatchers
+    .filter((d) => d.id !== excludedId && !d.excludeFromAutoSchedule && !(d.isTrainee || d.traineeOf))
+    .filter((d) => isEligibleOnDayForSlot(d, day, slot) && isSlotInShift(d, slot))
+    .filter((d) => !isDispatcherInTimeslot(d.id, daySchedule, slot))
+    .map((d) => ({
+      dispatcher: d,
+      radio: countRadioCells(d.id, daySchedule, dispatchers),
+      hasUt: utility && hasUtilityCell(d.id, schedule, dispatchers),
+    }))
+    .filter((c) => (utility ? !c.hasUt || c.dispatcher.wantsExtraUtility : withinCaps(c.dispatcher)));
+
+  candidates.sort((a, b) => {
+    if (utility && a.hasUt !== b.hasUt) return a.hasUt ? 1 : -1;
+    if (!utility && a.radio !== b.radio) return a.radio - b.radio;
+    return getSeniorityRank(a.dispatcher) - getSeniorityRank(b.dispatcher);
+  });
+  return candidates[0]?.dispatcher;
+}
+
+/**
+ * Takes a dispatcher off the given timeslots of a day and proposes the smallest repair: each
+ * cell they held is handed to one eligible dispatcher, and nothing else moves. A trainee who
+ * calls off simply leaves their trainer's cell; a trainer's trainee stays with the replacement.
+ */
+export function proposeCallOffRepair(
+  current: Schedule,
+  dispatchers: ExtendedDispatcher[],
+  callOff: CallOff
+): CallOffRepair {
+  const schedule = { ...current, [callOff.day]: cloneScheduleDay(current[callOff.day]) } as Schedule;
+  const daySchedule = schedule[callOff.day];
+  const target = dispatchers.find((d) => d.id === callOff.dispatcherId);
+  const matches = (part: string) => part === callOff.dispatcherId || (!!target?.name && part === target.name);
+  const vacated: UnfilledCell[] = [];
+
+  callOff.slots.forEach((slot) => {
+    getColumns().forEach((col) => {
+      const parts = participantsOf(daySchedule[slot]?.[col] || '');
+      const index = parts.findIndex(matches);
+      if (index === -1) return;
+      if (index > 0) {
+        // Trainee leaves; the trainer keeps the cell
+        daySchedule[slot][col] = parts.filter((_, i) => i !== index).join('/');
+        return;
+      }
+      daySchedule[slot][col] = '';
+      vacated.push({ day: callOff.day, slot, col, ...(parts[1] ? { trainee: parts[1] } : {}) });
+    });
+  });
+
+  const unfilled: UnfilledCell[] = [];
+  vacated.forEach((cell) => {
+    const replacement = pickReplacement(schedule, dispatchers, callOff.dispatcherId, cell.day, cell.slot, cell.col);
+    if (replacement) daySchedule[cell.slot][cell.col] = cell.trainee ? `${replacement.id}/${cell.trainee}` : replacement.id;
+    else unfilled.push(cell);
+  });
+
+  return { schedule, changes: diffSchedules(current, schedule), unfilled };
+}
+
+/**
+ * The dispatcher's availability exceptions with the call-off recorded on its date, so later
+ * runs keep them off those timeslots: leave when none of the day is left, otherwise windows
+ * over the rows they were available for and did not call off (overtime on an overtime day).
+ * Earlier exceptions on that date are folded in.
+ */
+export function recordCallOff(dispatcher: ExtendedDispatcher, callOff: CallOff, date: string): AvailabilityException[] {
+  const others = (dispatcher.availabilityExceptions ?? []).filter((e) => e.date !== date);
+  const kind = dispatcher.weekAvailability?.[callOff.day]?.extraDay ? 'overtime' : 'partial';
+  const slots = getTimeSlots();
+  const open = slots.map((slot) => isSlotAvailable(dispatcher, callOff.day, slot) && !callOff.slots.includes(slot));
+
+  const windows: AvailabilityException[] = [];
+  slots.forEach((slot, index) => {
+    if (!open[index]) return;
+    if (index > 0 && open[index - 1]) windows[windows.length - 1].to = slot.slice(5, 9);
+    else windows.push({ date, kind, from: slot.slice(0, 4), to: slot.slice(5, 9), note: 'Called off' });
+  });
+  return [...others, ...(windows.length > 0 ? windows : [{ date, kind: 'leave' as const, note: 'Called off' }])];
+}
@@ -0,0 +1,103 @@
+import { days, Schedule, ScheduleLocks, ScheduleScope, getAssignableRadioColumns, getTimeSlots, getUtilityColumns, isCellDisabled, isRadioColumn } from '../../constants';
+import { ExtendedDispatcher } from '../../appTypes';
+import { ClearedAssignment, ScheduleReport } from '../solverTypes';
+import { sanitizeLockedAssignments } from '../dayScheduler';
+import { countSlotsPerDispatcher, createEmptyScheduleDay, findDispatcherByIdentifier, normalizeScheduleDayToIds } from './scheduleOps';
+import { generatePreferredAssignments, hasPreferences } from './assignmentUtils';
+import { getWeekWorkDays } from './availabilityUtils';
+import { isAvailableOnDay, isEligibleOnDayForSlot, isSlotInShift } from './shiftUtils';
+import { isInScope } from '../../utils/scheduleLocks';
+
+// Dispatchers the solver schedules on its own; trainees ride along with their trainer
+export const isScheduled = (d: ExtendedDispatcher) => !d.excludeFromAutoSchedule && !(d.isTrainee || d.traineeOf);
+
+/**
+ * Reports what a solver run left undone. `current` is the schedule the run started from
+ * (its entries that break a rule are listed as cleared, or as kept when locked); `schedule` is
+ * the run's result. With a scope, empty cells and per-day findings are limited to the cells the
+ * run could change.
+ */
+export function buildScheduleReport(
+  current: Schedule,
+  schedule: Schedule,
+  dispatchers: ExtendedDispatcher[],
+  scope: ScheduleScope = {},
+  locks: ScheduleLocks = {}
+): ScheduleReport {
+  const report: ScheduleReport = {
+    emptyCells: [],
+    zeroSlotDays: [],
+    missingUt: [],
+    preferenceMisses: [],
+    clearedAssignments: [],
+    keptAssignments: [],
+  };
+  const scheduled = dispatchers.filter(isScheduled);
+  const utilityColumns = getUtilityColumns();
+  const withUt = new Set<string>();
+
+  days.forEach((day) => {
+    const daySchedule = schedule[day];
+
+    const cleared: ClearedAssignment[] = [];
+    sanitizeLockedAssignments(day, normalizeScheduleDayToIds(current[day], dispatchers), dispatchers, cleared, locks);
+    report.clearedAssignments.push(...cleared.filter((c) => !c.kept));
+    report.keptAssignments.push(...cleared.filter((c) => c.kept));
+
+    getTimeSlots().forEach((slot) => {
+      getAssignableRadioColumns().forEach((col) => {
+        if (daySchedule[slot][col] || isCellDisabled(day, slot, col) || !isInScope(scope, day, slot, col)) return;
+        report.emptyCells.push({ day, slot, col });
+      });
+      utilityColumns.forEach((col) => {
+        const value = daySchedule[slot][col];
+        const holder = value ? findDispatcherByIdentifier(value, dispatchers) : undefined;
+        if (holder) withUt.add(holder.id);
+      });
+    });
+
+    const counts = countSlotsPerDispatcher(daySchedule, dispatchers);
+    scheduled.forEach((d) => {
+      if (scope.days && !scope.days.includes(day)) return;
+      if (!isAvailableOnDay(d, day)) return;
+      // The day after a spillover shift may leave no row they can work (an E shift ends before it starts)
+      if (!getTimeSlots().some((slot) => isSlotInShift(d, slot) && isEligibleOnDayForSlot(d, day, slot))) return;
+      if (!counts[d.id]) {
+        report.zeroSlotDays.push({ dispatcherId: d.id, day });
+        return;
+      }
+      if (!hasPreferences(d)) return;
+
+      // A miss: radio cells that day, but none among the options their preferences rank
+      const ranked = generatePreferredAssignments(d, createEmptyScheduleDay());
+      let radio = 0;
+      let hit = false;
+      getTimeSlots().forEach((slot) => {
+        Object.entries(daySchedule[slot]).forEach(([col, value]) => {
+          if (!isRadioColumn(col) || findDispatcherByIdentifier(value, dispatchers)?.id !== d.id) return;
+          radio += 1;
+          if (ranked.some((a) => a.slot === slot && a.col === col)) hit = true;
+        });
+      });
+      if (radio > 0 && !hit) report.preferenceMisses.push({ dispatcherId: d.id, day });
+    });
+  });
+
+  report.missingUt = scheduled
+    .filter((d) => getWeekWorkDays(d).length > 0 && !withUt.has(d.id))
+    .map((d) => d.id);
+
+  return report;
+}
+
+/** True when the run left nothing to report */
+export function isReportClean(report: ScheduleReport): boolean {
+  return (
+    report.emptyCells.length === 0 &&
+    report.zeroSlotDays.length === 0 &&
+    report.missingUt.length === 0 &&
+    report.preferenceMisses.length === 0 &&
+    report.clearedAssignments.length === 0 &&
+    report.keptAssignments.length === 0
+  );
+}
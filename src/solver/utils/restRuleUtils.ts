@@ -0,0 +1,105 @@
+import { Day, Schedule, TimeSlot, days, getTimeSlots } from '../../constants';
+import { ExtendedDispatcher, RadioRestRules } from '../../appTypes';
+import { getRadioSlots } from './radioCapUtils';
+import { getShiftSlots } from './shiftUtils';
+
+/** Built-in rest rules: all off, so the solver spaces radio slots only by its caps */
+export const DEFAULT_REST_RULES: Readonly<RadioRestRules> = { maxConsecutive: 0, minGap: 0, avoidShiftEdges: false };
+
+// Active rest rules, replaced via applyRestRules()
+let activeRestRules: RadioRestRules = { ...DEFAULT_REST_RULES };
+
+/**
+ * Replaces the active rest rules read by the solver and the UI
+ */
+export function applyRestRules(rules: RadioRestRules): void {
+  activeRestRules = { ...rules };
+}
+
+/**
+ * Returns the active rest rules
+ */
+export function getRestRules(): RadioRestRules {
+  return activeRestRules;
+}
+
+/** True when any rest rule is switched on */
+export function hasRestRules(rules: RadioRestRules = activeRestRules): boolean {
+  return rules.maxConsecutive > 0 || rules.minGap > 0 || rules.avoidShiftEdges;
+}
+
+/**
+ * Row of the week a cell sits in, counting the day grids end to end. The last rows of one
+ * day and the first rows of the next are adjacent, so an overnight E or F shift runs on
+ * without a break.
+ */
+export function weekRow(day: Day, slot: TimeSlot): number {
+  return days.indexOf(day) * getTimeSlots().length + getTimeSlots().indexOf(slot);
+}
+
+/**
+ * Rows of the week in which the dispatcher holds a radio cell, in time order
+ */
+export function getRadioTimeline(dispatcherId: string, week: Partial<Schedule>, dispatchers: ExtendedDispatcher[]): number[] {
+  return days.flatMap((day) => {
+    const daySchedule = week[day];
+    return daySchedule ? getRadioSlots(dispatcherId, daySchedule, dispatchers).map((slot) => weekRow(day, slot)) : [];
+  });
+}
+
+/** True for the first and last row of the dispatcher's shift (a dispatcher without a known shift has no edges) */
+export function isShiftEdge(dispatcher: ExtendedDispatcher, slot: TimeSlot): boolean {
+  const shiftSlots = dispatcher.shift ? getShiftSlots(dispatcher.shift) : undefined;
+  if (!shiftSlots?.length) return false;
+  return slot === shiftSlots[0] || slot === shiftSlots[shiftSlots.length - 1];
+}
+
+/**
+ * Whether one more radio slot at `day`/`slot` keeps a dispatcher within the rest rules,
+ * given the rows of the week they already hold radio in
+ */
+export function fitsRestRules(
+  dispatcher: ExtendedDispatcher,
+  timeline: number[],
+  day: Day,
+  slot: TimeSlot,
+  rules: RadioRestRules = activeRestRules
+): boolean {
+  if (rules.avoidShiftEdges && isShiftEdge(dispatcher, slot)) return false;
+  if (rules.maxConsecutive <= 0 && rules.minGap <= 0) return true;
+
+  const row = weekRow(day, slot);
+  const taken = new Set([...timeline, row]);
+  let first = row;
+  while (taken.has(first - 1)) first -= 1;
+  let last = row;
+  while (taken.has(last + 1)) last += 1;
+  if (rules.maxConsecutive > 0 && last - first + 1 > rules.maxConsecutive) return false;
+  if (rules.minGap <= 0) return true;
+
+  // Free rows between this run and the runs either side of it
+  const before = timeline.filter((r) => r < first);
+  const after = timeline.filter((r) => r > last);
+  if (before.length > 0 && first - Math.max(...before) - 1 < rules.minGap) return false;
+  return after.length === 0 || Math.min(...after) - last - 1 >= rules.minGap;
+}
+
+/**
+ * Timeslots of `day` where the dispatcher's radio cells break a rest rule: edge rows of their
+ * shift, runs longer than allowed, and both sides of a gap that is too short (including across
+ * midnight into the neighbouring days)
+ */
+export function findRestRuleBreaches(
+  dispatcher: ExtendedDispatcher,
+  day: Day,
+  schedule: Schedule,
+  dispatchers: ExtendedDispatcher[],
+  rules: RadioRestRules = activeRestRules
+): TimeSlot[] {
+  if (!hasRestRules(rules)) return [];
+  const timeline = getRadioTimeline(dispatcher.id, schedule, dispatchers);
+  return getRadioSlots(dispatcher.id, schedule[day], dispatchers).filter((slot) => {
+    const row = weekRow(day, slot);
+    return !fitsRestRules(dispatcher, timeline.filter((r) => r !== row), day, slot, rules);
+  });
+}
@@ -1,16 +1,18 @@
-import { TimeSlot, Column, timeSlots, columns, days, Schedule } from '../../constants';
+import { TimeSlot, Column, getTimeSlots, getColumns, days, Schedule } from '../../constants';
 import { ExtendedDispatcher } from '../../appTypes';
-import { ScheduleDay } from '../solverTypes';
+import { CellChange, DispatcherChanges, ScheduleDay } from '../solverTypes';
 
 /**
- * Creates a deep clone of a schedule day without using JSON methods
+ * Creates a deep clone of a schedule day without using JSON methods.
+ * Every configured column is present in the clone; cells of channels that are no
+ * longer configured are carried over untouched.
  */
 export function cloneScheduleDay(day: ScheduleDay): ScheduleDay {
   const cloned = {} as ScheduleDay;
-  timeSlots.forEach((slot) => {
-    cloned[slot] = {} as Record<Column, string>;
-    columns.forEach((col) => {
-      cloned[slot][col] = day[slot][col];
+  getTimeSlots().forEach((slot) => {
+    cloned[slot] = { ...day[slot] } as Record<Column, string>;
+    getColumns().forEach((col) => {
+      cloned[slot][col] = day[slot]?.[col] ?? '';
     });
   });
   return cloned;
@@ -21,9 +23,9 @@ export function cloneScheduleDay(day: ScheduleDay): ScheduleDay {
  */
 export function createEmptyScheduleDay(): ScheduleDay {
   const day = {} as ScheduleDay;
-  timeSlots.forEach((slot) => {
+  getTimeSlots().forEach((slot) => {
     const row = {} as Record<Column, string>;
-    columns.forEach((col) => {
+    getColumns().forEach((col) => {
       row[col] = '';
     });
     day[slot] = row;
@@ -31,6 +33,12 @@ export function createEmptyScheduleDay(): ScheduleDay {
   return day;
 }
 
+/**
+ * Placeholder for an empty cell the solver must leave alone (locked, or outside a scoped run).
+ * It reads as occupied to every pass and is replaced before results are returned.
+ */
+export const HELD_CELL = '#held#';
+
 /**
  * Finds a dispatcher from a list by their ID or name.
  * The schedule can store either the ID or the name.
@@ -56,8 +64,8 @@ export function countSlotsPerDispatcher(
 ): Record<string, number> {
   const counts: Record<string, number> = {};
 
-  timeSlots.forEach((slot) => {
-    columns.forEach((col) => {
+  getTimeSlots().forEach((slot) => {
+    getColumns().forEach((col) => {
       const identifier = scheduleDay[slot][col];
       if (identifier) {
         // Count only the trainer for composite values
@@ -77,8 +85,8 @@ export function countSlotsPerDispatcher(
  * Checks if a schedule day has any assignments
  */
 export function hasAnyAssignments(day: ScheduleDay): boolean {
-  return timeSlots.some(slot =>
-    columns.some(col => day[slot][col].length > 0)
+  return getTimeSlots().some(slot =>
+    getColumns().some(col => (day[slot][col] || '').length > 0)
   );
 }
 
@@ -93,7 +101,7 @@ export function isDispatcherInTimeslot(
   schedule: ScheduleDay,
   slot: TimeSlot
 ): boolean {
-  return columns.some(col => {
+  return getColumns().some(col => {
     const cell = schedule[slot][col];
     if (!cell) return false;
     const parts = cell.split('/').map(p => p.trim()).filter(Boolean);
@@ -102,17 +110,30 @@ export function isDispatcherInTimeslot(
 }
 
 /**
- * Merges two schedule days, with the second taking precedence for non-empty values
+ * Merges two schedule days, with the second taking precedence for non-empty values.
+ * A base entry is dropped when the overlay newly places the same dispatcher elsewhere in
+ * that timeslot (the solver ignored the entry and scheduled them anew), so the merge never
+ * books anyone twice. Names and IDs are compared by dispatcher.
  */
-export function mergeScheduleDays(base: ScheduleDay, overlay: ScheduleDay): ScheduleDay {
+export function mergeScheduleDays(base: ScheduleDay, overlay: ScheduleDay, dispatchers: ExtendedDispatcher[]): ScheduleDay {
   const merged = cloneScheduleDay(base);
-  timeSlots.forEach((slot) => {
-    columns.forEach((col) => {
+  const splitCell = (value: string | undefined) =>
+    (value ?? '').split('/').map((p) => normalizeIdentifierToId(p, dispatchers)).filter(Boolean);
+  getTimeSlots().forEach((slot) => {
+    const placed = new Set<string>();
+    getColumns().forEach((col) => {
       const overlayValue = overlay[slot][col];
       if (overlayValue && overlayValue.trim().length > 0) {
+        const participants = splitCell(overlayValue);
+        if (participants.join('/') !== splitCell(base[slot][col]).join('/')) participants.forEach((p) => placed.add(p));
         merged[slot][col] = overlayValue;
       }
     });
+    getColumns().forEach((col) => {
+      const overlayValue = overlay[slot][col];
+      if (overlayValue && overlayValue.trim().length > 0) return;
+      if (splitCell(merged[slot][col]).some((p) => placed.has(p))) merged[slot][col] = '';
+    });
   });
   return merged;
 }
@@ -133,8 +154,8 @@ export function normalizeIdentifierToId(identifier: string, dispatchers: Extende
  */
 export function normalizeScheduleDayToIds(day: ScheduleDay, dispatchers: ExtendedDispatcher[]): ScheduleDay {
   const normalized = cloneScheduleDay(day);
-  timeSlots.forEach(slot => {
-    columns.forEach(col => {
+  getTimeSlots().forEach(slot => {
+    getColumns().forEach(col => {
       const val = normalized[slot][col];
       if (!val) return;
       const parts = val.split('/').map(p => p.trim()).filter(Boolean);
@@ -156,3 +177,48 @@ export function normalizeScheduleWeekToIds(week: Schedule, dispatchers: Extended
   });
   return cloned;
 }
+
+/**
+ * Lists every cell whose value differs between two weekly schedules, in day, timeslot and
+ * channel order.
+ */
+export function diffSchedules(before: Schedule, after: Schedule): CellChange[] {
+  const changes: CellChange[] = [];
+  days.forEach((day) => {
+    getTimeSlots().forEach((slot) => {
+      getColumns().forEach((col) => {
+        const was = before[day]?.[slot]?.[col] || '';
+        const now = after[day]?.[slot]?.[col] || '';
+        if (was !== now) changes.push({ day, slot, col, before: was, after: now });
+      });
+    });
+  });
+  return changes;
+}
+
+/**
+ * Groups cell changes by dispatcher: the cells each one gained and lost. Trainer/trainee
+ * cells count for both participants; names are resolved to IDs where possible.
+ */
+export function summarizeChangesByDispatcher(
+  changes: CellChange[],
+  dispatchers: ExtendedDispatcher[]
+): DispatcherChanges[] {
+  const byId = new Map<string, DispatcherChanges>();
+  const entry = (id: string) => {
+    const existing = byId.get(id) || { dispatcherId: id, added: [], removed: [] };
+    byId.set(id, existing);
+    return existing;
+  };
+  const participants = (value: string) =>
+    value.split('/').map((p) => p.trim()).filter(Boolean).map((p) => normalizeIdentifierToId(p, dispatchers));
+
+  changes.forEach(({ day, slot, col, before, after }) => {
+    const was = participants(before);
+    const now = participants(after);
+    was.filter((id) => !now.includes(id)).forEach((id) => entry(id).removed.push({ day, slot, col }));
+    now.filter((id) => !was.includes(id)).forEach((id) => entry(id).added.push({ day, slot, col }));
+  });
+
+  return [...byId.values()].sort((a, b) => a.dispatcherId.localeCompare(b.dispatcherId));
+}
@@ -0,0 +1,206 @@
+import { days, Day, Schedule, getAssignableRadioColumns, getRadioColumns, getTimeSlots, getUtilityColumns, isCellDisabled } from '../../constants';
+import { ExtendedDispatcher } from '../../appTypes';
+import { ScheduleCell } from '../solverTypes';
+import { createEmptyScheduleDay, findDispatcherByIdentifier } from './scheduleOps';
+import { generatePreferredAssignments, getSeniorityRank, hasPreferences } from './assignmentUtils';
+import { getWeekWorkDays } from './availabilityUtils';
+import { isScheduled } from './reportUtils';
+import { isEligibleOnDayForSlot, isSlotInShift } from './shiftUtils';
+
+/** How good a week is on the measures supervisors weigh; every value runs from 0 (worst) to 1 */
+export interface ScheduleScore {
+  /** Share of open radio cells the solver may fill that are filled */
+  coverage: number;
+  /** Mean over radio cells of dispatchers with preferences: 1 for their top option, 0 for an unranked cell */
+  preferences: number;
+  /** Evenness of radio cells per work day across scheduled dispatchers (1 minus the coefficient of variation) */
+  fairness: number;
+  /** Share of scheduled dispatchers holding their weekly UT, and only one unless they volunteer for more */
+  utDistribution: number;
+  /** Mean of the four measures */
+  overall: number;
+}
+
+/** A radio cell held by someone junior to a dispatcher who could have worked it and ranks it higher */
+export interface SeniorityInversion extends ScheduleCell {
+  juniorId: string;
+  /** The most senior such dispatcher; they rank the cell above every radio cell they hold that day */
+  seniorId: string;
+}
+
+/** The counts behind a week's quality, for the scorecard panel */
+export interface ScheduleScorecard {
+  /** Open radio cells the solver may fill, and how many of them are filled */
+  radio: { filled: number; open: number };
+  /** Radio cells of dispatchers with preferences, and how many are within their top-N channels and time blocks */
+  preferenceMatches: { matched: number; total: number; topN: number };
+  seniorityInversions: SeniorityInversion[];
+  /** Radio cells per scheduled dispatcher over the week, fewest first */
+  slotsPerPerson: Array<{ dispatcherId: string; slots: number }>;
+  /** Scheduled dispatchers holding at least one UT cell, and who has none */
+  ut: { covered: number; total: number; missing: string[] };
+}
+
+// Everything both the score and the scorecard are computed from
+interface WeekHoldings {
+  openRadio: number;
+  filledRadio: number;
+  /** Radio cells per dispatcher, in week order */
+  radio: Map<string, ScheduleCell[]>;
+  utCounts: Map<string, number>;
+  /** Scheduled dispatchers with at least one work day this week */
+  scheduled: ExtendedDispatcher[];
+}
+
+const mean = (values: number[], empty: number) =>
+  values.length === 0 ? empty : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function collectHoldings(schedule: Schedule, dispatchers: ExtendedDispatcher[]): WeekHoldings {
+  const radioColumns = getRadioColumns();
+  const assignableRadio = getAssignableRadioColumns();
+  const utilityColumns = getUtilityColumns();
+  const holdings: WeekHoldings = {
+    openRadio: 0,
+    filledRadio: 0,
+    radio: new Map(),
+    utCounts: new Map(),
+    scheduled: dispatchers.filter((d) => isScheduled(d) && getWeekWorkDays(d).length > 0),
+  };
+
+  days.forEach((day) => {
+    getTimeSlots().forEach((slot) => {
+      const row = schedule[day]?.[slot] ?? {};
+      assignableRadio.forEach((col) => {
+        if (isCellDisabled(day, slot, col)) return;
+        holdings.openRadio += 1;
+        if (row[col]?.trim()) holdings.filledRadio += 1;
+      });
+
+      // A trainer/trainee pair counts for the trainer
+      Object.entries(row).forEach(([col, value]) => {
+        const holder = value ? findDispatcherByIdentifier(value, dispatchers) : undefined;
+        if (!holder) return;
+        if (utilityColumns.includes(col)) {
+          holdings.utCounts.set(holder.id, (holdings.utCounts.get(holder.id) ?? 0) + 1);
+        } else if (radioColumns.includes(col)) {
+          holdings.radio.set(holder.id, [...(holdings.radio.get(holder.id) ?? []), { day, slot, col }]);
+        }
+      });
+    });
+  });
+  return holdings;
+}
+
+// Position of every option a dispatcher's preferences rank (0 = their top option)
+function rankPreferredOptions(dispatcher: ExtendedDispatcher): Map<string, number> {
+  const ranked = generatePreferredAssignments(dispatcher, createEmptyScheduleDay());
+  return new Map(ranked.map((a, i) => [`${a.slot}|${a.col}`, i]));
+}
+
+/**
+ * Scores a week against the dispatcher list. Works on any schedule, hand-made or solved,
+ * so alternative weeks can be compared on the same terms.
+ */
+export function scoreSchedule(schedule: Schedule, dispatchers: ExtendedDispatcher[]): ScheduleScore {
+  const { openRadio, filledRadio, radio, utCounts, scheduled } = collectHoldings(schedule, dispatchers);
+
+  const preferenceScores: number[] = [];
+  dispatchers.filter(hasPreferences).forEach((d) => {
+    const ranking = rankPreferredOptions(d);
+    (radio.get(d.id) ?? []).forEach(({ slot, col }) => {
+      const rank = ranking.get(`${slot}|${col}`);
+      preferenceScores.push(rank === undefined ? 0 : 1 - rank / ranking.size);
+    });
+  });
+
+  const perWorkDay = scheduled.map((d) => (radio.get(d.id)?.length ?? 0) / getWeekWorkDays(d).length);
+  const average = mean(perWorkDay, 0);
+  const spread = Math.sqrt(mean(perWorkDay.map((v) => (v - average) ** 2), 0));
+  const fairness = average > 0 ? Math.max(0, 1 - spread / average) : 1;
+
+  const utDistribution = mean(
+    scheduled.map((d) => {
+      const count = utCounts.get(d.id) ?? 0;
+      return count === 1 || (count > 1 && d.wantsExtraUtility) ? 1 : 0;
+    }),
+    1
+  );
+
+  const coverage = openRadio === 0 ? 1 : filledRadio / openRadio;
+  const preferences = mean(preferenceScores, 1);
+  return {
+    coverage,
+    preferences,
+    fairness,
+    utDistribution,
+    overall: (coverage + preferences + fairness + utDistribution) / 4,
+  };
+}
+
+/**
+ * The detailed counts behind a week's quality: radio cells filled, assignments within each
+ * dispatcher's top `topN` preferred channels and time blocks (a list they left empty does
+ * not restrict), seniority inversions, radio cells per person and UT coverage.
+ */
+export function buildScorecard(schedule: Schedule, dispatchers: ExtendedDispatcher[], topN = 3): ScheduleScorecard {
+  const { openRadio, filledRadio, radio, utCounts, scheduled } = collectHoldings(schedule, dispatchers);
+
+  let matched = 0;
+  let total = 0;
+  dispatchers.filter(hasPreferences).forEach((d) => {
+    const channels = (d.preferredChannels ?? []).slice(0, topN);
+    const blocks = (d.preferredTimeBlocks ?? []).slice(0, topN);
+    (radio.get(d.id) ?? []).forEach(({ slot, col }) => {
+      total += 1;
+      if ((channels.length === 0 || channels.includes(col)) && (blocks.length === 0 || blocks.includes(slot))) matched += 1;
+    });
+  });
+
+  const slotsPerPerson = scheduled
+    .map((d) => ({ dispatcherId: d.id, slots: radio.get(d.id)?.length ?? 0 }))
+    .sort((a, b) => a.slots - b.slots || a.dispatcherId.localeCompare(b.dispatcherId));
+
+  const missing = scheduled.filter((d) => !utCounts.get(d.id)).map((d) => d.id);
+
+  return {
+    radio: { filled: filledRadio, open: openRadio },
+    preferenceMatches: { matched, total, topN },
+    seniorityInversions: findSeniorityInversions(radio, dispatchers),
+    slotsPerPerson,
+    ut: { covered: scheduled.length - missing.length, total: scheduled.length, missing },
+  };
+}
+
+function findSeniorityInversions(radio: Map<string, ScheduleCell[]>, dispatchers: ExtendedDispatcher[]): SeniorityInversion[] {
+  // Dispatchers with preferences, most senior first, with their ranking
+  const seniors = dispatchers
+    .filter((d) => isScheduled(d) && hasPreferences(d))
+    .sort((a, b) => getSeniorityRank(a) - getSeniorityRank(b))
+    .map((d) => ({ dispatcher: d, rank: getSeniorityRank(d), ranking: rankPreferredOptions(d) }));
+
+  // Best rank among the radio cells a dispatcher holds on a day (Infinity without a ranked one)
+  const bestHeld = (id: string, ranking: Map<string, number>, day: Day) =>
+    Math.min(
+      Infinity,
+      ...(radio.get(id) ?? []).filter((c) => c.day === day).map((c) => ranking.get(`${c.slot}|${c.col}`) ?? Infinity)
+    );
+
+  const inversions: SeniorityInversion[] = [];
+  radio.forEach((cells, juniorId) => {
+    const junior = dispatchers.find((d) => d.id === juniorId);
+    if (!junior) return;
+    const juniorRank = getSeniorityRank(junior);
+    cells.forEach((cell) => {
+      const senior = seniors.find(({ dispatcher, rank, ranking }) => {
+        if (rank >= juniorRank || dispatcher.id === juniorId) return false;
+        const cellRank = ranking.get(`${cell.slot}|${cell.col}`);
+        if (cellRank === undefined) return false;
+        if (!isEligibleOnDayForSlot(dispatcher, cell.day, cell.slot) || !isSlotInShift(dispatcher, cell.slot)) return false;
+        return cellRank < bestHeld(dispatcher.id, ranking, cell.day);
+      });
+      if (senior) inversions.push({ ...cell, juniorId, seniorId: senior.dispatcher.id });
+    });
+  });
+
+  return inversions.sort((a, b) => days.indexOf(a.day) - days.indexOf(b.day) || getTimeSlots().indexOf(a.slot) - getTimeSlots().indexOf(b.slot));
+}
@@ -1,24 +1,85 @@
-import { Day, TimeSlot, timeSlots, days } from '../../constants';
-import { ExtendedDispatcher } from '../../appTypes';
+import { Day, TimeSlot, getTimeSlots, days, isNextDaySlot, remapTimeSlot } from '../../constants';
+import { ExtendedDispatcher, ShiftDefinition } from '../../appTypes';
+import { isOnLeave, isSlotAvailable, worksOnDay } from './availabilityUtils';
 
 /**
- * Define shift time slots for each shift letter
+ * Built-in shift definitions (used until a saved configuration is applied)
  */
-export const SHIFT_SLOTS: Record<string, TimeSlot[]> = {
-  A: ['0330-0530','0530-0730','0730-0930','0930-1130','1130-1330'],
-  B: ['0730-0930','0930-1130','1130-1330','1330-1530','1530-1730'],
-  C: ['1130-1330','1330-1530','1530-1730','1730-1930','1930-2130'],
-  D: ['1330-1530','1530-1730','1730-1930','1930-2130','2130-2330'],
-  E: ['1730-1930','1930-2130','2130-2330','2330-0130','0130-0330'],
-  F: ['2130-2330','2330-0130','0130-0330','0330-0530','0530-0730'],
-};
+export const DEFAULT_SHIFT_DEFINITIONS: ReadonlyArray<ShiftDefinition> = [
+  { letter: 'A', hours: '0300-1330', startSlot: '0330-0530', endSlot: '1130-1330', spillover: false, showInRoster: true },
+  { letter: 'B', hours: '0700-1730', startSlot: '0730-0930', endSlot: '1530-1730', spillover: false, showInRoster: true },
+  { letter: 'C', hours: '1100-2130', startSlot: '1130-1330', endSlot: '1930-2130', spillover: false, showInRoster: true },
+  { letter: 'D', hours: '1300-2330', startSlot: '1330-1530', endSlot: '2130-2330', spillover: false, showInRoster: false },
+  { letter: 'E', hours: '1700-0330', startSlot: '1730-1930', endSlot: '0130-0330', spillover: true, showInRoster: true },
+  { letter: 'F', hours: '2100-0730', startSlot: '2130-2330', endSlot: '0530-0730', spillover: true, showInRoster: true },
+];
+
+/**
+ * Expands a shift definition into its time slots, wrapping past the last row of the
+ * day grid (e.g. F runs 2130-2330 through 0530-0730).
+ */
+export function expandShiftSlots(definition: ShiftDefinition): TimeSlot[] {
+  const slots = getTimeSlots();
+  const start = slots.indexOf(definition.startSlot);
+  const end = slots.indexOf(definition.endSlot);
+  if (start === -1 || end === -1) return [];
+  const count = ((end - start + slots.length) % slots.length) + 1;
+  return Array.from({ length: count }, (_, i) => slots[(start + i) % slots.length]);
+}
+
+// Active shift configuration, replaced via applyShiftDefinitions()
+let activeShiftDefinitions: ShiftDefinition[] = [...DEFAULT_SHIFT_DEFINITIONS];
+let activeShiftSlots: Record<string, TimeSlot[]> = buildShiftSlots(activeShiftDefinitions);
+
+function buildShiftSlots(definitions: ShiftDefinition[]): Record<string, TimeSlot[]> {
+  const slots: Record<string, TimeSlot[]> = {};
+  definitions.forEach((d) => {
+    slots[d.letter] = expandShiftSlots(d);
+  });
+  return slots;
+}
+
+/**
+ * Replaces the active shift configuration read by the solver and the UI
+ */
+export function applyShiftDefinitions(definitions: ShiftDefinition[]): void {
+  activeShiftDefinitions = [...definitions];
+  activeShiftSlots = buildShiftSlots(activeShiftDefinitions);
+}
+
+/**
+ * Moves shift boundaries onto the active slot grid after it changed: the first slot becomes
+ * the row containing the old start time, the last slot the row containing the old end time.
+ */
+export function remapShiftDefinitions(definitions: ShiftDefinition[]): ShiftDefinition[] {
+  const slots = getTimeSlots();
+  return definitions.map((d) => ({
+    ...d,
+    startSlot: remapTimeSlot(d.startSlot, 'start') ?? slots[0],
+    endSlot: remapTimeSlot(d.endSlot, 'end') ?? slots[slots.length - 1],
+  }));
+}
+
+/**
+ * Returns the active shift configuration
+ */
+export function getShiftDefinitions(): ShiftDefinition[] {
+  return activeShiftDefinitions;
+}
+
+/**
+ * Returns the time slots covered by a shift letter, or undefined for unknown shifts
+ */
+export function getShiftSlots(shift: string): TimeSlot[] | undefined {
+  return activeShiftSlots[shift];
+}
 
 /**
  * Gets eligible time slots for a dispatcher based on their shift
  * If no shift is specified, returns all time slots
  */
 export function getEligibleSlots(dispatcher: ExtendedDispatcher): TimeSlot[] {
-  return dispatcher.shift ? SHIFT_SLOTS[dispatcher.shift] || [...timeSlots] : [...timeSlots];
+  return dispatcher.shift ? getShiftSlots(dispatcher.shift) || [...getTimeSlots()] : [...getTimeSlots()];
 }
 
 /**
@@ -26,7 +87,7 @@ export function getEligibleSlots(dispatcher: ExtendedDispatcher): TimeSlot[] {
  */
 export function isSlotInShift(dispatcher: ExtendedDispatcher, slot: TimeSlot): boolean {
   if (!dispatcher.shift) return true;
-  const shiftSlots = SHIFT_SLOTS[dispatcher.shift];
+  const shiftSlots = getShiftSlots(dispatcher.shift);
   return shiftSlots ? shiftSlots.includes(slot) : true;
 }
 
@@ -41,30 +102,65 @@ export function getPreviousDay(day: Day): Day {
   return days[prevIdx] as Day;
 }
 
-// Overnight spillover time slots by shift for the NEXT calendar day
-const OVERNIGHT_SLOTS_E: ReadonlyArray<TimeSlot> = ['2330-0130', '0130-0330'];
-const OVERNIGHT_SLOTS_F: ReadonlyArray<TimeSlot> = ['2330-0130', '0130-0330', '0330-0530', '0530-0730'];
-
-// Relative-to-displayed-day semantics: which slots visually belong to the NEXT calendar day
-// In the UI, rows '2330-0130' and '0130-0330' on a given day column are technically part of the next calendar day.
-const NEXT_DAY_RELATIVE_SLOTS: ReadonlySet<TimeSlot> = new Set<TimeSlot>(['2330-0130', '0130-0330']);
+/**
+ * Checks if a shift is configured to spill over into the next calendar day (E and F by default).
+ */
+export function shiftHasSpillover(shift: string | undefined): boolean {
+  if (!shift) return false;
+  return activeShiftDefinitions.some((d) => d.letter === shift && d.spillover);
+}
 
 /**
- * Checks if a next-day time slot counts as spillover for a given shift (E or F).
+ * Checks if a next-day time slot counts as spillover for a given shift.
+ * Spillover slots are the shift's slots past midnight: rows that belong to the next
+ * calendar day, plus rows that wrap around to the top of the day grid.
  */
 export function isSpilloverSlotForShift(shift: string | undefined, slot: TimeSlot): boolean {
-  if (!shift) return false;
-  if (shift === 'E') return OVERNIGHT_SLOTS_E.includes(slot);
-  if (shift === 'F') return OVERNIGHT_SLOTS_F.includes(slot);
-  return false;
+  if (!shift || !shiftHasSpillover(shift)) return false;
+  const definition = activeShiftDefinitions.find((d) => d.letter === shift);
+  if (!definition) return false;
+  const shiftSlots = getShiftSlots(shift) || [];
+  if (!shiftSlots.includes(slot)) return false;
+  const slots = getTimeSlots();
+  const wraps = slots.indexOf(slot) < slots.indexOf(definition.startSlot);
+  return wraps || isNextDaySlot(slot);
+}
+
+/**
+ * Leave and partial-day or overtime windows for a slot of the day's grid. A spillover row of
+ * the shift is worked on the previous day's shift, so that day's exceptions decide it; Monday's
+ * belong to the week before, whose exceptions are not resolved, and count as available.
+ */
+export function isShiftSlotAvailable(
+  dispatcher: ExtendedDispatcher,
+  day: Day,
+  slot: TimeSlot,
+  shift: string | undefined = dispatcher.shift
+): boolean {
+  if (isSpilloverSlotForShift(shift, slot) && !isNextDaySlot(slot)) {
+    return day === days[0] || isSlotAvailable(dispatcher, getPreviousDay(day), slot);
+  }
+  return isSlotAvailable(dispatcher, day, slot);
+}
+
+/**
+ * True if the dispatcher can be on the grid of the given day at all: a work day of the
+ * week (see worksOnDay), or the morning after a spillover shift's work day.
+ */
+export function isAvailableOnDay(dispatcher: ExtendedDispatcher, day: Day): boolean {
+  if (isOnLeave(dispatcher, day)) return false;
+  if (worksOnDay(dispatcher, day)) return true;
+  return shiftHasSpillover(dispatcher.shift) && worksOnDay(dispatcher, getPreviousDay(day));
 }
 
 /**
  * Determines if a dispatcher is eligible to work a specific timeslot on the given day.
  * Rules:
+ * - Leave and partial-day or overtime windows for the date are honored first (the previous
+ *   date's for spillover rows, see isShiftSlotAvailable).
  * - If no workDays are defined, they are available every day.
- * - If the selected day is in workDays, it's valid.
- * - If not, allow overnight spillover for E/F shifts when the previous day is in workDays
+ * - If the selected day is in workDays (or an overtime day), it's valid.
+ * - If not, allow overnight spillover for spillover shifts (E/F by default) when the previous day is in workDays
  *   and the chosen slot is one of the spillover slots for that shift.
  * - If followTrainerSchedule applies, trainer's days/shift are used.
  */
@@ -83,11 +179,10 @@ export function isEligibleOnDayForSlot(
     effectiveShift = trainer.shift ?? effectiveShift;
   }
 
-  // No workDays set -> available all days
-  if (!effectiveDays || effectiveDays.length === 0) return true;
+  if (!isShiftSlotAvailable(dispatcher, day, slot, effectiveShift)) return false;
 
-  // Same calendar day is always valid
-  if (effectiveDays.includes(day)) return true;
+  // Same calendar day is always valid (no workDays set -> available all days)
+  if (worksOnDay(dispatcher, day, effectiveDays)) return true;
 
   // Allow overnight spillover for E/F shifts into the next calendar day, but only for slots
   // that are part of the current day's early morning (not rows that visually belong to the next day).
@@ -95,9 +190,9 @@ export function isEligibleOnDayForSlot(
   if (
     effectiveShift &&
     isSpilloverSlotForShift(effectiveShift, slot) &&
-    effectiveDays.includes(prev) &&
+    worksOnDay(dispatcher, prev, effectiveDays) &&
     // Block selections like 0130 on "Tuesday" (technically Wednesday)
-    !NEXT_DAY_RELATIVE_SLOTS.has(slot)
+    !isNextDaySlot(slot)
   ) {
     return true;
   }
@@ -0,0 +1,43 @@
+/**
+ * Seeded tie-breaking for alternative runs. Seed 0 keeps the solver's natural order, so a
+ * run without a seed is unchanged; any other seed shuffles options the solver ranks equally.
+ */
+export interface TieBreaker {
+  /** A copy of `items` in tie-breaking order; sort it afterwards (sorts are stable) */
+  shuffle<T>(items: readonly T[]): T[];
+  /** A number in [0, 1); always 0 for seed 0 */
+  next(): number;
+}
+
+export const NATURAL_ORDER: TieBreaker = {
+  shuffle: (items) => [...items],
+  next: () => 0,
+};
+
+// mulberry32: small, fast and good enough to reorder a handful of options
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createTieBreaker(seed = 0): TieBreaker {
+  if (!seed) return NATURAL_ORDER;
+  const random = createRandom(seed);
+  return {
+    shuffle: (items) => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+    next: random,
+  };
+}
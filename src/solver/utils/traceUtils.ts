@@ -0,0 +1,72 @@
+import { Day, TimeSlot, Column, isCellDisabled, isRadioColumn } from '../../constants';
+import { ExtendedDispatcher } from '../../appTypes';
+import { AssignmentPass, AssignmentTrace, AssignmentTraceLog, BetterOption, ScheduleDay } from '../solverTypes';
+import { createEmptyScheduleDay, isDispatcherInTimeslot } from './scheduleOps';
+import { generatePreferredAssignments, hasPreferences } from './assignmentUtils';
+import { isEligibleOnDayForSlot } from './shiftUtils';
+
+// Better-ranked options kept per trace
+const MAX_BETTER_OPTIONS = 5;
+
+export const traceKey = (day: Day, slot: TimeSlot, col: Column) => `${day}|${slot}|${col}`;
+
+/**
+ * Explains a cell the dispatcher was just placed in: the pass, the preference rank hit and
+ * what blocked the options ranked above it, judged against the schedule after placement.
+ */
+export function explainAssignment(
+  pass: AssignmentPass,
+  dispatcher: ExtendedDispatcher,
+  day: Day,
+  slot: TimeSlot,
+  col: Column,
+  schedule: ScheduleDay
+): AssignmentTrace {
+  const trace: AssignmentTrace = {
+    day,
+    slot,
+    col,
+    dispatcherId: dispatcher.id,
+    pass,
+    betterOptions: [],
+    betterOptionCount: 0,
+  };
+  // Preferences only rank radio cells
+  if (!hasPreferences(dispatcher) || !isRadioColumn(col)) return trace;
+
+  // Rank against an empty day so options held by others keep their place in the list
+  const ranked = generatePreferredAssignments(dispatcher, createEmptyScheduleDay());
+  const index = ranked.findIndex((a) => a.slot === slot && a.col === col);
+  const better = index === -1 ? ranked : ranked.slice(0, index);
+
+  trace.preferenceCount = ranked.length;
+  if (index !== -1) trace.preferenceRank = index + 1;
+  trace.betterOptionCount = better.length;
+  trace.betterOptions = better.slice(0, MAX_BETTER_OPTIONS).map((option): BetterOption => {
+    const heldBy = (schedule[option.slot][option.col] || '').trim();
+    if (heldBy) return { slot: option.slot, col: option.col, block: 'held', heldBy };
+    if (isCellDisabled(day, option.slot, option.col)) return { slot: option.slot, col: option.col, block: 'closed' };
+    if (!isEligibleOnDayForSlot(dispatcher, day, option.slot)) {
+      return { slot: option.slot, col: option.col, block: 'unavailable' };
+    }
+    if (option.slot !== slot && isDispatcherInTimeslot(dispatcher.id, schedule, option.slot)) {
+      return { slot: option.slot, col: option.col, block: 'busy' };
+    }
+    return { slot: option.slot, col: option.col, block: 'open' };
+  });
+  return trace;
+}
+
+/** Adds a trace for a placed cell when the run collects traces */
+export function recordTrace(
+  log: AssignmentTraceLog | undefined,
+  pass: AssignmentPass,
+  dispatcher: ExtendedDispatcher,
+  day: Day,
+  slot: TimeSlot,
+  col: Column,
+  schedule: ScheduleDay
+): void {
+  if (!log) return;
+  log.set(traceKey(day, slot, col), explainAssignment(pass, dispatcher, day, slot, col, schedule));
+}
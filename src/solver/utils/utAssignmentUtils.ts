@@ -1,8 +1,19 @@
-import { Day, TimeSlot, timeSlots } from '../../constants';
+import {
+  Day,
+  TimeSlot,
+  Column,
+  getTimeSlots,
+  getUtilityColumns,
+  getAssignableUtilityColumns,
+  isCellDisabled,
+} from '../../constants';
 import { ExtendedDispatcher, extractBadgeNumber } from '../../appTypes';
-import { ScheduleDay } from '../solverTypes';
-import { getEligibleSlots, SHIFT_SLOTS } from './shiftUtils';
+import { AssignmentTraceLog, ScheduleDay } from '../solverTypes';
+import { getEligibleSlots, getShiftSlots, isShiftSlotAvailable } from './shiftUtils';
 import { isDispatcherInTimeslot } from './scheduleOps';
+import { getWeekWorkDays } from './availabilityUtils';
+import { recordTrace } from './traceUtils';
+import { NATURAL_ORDER, TieBreaker } from './tieBreakUtils';
 
 // Debug logging toggle for UT assignment
 const DEBUG = false;
@@ -22,13 +33,34 @@ function getSenioritySortKey(d: ExtendedDispatcher): number {
   return extractBadgeNumber(d.id);
 }
 
+// Empty, open utility cells in a slot, in configured channel order
+function openUtilityColumns(day: Day, daySchedule: ScheduleDay, slot: TimeSlot): Column[] {
+  return getAssignableUtilityColumns().filter((col) => !daySchedule[slot][col] && !isCellDisabled(day, slot, col));
+}
+
+// Every empty, open utility cell across the week
+function collectOpenUtilityCells(weekSchedule: Record<Day, ScheduleDay>): Array<{ day: Day; slot: TimeSlot; col: Column }> {
+  const cells: Array<{ day: Day; slot: TimeSlot; col: Column }> = [];
+  Object.entries(weekSchedule).forEach(([dayName, daySchedule]) => {
+    getTimeSlots().forEach(slot => {
+      openUtilityColumns(dayName as Day, daySchedule, slot).forEach(col => {
+        cells.push({ day: dayName as Day, slot, col });
+      });
+    });
+  });
+  return cells;
+}
+
 /**
  * Assigns exactly one UT slot per dispatcher per work week
  * This is called after all regular scheduling is complete
+ * @param tieBreaker orders the days and slots tried for each dispatcher's UT
  */
 export function assignUTSlots(
   weekSchedule: Record<Day, ScheduleDay>,
-  dispatchers: ExtendedDispatcher[]
+  dispatchers: ExtendedDispatcher[],
+  trace?: AssignmentTraceLog,
+  tieBreaker: TieBreaker = NATURAL_ORDER
 ): void {
   log('[UT Assignment] Starting UT slot assignment for the week');
   
@@ -43,33 +75,35 @@ export function assignUTSlots(
   
   // Count existing UT assignments
   Object.entries(weekSchedule).forEach(([, daySchedule]) => {
-    timeSlots.forEach(slot => {
-      const utAssignee = daySchedule[slot]['UT'];
-      if (utAssignee) {
-        const key = idByAny.get(utAssignee.trim()) || utAssignee.trim();
-        const count = utAssignments.get(key) || 0;
-        utAssignments.set(key, count + 1);
-      }
+    getTimeSlots().forEach(slot => {
+      getUtilityColumns().forEach(col => {
+        const utAssignee = daySchedule[slot][col];
+        if (utAssignee) {
+          const key = idByAny.get(utAssignee.trim()) || utAssignee.trim();
+          const count = utAssignments.get(key) || 0;
+          utAssignments.set(key, count + 1);
+        }
+      });
     });
   });
   
   // Sort dispatchers by seniority for UT assignment priority
   const sortedDispatchers = [...dispatchers]
-    .filter(d => d.workDays && d.workDays.length > 0 && !d.excludeFromAutoSchedule && !(d.isTrainee || d.traineeOf)) // Exclude trainees entirely
+    .filter(d => getWeekWorkDays(d).length > 0 && !d.excludeFromAutoSchedule && !(d.isTrainee || d.traineeOf)) // Exclude trainees entirely
     .sort((a, b) => getSenioritySortKey(a) - getSenioritySortKey(b));
   
   // Assign exactly one UT slot to each dispatcher
-  assignPrimaryUTSlots(weekSchedule, sortedDispatchers, utAssignments);
+  assignPrimaryUTSlots(weekSchedule, sortedDispatchers, utAssignments, tieBreaker, trace);
   
   // Verify all dispatchers got their UT slot
   const missingUT = sortedDispatchers.filter(d => (utAssignments.get(d.id) || 0) === 0);
   if (missingUT.length > 0) {
     warn(`[UT Assignment] ${missingUT.length} dispatchers did not receive a UT slot. Attempting fallback assignment.`);
-    assignFallbackUTSlots(weekSchedule, missingUT, utAssignments);
+    assignFallbackUTSlots(weekSchedule, missingUT, utAssignments, tieBreaker, trace);
   }
   
   // Assign extra UT slots to volunteers
-  assignExtraUTSlots(weekSchedule, sortedDispatchers, utAssignments);
+  assignExtraUTSlots(weekSchedule, sortedDispatchers, utAssignments, trace);
   
   log('[UT Assignment] UT slot assignment complete');
 }
@@ -80,7 +114,9 @@ export function assignUTSlots(
 function assignPrimaryUTSlots(
   weekSchedule: Record<Day, ScheduleDay>,
   sortedDispatchers: ExtendedDispatcher[],
-  utAssignments: Map<string, number>
+  utAssignments: Map<string, number>,
+  tieBreaker: TieBreaker,
+  trace?: AssignmentTraceLog
 ): void {
   for (const dispatcher of sortedDispatchers) {
     const dispatcherKey = dispatcher.id;
@@ -90,22 +126,25 @@ function assignPrimaryUTSlots(
       // Find the first available UT slot on any of their work days
       let assigned = false;
       
-      for (const workDay of dispatcher.workDays || []) {
+      for (const workDay of tieBreaker.shuffle(getWeekWorkDays(dispatcher))) {
         if (assigned) break;
         
         const daySchedule = weekSchedule[workDay as Day];
         if (!daySchedule) continue;
         
         // Get eligible slots based on their shift
-        const eligibleSlots = getEligibleSlots(dispatcher);
+        const eligibleSlots = tieBreaker.shuffle(getEligibleSlots(dispatcher));
         
         for (const slot of eligibleSlots) {
-          if (daySchedule[slot]['UT'] === '' && !isDispatcherInTimeslot(dispatcherKey, daySchedule, slot)) {
+          if (!isShiftSlotAvailable(dispatcher, workDay, slot)) continue;
+          const [col] = openUtilityColumns(workDay as Day, daySchedule, slot);
+          if (col && !isDispatcherInTimeslot(dispatcherKey, daySchedule, slot)) {
             // Assign the UT slot
-            daySchedule[slot]['UT'] = dispatcherKey;
+            daySchedule[slot][col] = dispatcherKey;
             utAssignments.set(dispatcherKey, 1);
+            recordTrace(trace, 'ut-primary', dispatcher, workDay, slot, col, daySchedule);
             assigned = true;
-            log(`[UT Assignment] Assigned ${dispatcherKey} to UT on ${workDay} ${slot}`);
+            log(`[UT Assignment] Assigned ${dispatcherKey} to ${col} on ${workDay} ${slot}`);
             break;
           }
         }
@@ -127,17 +166,12 @@ function assignPrimaryUTSlots(
 function assignFallbackUTSlots(
   weekSchedule: Record<Day, ScheduleDay>,
   missingDispatchers: ExtendedDispatcher[],
-  utAssignments: Map<string, number>
+  utAssignments: Map<string, number>,
+  tieBreaker: TieBreaker,
+  trace?: AssignmentTraceLog
 ): void {
   // Collect all empty UT slots across the week
-  const emptySlots: Array<{ day: Day; slot: TimeSlot }> = [];
-  Object.entries(weekSchedule).forEach(([dayName, daySchedule]) => {
-    timeSlots.forEach(slot => {
-      if (daySchedule[slot]['UT'] === '') {
-        emptySlots.push({ day: dayName as Day, slot });
-      }
-    });
-  });
+  const emptySlots = tieBreaker.shuffle(collectOpenUtilityCells(weekSchedule));
 
   if (emptySlots.length === 0) {
     warn('[UT Assignment] No empty UT slots available for fallback assignment');
@@ -154,13 +188,13 @@ function assignFallbackUTSlots(
     // Find first available slot that matches their work days and shift
     const slotIndex = emptySlots.findIndex(({ day, slot }) => {
       // Check if dispatcher works this day
-      if (dispatcher.workDays && dispatcher.workDays.length > 0 && !dispatcher.workDays.includes(day)) {
+      if (!getWeekWorkDays(dispatcher).includes(day) || !isShiftSlotAvailable(dispatcher, day, slot)) {
         return false;
       }
       
       // Check if slot is in their shift
       if (dispatcher.shift) {
-        const shiftSlots = SHIFT_SLOTS[dispatcher.shift] || [];
+        const shiftSlots = getShiftSlots(dispatcher.shift) || [];
         if (!shiftSlots.includes(slot)) {
           return false;
         }
@@ -174,15 +208,16 @@ function assignFallbackUTSlots(
     });
     
     if (slotIndex !== -1) {
-      const { day, slot } = emptySlots[slotIndex];
+      const { day, slot, col } = emptySlots[slotIndex];
       const daySchedule = weekSchedule[day];
       if (isDispatcherInTimeslot(dispatcherKey, daySchedule, slot)) {
         warn(`[UT Assignment] Attempted to double-book ${dispatcherKey} in ${day} ${slot}`);
         continue;
       }
-      daySchedule[slot]['UT'] = dispatcherKey;
+      daySchedule[slot][col] = dispatcherKey;
       utAssignments.set(dispatcherKey, 1);
-      log(`[UT Assignment] Fallback assigned ${dispatcherKey} to UT on ${day} ${slot}`);
+      recordTrace(trace, 'ut-fallback', dispatcher, day, slot, col, daySchedule);
+      log(`[UT Assignment] Fallback assigned ${dispatcherKey} to ${col} on ${day} ${slot}`);
       emptySlots.splice(slotIndex, 1); // Remove assigned slot
     } else {
       warn(`[UT Assignment] Could not assign fallback UT slot to ${dispatcherKey} - no suitable slots`);
@@ -196,17 +231,11 @@ function assignFallbackUTSlots(
 function assignExtraUTSlots(
   weekSchedule: Record<Day, ScheduleDay>,
   sortedDispatchers: ExtendedDispatcher[],
-  utAssignments: Map<string, number>
+  utAssignments: Map<string, number>,
+  trace?: AssignmentTraceLog
 ): void {
   // Collect remaining empty UT slots across the week
-  const remainingSlots: Array<{ day: Day; slot: TimeSlot }> = [];
-  Object.entries(weekSchedule).forEach(([dayName, daySchedule]) => {
-    timeSlots.forEach(slot => {
-      if (daySchedule[slot]['UT'] === '') {
-        remainingSlots.push({ day: dayName as Day, slot });
-      }
-    });
-  });
+  const remainingSlots = collectOpenUtilityCells(weekSchedule);
 
   if (remainingSlots.length === 0) {
     log('[UT Assignment] No remaining UT slots to assign');
@@ -231,17 +260,17 @@ function assignExtraUTSlots(
     for (const dispatcher of extraUtDispatchers) {
       if (slotIndex >= remainingSlots.length) break outer;
 
-      const { day, slot } = remainingSlots[slotIndex];
+      const { day, slot, col } = remainingSlots[slotIndex];
       const daySchedule = weekSchedule[day];
       if (!daySchedule) continue;
 
       // Skip if dispatcher not working on that day
-      if (dispatcher.workDays && dispatcher.workDays.length > 0 && !dispatcher.workDays.includes(day)) {
+      if (!getWeekWorkDays(dispatcher).includes(day) || !isShiftSlotAvailable(dispatcher, day, slot)) {
         continue;
       }
 
       // Respect shift when possible
-      if (dispatcher.shift && !SHIFT_SLOTS[dispatcher.shift]?.includes(slot)) {
+      if (dispatcher.shift && !getShiftSlots(dispatcher.shift)?.includes(slot)) {
         continue;
       }
 
@@ -251,10 +280,11 @@ function assignExtraUTSlots(
         continue;
       }
 
-      daySchedule[slot]['UT'] = dispatcherKey;
+      daySchedule[slot][col] = dispatcherKey;
       const prev = utAssignments.get(dispatcherKey) || 0;
       utAssignments.set(dispatcherKey, prev + 1);
-      console.log(`[UT Assignment] Assigned EXTRA UT to ${dispatcher.id} on ${day} ${slot}`);
+      recordTrace(trace, 'ut-extra', dispatcher, day, slot, col, daySchedule);
+      console.log(`[UT Assignment] Assigned EXTRA ${col} to ${dispatcher.id} on ${day} ${slot}`);
       slotIndex++;
       progress = true;
     }
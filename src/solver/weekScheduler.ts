@@ -1,35 +1,105 @@
-import { days, Day, Schedule } from '../constants';
+import { days, Day, Schedule, ScheduleLocks, ScheduleScope } from '../constants';
 import { ExtendedDispatcher } from '../appTypes';
 import { generateScheduleForDay } from './dayScheduler';
-import { ScheduleDay } from './solverTypes';
+import { generateScheduleForDayILP, generateWeeklyScheduleILP } from './glpkScheduler';
+import { AssignmentTraceLog, ScheduleDay, SolverEngine, WeeklyScheduleOptions, WeeklyScheduleResult } from './solverTypes';
 import { assignUTSlots } from './utils/utAssignmentUtils';
-import { cloneScheduleDay, mergeScheduleDays, hasAnyAssignments, normalizeScheduleWeekToIds } from './utils/scheduleOps';
+import { cloneScheduleDay, mergeScheduleDays, hasAnyAssignments, normalizeScheduleWeekToIds, HELD_CELL } from './utils/scheduleOps';
 import { applyShiftAwareFallback } from './utils/fallbackUtils';
+import { applyFairness } from './utils/fairnessUtils';
+import { createTieBreaker, TieBreaker } from './utils/tieBreakUtils';
+import { buildScheduleReport } from './utils/reportUtils';
+import { keepLockedCells, lockOutsideScope, restoreLockedCells } from '../utils/scheduleLocks';
 
 export async function generateWeeklySchedule(
   current: Schedule,
-  dispatchers: ExtendedDispatcher[]
-): Promise<Schedule> {
-  console.log('[WeekScheduler] Starting weekly schedule generation');
+  roster: ExtendedDispatcher[],
+  options: WeeklyScheduleOptions = {}
+): Promise<WeeklyScheduleResult> {
+  const engine: SolverEngine = options.engine ?? 'greedy';
+  console.log(`[WeekScheduler] Starting weekly schedule generation (engine=${engine})`);
+
+  // With a fairness weight, picking order blends seniority with the ledger balance
+  const dispatchers = options.fairness ? applyFairness(roster, options.fairness) : roster;
+
+  // A scoped run treats every cell outside the scope as locked
+  const locks = options.scope ? lockOutsideScope(options.locks ?? {}, options.scope) : options.locks;
+  // With locks only locked cells are kept; every other cell is solved from scratch
+  const kept = locks ? keepLockedCells(current, locks) : current;
+  const start = locks ? holdEmptyLockedCells(kept, locks) : kept;
   
-  const newSchedule: Schedule = cloneWeeklySchedule(current);
+  const newSchedule: Schedule = cloneWeeklySchedule(start);
+  const tieBreaker = createTieBreaker(options.seed);
+
+  // Each day, then UT assignment
+  const totalSteps = days.length + 1;
+
+  // Joint week model places radio and UT together; fall back to per-day ILP if it fails
+  if (engine === 'glpk-week') {
+    options.onProgress?.({ step: 'Whole week', completed: 0, total: 1 });
+    const solvedWeek = await generateWeeklyScheduleILP(start, dispatchers, options.trace, tieBreaker, locks);
+    if (solvedWeek) {
+      days.forEach((day) => {
+        const mergedDay = mergeScheduleDays(start[day], solvedWeek[day], dispatchers);
+        newSchedule[day] = hasAnyAssignments(mergedDay)
+          ? mergedDay
+          : applyShiftAwareFallback(day, dispatchers, mergedDay, options.trace, solvedWeek);
+      });
+      console.log('[WeekScheduler] Weekly schedule generation complete');
+      return finishWeek(kept, normalizeScheduleWeekToIds(newSchedule, dispatchers), dispatchers, locks, options.scope);
+    }
+    console.warn('[WeekScheduler] Joint week model failed; solving day by day');
+  }
   
-  // Process each day
-  for (const day of days) {
-    const dayResult = await processDaySchedule(day, dispatchers, current[day]);
+  // Process each day; weekly radio caps and rest rules see the days solved so far and entries on the rest
+  for (const [index, day] of days.entries()) {
+    options.onProgress?.({ step: day, completed: index, total: totalSteps });
+    const dayResult = await processDaySchedule(day, dispatchers, start[day], engine === 'greedy' ? 'greedy' : 'glpk', tieBreaker, newSchedule, locks, options.trace);
     newSchedule[day] = dayResult;
   }
   
   // Normalize to IDs then assign exactly one UT slot per dispatcher per work week
   const normalized = normalizeScheduleWeekToIds(newSchedule, dispatchers);
-  assignUTSlots(normalized, dispatchers);
+  options.onProgress?.({ step: 'UT assignment', completed: days.length, total: totalSteps });
+  assignUTSlots(normalized, dispatchers, options.trace, tieBreaker);
   // Replace newSchedule with normalized (mutated by UT assignment)
   days.forEach((d) => {
     newSchedule[d] = normalized[d];
   });
   
   console.log('[WeekScheduler] Weekly schedule generation complete');
-  return newSchedule;
+  return finishWeek(kept, newSchedule, dispatchers, locks, options.scope);
+}
+
+/**
+ * Marks empty locked cells as held so no pass fills them
+ */
+function holdEmptyLockedCells(schedule: Schedule, locks: ScheduleLocks): Schedule {
+  const held = cloneWeeklySchedule(schedule);
+  days.forEach((day) => {
+    Object.entries(locks[day] ?? {}).forEach(([slot, cols]) => {
+      if (!held[day][slot]) return;
+      (cols ?? []).forEach((col) => {
+        if (!held[day][slot][col]) held[day][slot][col] = HELD_CELL;
+      });
+    });
+  });
+  return held;
+}
+
+/**
+ * Puts locked cells back exactly as entered (the solver stores IDs and holds empty ones)
+ * and reports on the result
+ */
+function finishWeek(
+  kept: Schedule,
+  schedule: Schedule,
+  dispatchers: ExtendedDispatcher[],
+  locks?: ScheduleLocks,
+  scope?: ScheduleScope
+): WeeklyScheduleResult {
+  if (locks) restoreLockedCells(schedule, kept, locks);
+  return { schedule, report: buildScheduleReport(kept, schedule, dispatchers, scope, locks) };
 }
 
 /**
@@ -49,15 +119,22 @@ function cloneWeeklySchedule(schedule: Schedule): Schedule {
 async function processDaySchedule(
   day: Day,
   dispatchers: ExtendedDispatcher[],
-  currentDaySchedule: ScheduleDay
+  currentDaySchedule: ScheduleDay,
+  engine: SolverEngine,
+  tieBreaker: TieBreaker,
+  week: Schedule,
+  locks?: ScheduleLocks,
+  trace?: AssignmentTraceLog
 ): Promise<ScheduleDay> {
   console.log(`[WeekScheduler] Processing ${day}`);
 
   // Generate new schedule for the day using the current schedule as locked
-  const solvedDay = await generateScheduleForDay(day, dispatchers, currentDaySchedule);
+  const solvedDay = engine === 'glpk'
+    ? await generateScheduleForDayILP(day, dispatchers, currentDaySchedule, trace, tieBreaker, week, locks)
+    : await generateScheduleForDay(day, dispatchers, currentDaySchedule, trace, tieBreaker, week, locks);
   
   // Merge with existing schedule (solved takes precedence for non-empty values)
-  const mergedDay = mergeScheduleDays(currentDaySchedule, solvedDay);
+  const mergedDay = mergeScheduleDays(currentDaySchedule, solvedDay, dispatchers);
   
   // Check if we have any assignments
   const hasAssignments = hasAnyAssignments(mergedDay);
@@ -65,7 +142,7 @@ async function processDaySchedule(
   
   // Apply fallback if no assignments were made (respect shifts and work days)
   if (!hasAssignments) {
-    return applyShiftAwareFallback(day, dispatchers, mergedDay);
+    return applyShiftAwareFallback(day, dispatchers, mergedDay, trace, week);
   }
   
   return mergedDay;
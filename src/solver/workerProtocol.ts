@@ -0,0 +1,40 @@
+import { Schedule } from '../constants';
+import { ChannelDefinition, ExtendedDispatcher, RadioRestRules, ShiftDefinition, TimeSlotGrid } from '../appTypes';
+import { AssignmentTraceLog, SolveProgress, WeeklyScheduleOptions, WeeklyScheduleResult } from './solverTypes';
+
+/**
+ * Messages between the renderer and the solver worker (see solverWorker.ts). A worker
+ * runs one job: it receives a single request, solves the week once per seed and answers
+ * with progress messages followed by exactly one `done` or `error`.
+ */
+
+/** The configuration registries the solver reads; a worker starts with the defaults */
+export interface SolverConfig {
+  grid: TimeSlotGrid;
+  channels: ChannelDefinition[];
+  shifts: ShiftDefinition[];
+  restRules: RadioRestRules;
+}
+
+export interface SolveRequest {
+  type: 'solve';
+  config: SolverConfig;
+  current: Schedule;
+  roster: ExtendedDispatcher[];
+  /** Callbacks and the trace log cannot cross the boundary; the worker supplies its own */
+  options: Omit<WeeklyScheduleOptions, 'trace' | 'onProgress' | 'seed'>;
+  /** One run per seed, in order */
+  seeds: number[];
+}
+
+/** The week one seed produced, with the traces of the cells it filled */
+export interface SolveRun {
+  seed: number;
+  result: WeeklyScheduleResult;
+  trace: AssignmentTraceLog;
+}
+
+export type SolverWorkerMessage =
+  | { type: 'progress'; progress: SolveProgress }
+  | { type: 'done'; runs: SolveRun[] }
+  | { type: 'error'; message: string };
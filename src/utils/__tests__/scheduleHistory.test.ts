@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptySchedule } from '../../appStorage';
+import { EMPTY_HISTORY, pushHistory, travelHistory } from '../scheduleHistory';
+
+describe('schedule history', () => {
+  const [first, second, third] = [createEmptySchedule(), createEmptySchedule(), createEmptySchedule()];
+  // Two edits: first -> second -> third
+  const history = pushHistory(pushHistory(EMPTY_HISTORY, first, 'one'), second, 'two');
+
+  it('undoes and redoes in order', () => {
+    const undone = travelHistory(history, third, 1);
+    expect(undone.schedule).toBe(second);
+    expect(undone.history.future.map((e) => e.label)).toEqual(['two']);
+
+    const redone = travelHistory(undone.history, undone.schedule, -1);
+    expect(redone.schedule).toBe(third);
+    expect(redone.history).toEqual(history);
+  });
+
+  it('stops at either end when asked for more steps than there are', () => {
+    const back = travelHistory(history, third, 5);
+    expect(back.schedule).toBe(first);
+    expect(back.history.past).toEqual([]);
+
+    const forward = travelHistory(back.history, back.schedule, -5);
+    expect(forward.schedule).toBe(third);
+    expect(forward.history.future).toEqual([]);
+  });
+
+  it('drops the redo entries when a new edit is made', () => {
+    const undone = travelHistory(history, third, 1);
+    const edited = pushHistory(undone.history, undone.schedule, 'three');
+    expect(edited.future).toEqual([]);
+    expect(edited.past.map((e) => e.label)).toEqual(['three', 'one']);
+  });
+});
@@ -1,29 +1,36 @@
-import { Day, Schedule, columns, timeSlots, Column } from '../constants';
+import { Day, Schedule, TimeSlot, getChannelDefinitions, getColumns, getTimeSlots, slotStartMinutes, Column } from '../constants';
 import type { DailyDetailDoc, DailyDetailGrid } from '../appStorage';
 import type { ExtendedDispatcher } from '../appTypes';
+import { getShiftDefinitions } from '../solver/utils/shiftUtils';
 
-// Default: exclude RELIEF from the top grid as it is typically empty in the detail sheet
-export const detailColumns: Column[] = columns.filter((c) => c !== 'RELIEF') as Column[];
+// Default: exclude relief channels from the top grid as they are typically empty in the detail sheet
+export function getDetailColumns(): Column[] {
+  return getChannelDefinitions().filter((c) => c.kind !== 'relief').map((c) => c.name);
+}
 
 export function buildDailyDetailGrid(day: Day, schedule: Schedule): DailyDetailGrid {
+  const detailColumns = getDetailColumns();
   const headers = [String(day), ...detailColumns];
-  const rows = timeSlots.map((slot) => [
+  const rows = getTimeSlots().map((slot) => [
     slot,
     ...detailColumns.map((c) => schedule[day][slot][c] || ''),
   ]);
   return { headers, rows };
 }
 
-function rosterHeaders(): string[] {
-  return ['A SHIFT', 'B SHIFT', 'C SHIFT', 'E SHIFT', 'F SHIFT'];
+// Shift letters that get a roster column, in configured order
+function rosterShifts(): string[] {
+  return getShiftDefinitions()
+    .filter((d) => d.showInRoster)
+    .map((d) => d.letter.trim().toUpperCase());
 }
 
 // Extract a set of dispatcher IDs that appear anywhere in the schedule for a given day
 function workingIdsForDay(day: Day, schedule: Schedule, dispatchers: ExtendedDispatcher[]): Set<string> {
   const validIds = new Set(dispatchers.map((d) => String(d.id || '').toUpperCase()));
   const seen = new Set<string>();
-  timeSlots.forEach((slot) => {
-    columns.forEach((col) => {
+  getTimeSlots().forEach((slot) => {
+    getColumns().forEach((col) => {
       const raw = schedule[day][slot][col];
       if (!raw) return;
       // Split on any non-letter to capture tokens like "KELL/AYAN (T)"
@@ -43,19 +50,20 @@ function workingIdsForDay(day: Day, schedule: Schedule, dispatchers: ExtendedDis
 function buildRosters(day: Day, schedule: Schedule, dispatchers: ExtendedDispatcher[]): { headers: string[]; rows: string[][] } {
   const working = workingIdsForDay(day, schedule, dispatchers);
   type Item = { id: string; name: string; seniority: number };
-  const groups: Record<'A' | 'B' | 'C' | 'E' | 'F', Item[]> = { A: [], B: [], C: [], E: [], F: [] };
+  const shifts = rosterShifts();
+  const groups: Record<string, Item[]> = Object.fromEntries(shifts.map((letter) => [letter, [] as Item[]]));
 
   dispatchers.forEach((d) => {
     const id = String(d.id || '').toUpperCase();
     if (!working.has(id)) return; // only show people working this day
     const shift = (d.shift || '').trim().toUpperCase();
-    if (shift !== 'A' && shift !== 'B' && shift !== 'C' && shift !== 'E' && shift !== 'F') return;
+    if (!groups[shift]) return;
     const s = typeof d.seniority === 'number' && !Number.isNaN(d.seniority) ? d.seniority : Number.POSITIVE_INFINITY;
     groups[shift].push({ id, name: d.name || id, seniority: s });
   });
 
   // Sort each group by seniority (1 = most senior), then by name for stability
-  (Object.keys(groups) as Array<keyof typeof groups>).forEach((k) => {
+  shifts.forEach((k) => {
     groups[k].sort((a, b) => {
       if (a.seniority !== b.seniority) return a.seniority - b.seniority;
       return a.name.localeCompare(b.name);
@@ -65,27 +73,36 @@ function buildRosters(day: Day, schedule: Schedule, dispatchers: ExtendedDispatc
   const maxLen = Math.max(0, ...Object.values(groups).map((list) => list.length));
   const rows: string[][] = [];
   for (let i = 0; i < maxLen; i++) {
-    rows.push([
-      groups.A[i]?.name || '',
-      groups.B[i]?.name || '',
-      groups.C[i]?.name || '',
-      groups.E[i]?.name || '',
-      groups.F[i]?.name || '',
-    ]);
+    rows.push(shifts.map((letter) => groups[letter][i]?.name || ''));
   }
-  return { headers: rosterHeaders(), rows };
+  return { headers: shifts.map((letter) => `${letter} SHIFT`), rows };
 }
 
-const STABILIZER_TIMES = ['0730','0930','1130','1330','1530','1730','1930','2130','2330','0130'];
-const RELIEF_TIMES = ['1530','1730','1930','2130','2330','0130'];
-// Teletype times shown in the reference layout
-const TELETYPE_TIMES = ['0130-0330','0330-0530','0530-0730'];
+// Clock windows [from, to) covered by the side panels; rows are the grid slots starting inside them
+const STABILIZER_WINDOW = { from: '0730', to: '0330' };
+const RELIEF_WINDOW = { from: '1530', to: '0330' };
+const TELETYPE_WINDOW = { from: '0130', to: '0730' };
+
+const toMinutes = (hhmm: string) => parseInt(hhmm.slice(0, 2), 10) * 60 + parseInt(hhmm.slice(2, 4), 10);
+
+// Grid slots starting inside a clock window, in chronological order from the window start
+function slotsInWindow(window: { from: string; to: string }): TimeSlot[] {
+  const from = toMinutes(window.from);
+  const span = (toMinutes(window.to) - from + 1440) % 1440 || 1440;
+  const offset = (slot: TimeSlot) => (slotStartMinutes(slot) - from + 1440) % 1440;
+  return getTimeSlots()
+    .filter((slot) => offset(slot) < span)
+    .sort((a, b) => offset(a) - offset(b));
+}
 
 export function buildDailyDetailDoc(day: Day, schedule: Schedule, dispatchers: ExtendedDispatcher[]): DailyDetailDoc {
   const grid = buildDailyDetailGrid(day, schedule);
   const rosters = buildRosters(day, schedule, dispatchers);
-  const stabilizer = { headers: ['STABILIZER', '', ''] as [string, string, string], rows: STABILIZER_TIMES.map((t) => [t, '', '']) };
-  const relief = { headers: ['RELIEF', '' ] as [string, string], rows: RELIEF_TIMES.map((t) => [t, '' ]) };
-  const teletype = { headers: ['TELETYPE', '' ] as [string, string], rows: TELETYPE_TIMES.map((t) => [t, '' ]) };
+  const stabilizerTimes = slotsInWindow(STABILIZER_WINDOW).map((slot) => slot.slice(0, 4));
+  const reliefTimes = slotsInWindow(RELIEF_WINDOW).map((slot) => slot.slice(0, 4));
+  const teletypeTimes = slotsInWindow(TELETYPE_WINDOW);
+  const stabilizer = { headers: ['STABILIZER', '', ''] as [string, string, string], rows: stabilizerTimes.map((t) => [t, '', '']) };
+  const relief = { headers: ['RELIEF', '' ] as [string, string], rows: reliefTimes.map((t) => [t, '' ]) };
+  const teletype = { headers: ['TELETYPE', '' ] as [string, string], rows: teletypeTimes.map((t) => [t, '' ]) };
   return { grid, rosters, stabilizer, relief, teletype };
 }
@@ -0,0 +1,112 @@
+import { ExtendedDispatcher } from '../appTypes';
+
+// Normalize loaded dispatchers (badge string -> number, wantsExtraRadio -> minimumRadioOnly, defaults)
+export type LegacyDispatcher = Omit<ExtendedDispatcher, 'badgeNumber' | 'minimumRadioOnly'> & {
+  badgeNumber?: number | string;
+  wantsExtraRadio?: boolean;
+  minimumRadioOnly?: boolean;
+};
+
+const RADIO_CAP_FIELDS = ['maxRadioPerDay', 'maxRadioPerWeek', 'maxConsecutiveRadio'] as const;
+
+export const normalizeDispatcher = (d: LegacyDispatcher): ExtendedDispatcher => {
+  const copy: LegacyDispatcher = { ...d };
+  // Normalize badgeNumber from strings like "D3045" or numeric strings
+  if (typeof copy.badgeNumber === 'string') {
+    const m = copy.badgeNumber.match(/\d+/);
+    copy.badgeNumber = m ? parseInt(m[0], 10) : undefined;
+  }
+  // Map legacy wantsExtraRadio to minimumRadioOnly (default extra radio)
+  if (typeof copy.wantsExtraRadio === 'boolean') {
+    if (copy.wantsExtraRadio === false) copy.minimumRadioOnly = true;
+    if (copy.wantsExtraRadio === true && typeof copy.minimumRadioOnly !== 'boolean') copy.minimumRadioOnly = false;
+    delete copy.wantsExtraRadio;
+  }
+  if (typeof copy.minimumRadioOnly !== 'boolean') copy.minimumRadioOnly = false;
+  // Radio caps are positive whole numbers (numeric strings accepted); anything else means no cap
+  RADIO_CAP_FIELDS.forEach((field) => {
+    const raw: unknown = copy[field];
+    const value = typeof raw === 'string' ? parseInt(raw, 10) : raw;
+    if (typeof value === 'number' && Number.isInteger(value) && value > 0) copy[field] = value;
+    else delete copy[field];
+  });
+  // Defensive: if not a trainee, ensure trainee linkage fields are cleared
+  if (copy.isTrainee !== true) {
+    copy.traineeOf = undefined;
+    copy.followTrainerSchedule = false;
+  }
+  return copy as ExtendedDispatcher;
+};
+
+// Compute and normalize seniority ranks (1 = most senior).
+// - Preserves CSV/manual seniority values when unique
+// - Resolves duplicates deterministically by bumping to next available number
+// - Assigns missing seniority sequentially after the max used value
+// Does not reorder the returned list; only updates the `seniority` field where needed.
+export const computeSeniority = (list: ExtendedDispatcher[]): ExtendedDispatcher[] => {
+  if (!Array.isArray(list) || list.length === 0) return list;
+
+  const numBadge = (d: ExtendedDispatcher): number => {
+    const raw = d.badgeNumber;
+    if (typeof raw === 'number' && !Number.isNaN(raw)) return raw;
+    // Fallback: extract digits from ID if present
+    const idm = String(d.id || '').match(/\d+/);
+    return idm ? parseInt(idm[0], 10) : Number.POSITIVE_INFINITY;
+  };
+
+  const senVal = (d: ExtendedDispatcher): number => {
+    const s = d.seniority;
+    return typeof s === 'number' && !Number.isNaN(s) ? s : Number.POSITIVE_INFINITY;
+  };
+
+  // Stable order for dedupe: by existing seniority asc, then badge asc, then id
+  const ordered = [...list].sort((a, b) => {
+    const sa = senVal(a), sb = senVal(b);
+    if (sa !== sb) return sa - sb;
+    const ba = numBadge(a), bb = numBadge(b);
+    if (ba !== bb) return ba - bb;
+    return String(a.id || '').localeCompare(String(b.id || ''));
+  });
+
+  // Determine starting point for filling in new numbers
+  let maxSeen = 0;
+  for (const d of ordered) {
+    const s = d.seniority;
+    if (typeof s === 'number' && !Number.isNaN(s) && s > maxSeen) maxSeen = s;
+  }
+  const used = new Set<number>();
+  let next = maxSeen + 1;
+
+  // Compute new seniority assignments without mutating original list
+  const newSenById = new Map<string, number>();
+  for (const d of ordered) {
+    const s = d.seniority;
+    if (typeof s === 'number' && !Number.isNaN(s)) {
+      // Keep if unique; otherwise bump to next available
+      let target = s;
+      while (used.has(target)) target++;
+      used.add(target);
+      if (target !== s) newSenById.set(d.id, target);
+    } else {
+      // Missing seniority: assign sequentially after max
+      while (used.has(next)) next++;
+      newSenById.set(d.id, next);
+      used.add(next);
+      next++;
+    }
+  }
+
+  // Apply changes in original order only where needed
+  let changed = false;
+  const result = list.map((d) => {
+    const assigned = newSenById.get(d.id);
+    if (assigned == null) return d;
+    const current = d.seniority;
+    if (current !== assigned) {
+      changed = true;
+      return { ...d, seniority: assigned } as ExtendedDispatcher;
+    }
+    return d;
+  });
+  return changed ? result : list;
+};
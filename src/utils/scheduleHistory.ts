@@ -0,0 +1,68 @@
+import { Column, Day, Schedule, ScheduleScope, TimeSlot } from '../constants';
+
+// Undo entries kept per week; the oldest fall off first
+export const MAX_HISTORY = 50;
+
+// A schedule on one side of a labelled action
+export interface HistoryEntry {
+  label: string;
+  schedule: Schedule;
+}
+
+// `past` holds the schedule before each action, newest first; `future` the schedule after each
+// undone action, next redo first. Making a new edit drops the redo entries.
+export interface ScheduleHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: ScheduleHistory = { past: [], future: [] };
+
+/** Records `before` as the state to return to when `label` is undone */
+export function pushHistory(history: ScheduleHistory, before: Schedule, label: string): ScheduleHistory {
+  return { past: [{ label, schedule: before }, ...history.past].slice(0, MAX_HISTORY), future: [] };
+}
+
+/**
+ * Moves `steps` actions back (positive) or forward (negative) from `current`.
+ * Steps beyond either end stop at the end.
+ */
+export function travelHistory(
+  history: ScheduleHistory,
+  current: Schedule,
+  steps: number
+): { history: ScheduleHistory; schedule: Schedule } {
+  let { past, future } = history;
+  let schedule = current;
+  for (let i = 0; i < Math.abs(steps); i++) {
+    if (steps > 0) {
+      const [entry, ...rest] = past;
+      if (!entry) break;
+      future = [{ label: entry.label, schedule }, ...future];
+      past = rest;
+      schedule = entry.schedule;
+    } else {
+      const [entry, ...rest] = future;
+      if (!entry) break;
+      past = [{ label: entry.label, schedule }, ...past];
+      future = rest;
+      schedule = entry.schedule;
+    }
+  }
+  return { history: { past, future }, schedule };
+}
+
+/** Label for a single cell edit, e.g. "SW 0930 Tue: ASMI → BJOH" */
+export function describeCellEdit(day: Day, slot: TimeSlot, col: Column, before: string, after: string): string {
+  return `${col} ${slot.slice(0, 4)} ${day.slice(0, 3)}: ${before.trim() || 'empty'} → ${after.trim() || 'empty'}`;
+}
+
+/** Label for a scoped run, e.g. "Re-solve Tue 0930-1330 SW/NE" */
+export function describeScope(scope: ScheduleScope): string {
+  const parts = [
+    scope.days?.map((d) => d.slice(0, 3)).join('/'),
+    scope.slots?.length ? `${scope.slots[0].slice(0, 4)}-${scope.slots[scope.slots.length - 1].slice(5, 9)}` : undefined,
+    scope.columns?.join('/'),
+  ];
+  return ['Re-solve', ...parts.filter(Boolean)].join(' ');
+}
@@ -0,0 +1,73 @@
+import { Column, Day, Schedule, ScheduleLocks, ScheduleScope, TimeSlot, days, getColumns, getTimeSlots } from '../constants';
+
+export function isCellLocked(locks: ScheduleLocks, day: Day, slot: TimeSlot, col: Column): boolean {
+  return !!locks[day]?.[slot]?.includes(col);
+}
+
+// Returns a copy with the cell's lock flipped; emptied slots and days are dropped
+export function toggleCellLock(locks: ScheduleLocks, day: Day, slot: TimeSlot, col: Column): ScheduleLocks {
+  const cols = locks[day]?.[slot] ?? [];
+  const nextCols = cols.includes(col) ? cols.filter((c) => c !== col) : [...cols, col];
+  const nextDay = { ...locks[day], [slot]: nextCols };
+  if (nextCols.length === 0) delete nextDay[slot];
+
+  const next: ScheduleLocks = { ...locks, [day]: nextDay };
+  if (Object.keys(nextDay).length === 0) delete next[day];
+  return next;
+}
+
+export function countLockedCells(locks: ScheduleLocks): number {
+  return days.reduce(
+    (sum, day) => sum + Object.values(locks[day] ?? {}).reduce((n, cols) => n + (cols?.length ?? 0), 0),
+    0
+  );
+}
+
+export function isInScope(scope: ScheduleScope, day: Day, slot: TimeSlot, col: Column): boolean {
+  return (
+    (!scope.days || scope.days.includes(day)) &&
+    (!scope.slots || scope.slots.includes(slot)) &&
+    (!scope.columns || scope.columns.includes(col))
+  );
+}
+
+/** Adds a lock for every cell outside the scope, so a run only changes cells inside it */
+export function lockOutsideScope(locks: ScheduleLocks, scope: ScheduleScope): ScheduleLocks {
+  const next: ScheduleLocks = {};
+  days.forEach((day) => {
+    const dayLocks: Record<TimeSlot, Column[]> = {};
+    getTimeSlots().forEach((slot) => {
+      const cols = getColumns().filter((col) => isCellLocked(locks, day, slot, col) || !isInScope(scope, day, slot, col));
+      if (cols.length > 0) dayLocks[slot] = cols;
+    });
+    if (Object.keys(dayLocks).length > 0) next[day] = dayLocks;
+  });
+  return next;
+}
+
+/** Copy of the schedule holding only its locked cells; every other cell is empty */
+export function keepLockedCells(schedule: Schedule, locks: ScheduleLocks): Schedule {
+  const kept = {} as Schedule;
+  days.forEach((day) => {
+    kept[day] = {};
+    getTimeSlots().forEach((slot) => {
+      kept[day][slot] = {};
+      getColumns().forEach((col) => {
+        kept[day][slot][col] = isCellLocked(locks, day, slot, col) ? schedule[day]?.[slot]?.[col] ?? '' : '';
+      });
+    });
+  });
+  return kept;
+}
+
+/** Writes the locked cells of `source` back over `schedule` (mutates `schedule`) */
+export function restoreLockedCells(schedule: Schedule, source: Schedule, locks: ScheduleLocks): void {
+  days.forEach((day) => {
+    Object.entries(locks[day] ?? {}).forEach(([slot, cols]) => {
+      if (!schedule[day][slot]) return;
+      (cols ?? []).forEach((col) => {
+        schedule[day][slot][col] = source[day]?.[slot]?.[col] ?? '';
+      });
+    });
+  });
+}
@@ -0,0 +1,58 @@
+import { Day, days } from '../constants';
+
+// Schedules are keyed by the ISO date (YYYY-MM-DD) of the Monday that starts the week.
+// Dates are handled in local time so a week never shifts across a timezone boundary.
+export type WeekStart = string;
+
+const WEEK_START = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local calendar date as YYYY-MM-DD
+export const formatDate = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export function isWeekStart(value: unknown): value is WeekStart {
+  if (typeof value !== 'string') return false;
+  const date = parseWeekStart(value);
+  return !!date && date.getDay() === 1 && formatDate(date) === value;
+}
+
+export function parseWeekStart(weekStart: WeekStart): Date | null {
+  const m = weekStart.match(WEEK_START);
+  if (!m) return null;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+}
+
+// Monday of the week containing the given date
+export function getWeekStart(date: Date = new Date()): WeekStart {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return formatDate(monday);
+}
+
+export function addWeeks(weekStart: WeekStart, count: number): WeekStart {
+  const date = parseWeekStart(weekStart) ?? new Date();
+  date.setDate(date.getDate() + count * 7);
+  return getWeekStart(date);
+}
+
+// Calendar date of a weekday within the week
+export function dateForDay(weekStart: WeekStart, day: Day): Date {
+  const date = parseWeekStart(weekStart) ?? new Date();
+  date.setDate(date.getDate() + days.indexOf(day));
+  return date;
+}
+
+// "Oct 19, 2026"
+export function formatWeekLabel(weekStart: WeekStart): string {
+  const date = parseWeekStart(weekStart);
+  if (!date) return weekStart;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// "10/19"
+export function formatDayDate(weekStart: WeekStart, day: Day): string {
+  const date = dateForDay(weekStart, day);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+}
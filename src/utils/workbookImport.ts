@@ -0,0 +1,102 @@
+import { days, Day, Schedule, Column, TimeSlot, getColumns, getTimeSlots } from '../constants';
+import { normalizeSchedule, type DailyDetailDoc } from '../appStorage';
+import type { ExtendedDispatcher } from '../appTypes';
+
+// Contents of a Radio Week View workbook as read by the main process
+export interface ImportedWorkbook {
+  title: string;
+  // Keyed by the slot labels and channel names found in the workbook
+  schedule: Schedule;
+  columns: Column[];
+  timeSlots: TimeSlot[];
+  dailyDetails: Partial<Record<Day, DailyDetailDoc>>;
+  // Problems found while reading, e.g. rows without a slot label
+  warnings: string[];
+}
+
+export interface UnknownName {
+  name: string;
+  // Where the name appears, e.g. "Monday 0330-0530 SW"
+  locations: string[];
+}
+
+export interface WorkbookImportReport {
+  filledCells: number;
+  unknownNames: UnknownName[];
+  // Channels in the workbook that are not configured; their cells are kept but not shown
+  unknownChannels: Column[];
+  // Workbook rows that are not on the configured grid; carried over by time of day
+  remappedSlots: TimeSlot[];
+  warnings: string[];
+}
+
+// Trainer/trainee pairs are written "TRAINER/TRAINEE"; markers such as "(T)" follow a name
+const cellNames = (value: string): string[] =>
+  value
+    .split('/')
+    .map((part) => part.replace(/\(.*?\)/g, '').trim())
+    .filter(Boolean);
+
+/**
+ * Brings an imported workbook onto the configured grid and channels and lists what did not
+ * match: names that are neither a dispatcher id nor a name, unknown channels and slot rows.
+ */
+export function buildImportedWeek(
+  imported: ImportedWorkbook,
+  dispatchers: ExtendedDispatcher[]
+): { schedule: Schedule; dailyDetails: Partial<Record<Day, DailyDetailDoc>>; report: WorkbookImportReport } {
+  const known = new Set<string>();
+  dispatchers.forEach((d) => {
+    if (d.id) known.add(d.id.trim().toUpperCase());
+    if (d.name) known.add(d.name.trim().toUpperCase());
+  });
+
+  const unknown = new Map<string, string[]>();
+  const checkNames = (value: string, location: string) => {
+    cellNames(value).forEach((name) => {
+      if (known.has(name.toUpperCase())) return;
+      const locations = unknown.get(name) ?? [];
+      locations.push(location);
+      unknown.set(name, locations);
+    });
+  };
+
+  let filledCells = 0;
+  days.forEach((day) => {
+    Object.entries(imported.schedule[day] ?? {}).forEach(([slot, row]) => {
+      Object.entries(row).forEach(([column, value]) => {
+        if (!value) return;
+        filledCells += 1;
+        checkNames(value, `${day} ${slot} ${column}`);
+      });
+    });
+  });
+
+  days.forEach((day) => {
+    const detail = imported.dailyDetails[day];
+    if (!detail) return;
+    (['stabilizer', 'relief', 'teletype'] as const).forEach((panel) => {
+      (detail[panel]?.rows ?? []).forEach((row) => {
+        row.slice(1).forEach((value) => {
+          if (value) checkNames(value, `${day} ${panel} ${row[0] ?? ''}`.trim());
+        });
+      });
+    });
+  });
+
+  const configuredColumns = new Set(getColumns());
+  const configuredSlots = new Set(getTimeSlots());
+  return {
+    schedule: normalizeSchedule(imported.schedule),
+    dailyDetails: imported.dailyDetails,
+    report: {
+      filledCells,
+      unknownNames: [...unknown.entries()]
+        .map(([name, locations]) => ({ name, locations }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      unknownChannels: imported.columns.filter((c) => !configuredColumns.has(c)),
+      remappedSlots: imported.timeSlots.filter((t) => !configuredSlots.has(t)),
+      warnings: imported.warnings,
+    },
+  };
+}
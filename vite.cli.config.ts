@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Command-line build: `npm run build:cli`, then `node dist-cli/radio-schedule.js --help`.
+// Dependencies stay external and load from node_modules.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/radioSchedule.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      output: { entryFileNames: 'radio-schedule.js' },
+    },
+  },
+})
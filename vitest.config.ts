@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so test runs do not start the Electron plugins
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // The GLPK engines solve whole weeks
+    testTimeout: 60_000,
+    // Drop the solver's progress logging; warnings and errors still show
+    onConsoleLog: (log, type) => (type === 'stdout' && /^\[(WeekScheduler|UT Assignment|ILP)\]/.test(log) ? false : undefined),
+  },
+})